@@ -0,0 +1,123 @@
+/*
+ * Tests for command-line parsing and the subcommands
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { parseCommandLine } from './cli.js';
+import { runCommand } from './commands.js';
+import { useMockDocs } from './testing/mock-docs.js';
+
+const mockIndex = {
+  'Accordion Pattern (Sections With Show/Hide Functionality)': 'docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md'
+};
+
+const accordion = `# Accordion Pattern
+
+## Keyboard Interaction
+
+- Enter or Space: expands the collapsed panel.
+
+## WAI-ARIA Roles, States, and Properties
+
+- Each header button has aria-expanded.
+`;
+
+describe('parseCommandLine', () => {
+  it('should start the server without a subcommand', () => {
+    expect(parseCommandLine([])).toEqual({ command: 'serve', transport: { transport: 'stdio' } });
+    expect(parseCommandLine(['--http', '--port', '8080']))
+      .toEqual({ command: 'serve', transport: { transport: 'http', host: '127.0.0.1', port: 8080 } });
+  });
+
+  it('should keep starting the server with arguments it does not know', () => {
+    expect(parseCommandLine(['--stdio'])).toEqual({ command: 'serve', transport: { transport: 'stdio' }, ignoredArgs: ['--stdio'] });
+    expect(parseCommandLine(['--http', '--verbose', '--port', '8080', 'extra'])).toEqual({
+      command: 'serve',
+      transport: { transport: 'http', host: '127.0.0.1', port: 8080 },
+      ignoredArgs: ['--verbose', 'extra']
+    });
+  });
+
+  it('should parse search, fetch and list options', () => {
+    expect(parseCommandLine(['search', 'combobox', 'keyboard', '--max', '5', '--kind', 'example'])).toEqual({
+      command: 'search',
+      format: 'markdown',
+      input: { query: 'combobox keyboard', maxResults: 5, includeContent: true, kind: 'example' }
+    });
+    expect(parseCommandLine(['fetch', 'accordion', '--section', 'Keyboard Interaction', '--section', 'Examples', '--format', 'json'])).toEqual({
+      command: 'fetch',
+      format: 'json',
+      input: { path: 'accordion', includeMetadata: true, sections: ['Keyboard Interaction', 'Examples'] }
+    });
+    expect(parseCommandLine(['list', '--format', 'markdown', '--hierarchy'])).toEqual({
+      command: 'list',
+      format: 'markdown',
+      input: { hierarchy: true }
+    });
+  });
+
+  it('should reject invalid arguments', () => {
+    expect(() => parseCommandLine(['search'])).toThrow('search needs a query');
+    expect(() => parseCommandLine(['search', 'tabs', '--max', '0'])).toThrow('Invalid --max');
+    expect(() => parseCommandLine(['search', 'tabs', '--max', '21'])).toThrow('Invalid --max: "21" (expected an integer from 1 to 20)');
+    expect(() => parseCommandLine(['fetch', 'tabs', '--max-chars', '1'])).toThrow('Invalid --max-chars: "1" (expected an integer of at least 500)');
+    expect(() => parseCommandLine(['list', '--format', 'html'])).toThrow('Invalid --format');
+    expect(() => parseCommandLine(['fetch', 'a.md', 'b.md'])).toThrow('exactly one article');
+    expect(() => parseCommandLine(['list', '--verbose'])).toThrow();
+  });
+});
+
+describe('runCommand', () => {
+  const subcommand = (argv: string[]) => {
+    const command = parseCommandLine(argv);
+    if (command.command === 'serve') throw new Error('Expected a subcommand');
+    return command;
+  };
+  const output = { stdout: vi.fn(), stderr: vi.fn() };
+
+  beforeEach(() => {
+    output.stdout.mockReset();
+    output.stderr.mockReset();
+    useMockDocs(mockIndex, () => accordion);
+  });
+
+  it('should print a section of an article as markdown', async () => {
+    const code = await runCommand(subcommand(['fetch', 'accordion', '--section', 'Keyboard Interaction']), output);
+
+    expect(code).toBe(0);
+    expect(output.stdout.mock.calls[0][0]).toContain('## Keyboard Interaction\n\n- Enter or Space: expands the collapsed panel.');
+    expect(output.stdout.mock.calls[0][0]).not.toContain('aria-expanded');
+  });
+
+  it('should print search results as JSON', async () => {
+    const code = await runCommand(subcommand(['search', 'accordion', '--format', 'compact-json']), output);
+
+    expect(code).toBe(0);
+    const result = JSON.parse(output.stdout.mock.calls[0][0]);
+    expect(result.articles[0].path).toBe('docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md');
+    expect(result.corpusVersion).toBe('vltansky/e11y-mcp@master');
+  });
+
+  it('should continue a chunked fetch from the cursor of the previous run', async () => {
+    const sections = ['Keyboard Interaction', 'Roles', 'Examples'].map(heading => `## ${heading}\n\n${'Text. '.repeat(80)}\n`);
+    useMockDocs(mockIndex, () => `# Accordion Pattern\n\n${sections.join('\n')}`);
+
+    await runCommand(subcommand(['fetch', 'accordion', '--max-chars', '500', '--format', 'compact-json']), output);
+    const first = JSON.parse(output.stdout.mock.calls[0][0]);
+    await runCommand(subcommand(['fetch', 'accordion', '--cursor', first.pagination.nextCursor, '--format', 'compact-json']), output);
+    const second = JSON.parse(output.stdout.mock.calls[1][0]);
+
+    expect(first.pagination.chunk).toBe(1);
+    expect(second.pagination).toMatchObject({ chunk: 2, totalChunks: first.pagination.totalChunks });
+    expect(second.pagination.offset).toBeGreaterThan(0);
+    expect(second.content).not.toBe(first.content);
+  });
+
+  it('should report failures on stderr with a non-zero exit code', async () => {
+    const code = await runCommand(subcommand(['fetch', 'tabs']), output);
+
+    expect(code).toBe(1);
+    expect(output.stdout).not.toHaveBeenCalled();
+    expect(output.stderr.mock.calls[0][0]).toContain('**Error (NOT_FOUND)**: Article not found: tabs');
+  });
+});
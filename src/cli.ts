@@ -0,0 +1,249 @@
+/*
+ * Command-Line Arguments
+ *
+ * Without a subcommand the MCP server is started:
+ *   --http           Serve MCP over Streamable HTTP instead of stdio
+ *   --host <host>    HTTP bind address (default: 127.0.0.1)
+ *   --port <port>    HTTP port (default: 3000)
+ * Other arguments are ignored with a warning, so existing client configs keep working.
+ *
+ * Subcommands call the tools directly and print the result (see USAGE).
+ */
+
+import { parseArgs } from 'node:util';
+import {
+  MAX_SEARCH_RESULTS,
+  MIN_CHUNK_CHARS,
+  type FetchArticleInput,
+  type ListArticlesInput,
+  type SearchQueryInput
+} from './tools/e11y-tools.js';
+import { OUTPUT_FORMATS, type OutputFormat } from './utils/formatter.js';
+import { ARTICLE_KINDS, type ArticleKind } from './utils/taxonomy.js';
+
+export type TransportOptions =
+  | { transport: 'stdio' }
+  | { transport: 'http'; host: string; port: number };
+
+export type CliCommand =
+  | { command: 'serve'; transport: TransportOptions; ignoredArgs?: string[] }
+  | { command: 'help' }
+  | { command: 'search'; format: OutputFormat; input: SearchQueryInput }
+  | { command: 'fetch'; format: OutputFormat; input: FetchArticleInput }
+  | { command: 'list'; format: OutputFormat; input: ListArticlesInput };
+
+const DEFAULT_HOST = '127.0.0.1';
+const DEFAULT_PORT = 3000;
+const DEFAULT_SEARCH_RESULTS = 10;
+
+export const USAGE = `Usage:
+  e11y-docs-mcp [--http [--host <host>] [--port <port>]]   Start the MCP server (stdio by default)
+  e11y-docs-mcp search <query> [options]                   Search articles
+  e11y-docs-mcp fetch <path> [options]                     Print an article
+  e11y-docs-mcp list [options]                             List articles
+
+Options:
+  --format <format>     markdown (default), json or compact-json
+  --source <name>       Only use articles of this documentation source
+  --cursor <token>      Continue from the nextCursor of a previous run with the same arguments
+  --max <n>             search, list: maximum number of results (search: at most 20)
+  --kind <kind>         search, list: pattern, example, practice or other
+  --pattern <name>      search, list: only this pattern and its examples
+  --site <host>         search, list: only articles from this site
+  --titles-only         search: match titles and paths without fetching content
+  --hierarchy           list: group each pattern with its examples
+  --section <heading>   fetch: only this section (repeatable)
+  --max-chars <n>       fetch: return at most this many characters (at least 500)`;
+
+// Options shared by every subcommand
+const COMMON_OPTIONS = {
+  format: { type: 'string' },
+  source: { type: 'string' },
+  cursor: { type: 'string' }
+} as const;
+
+// Facet filters of search and list
+const FILTER_OPTIONS = {
+  kind: { type: 'string' },
+  pattern: { type: 'string' },
+  site: { type: 'string' }
+} as const;
+
+// Flags of the server itself
+const SERVER_OPTIONS = {
+  http: { type: 'boolean' },
+  host: { type: 'string' },
+  port: { type: 'string' }
+} as const;
+
+/**
+ * Parse the server's command-line flags, ignoring any it does not know
+ */
+export function parseServerArgs(argv: string[]): TransportOptions {
+  const { values } = parseArgs({ args: argv, options: SERVER_OPTIONS, allowPositionals: true, strict: false });
+  if (values.host === true || values.port === true) {
+    throw new Error(`${values.host === true ? '--host' : '--port'} needs a value`);
+  }
+
+  if (!values.http) {
+    if (values.host !== undefined || values.port !== undefined) {
+      throw new Error('--host and --port require --http');
+    }
+    return { transport: 'stdio' };
+  }
+
+  const port = values.port === undefined ? DEFAULT_PORT : Number(values.port);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid --port: "${values.port}" (expected a port number)`);
+  }
+
+  return { transport: 'http', host: typeof values.host === 'string' ? values.host : DEFAULT_HOST, port };
+}
+
+/**
+ * Arguments the server ignores: unknown flags and positionals
+ */
+export function findIgnoredServerArgs(argv: string[]): string[] {
+  const { tokens } = parseArgs({ args: argv, options: SERVER_OPTIONS, allowPositionals: true, strict: false, tokens: true });
+  return tokens.flatMap(token => {
+    if (token.kind === 'positional') return [token.value];
+    if (token.kind === 'option' && !(token.name in SERVER_OPTIONS)) return [token.rawName];
+    return [];
+  });
+}
+
+/**
+ * Parse the command line into a subcommand, or the server's flags when there is none
+ */
+export function parseCommandLine(argv: string[]): CliCommand {
+  const [first, ...rest] = argv;
+  switch (first) {
+    case 'search':
+      return parseSearchArgs(rest);
+    case 'fetch':
+      return parseFetchArgs(rest);
+    case 'list':
+      return parseListArgs(rest);
+    case 'help':
+    case '--help':
+    case '-h':
+      return { command: 'help' };
+    default: {
+      const ignoredArgs = findIgnoredServerArgs(argv);
+      return { command: 'serve', transport: parseServerArgs(argv), ...(ignoredArgs.length > 0 ? { ignoredArgs } : {}) };
+    }
+  }
+}
+
+function parseSearchArgs(argv: string[]): CliCommand {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    options: { ...COMMON_OPTIONS, ...FILTER_OPTIONS, max: { type: 'string' }, 'titles-only': { type: 'boolean' } },
+    allowPositionals: true,
+    strict: true
+  });
+  const query = positionals.join(' ').trim();
+  if (!query) {
+    throw new Error('search needs a query, e.g. e11y-docs-mcp search "combobox"');
+  }
+
+  return {
+    command: 'search',
+    format: parseFormat(values.format),
+    input: {
+      query,
+      maxResults: values.max === undefined ? DEFAULT_SEARCH_RESULTS : parseInteger('--max', values.max, { min: 1, max: MAX_SEARCH_RESULTS }),
+      includeContent: !values['titles-only'],
+      ...(values.cursor ? { cursor: values.cursor } : {}),
+      ...parseFilters(values)
+    }
+  };
+}
+
+function parseFetchArgs(argv: string[]): CliCommand {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    options: { ...COMMON_OPTIONS, section: { type: 'string', multiple: true }, 'max-chars': { type: 'string' } },
+    allowPositionals: true,
+    strict: true
+  });
+  if (positionals.length !== 1) {
+    throw new Error('fetch needs exactly one article path, title or slug, e.g. e11y-docs-mcp fetch accordion');
+  }
+
+  return {
+    command: 'fetch',
+    format: parseFormat(values.format),
+    input: {
+      path: positionals[0],
+      includeMetadata: true,
+      ...(values.section ? { sections: values.section } : {}),
+      ...(values['max-chars'] !== undefined ? { maxChars: parseInteger('--max-chars', values['max-chars'], { min: MIN_CHUNK_CHARS }) } : {}),
+      ...(values.cursor ? { cursor: values.cursor } : {}),
+      ...(values.source ? { source: values.source } : {})
+    }
+  };
+}
+
+function parseListArgs(argv: string[]): CliCommand {
+  const { values } = parseArgs({
+    args: argv,
+    options: { ...COMMON_OPTIONS, ...FILTER_OPTIONS, max: { type: 'string' }, hierarchy: { type: 'boolean' } },
+    strict: true
+  });
+
+  return {
+    command: 'list',
+    format: parseFormat(values.format),
+    input: {
+      ...(values.max !== undefined ? { maxResults: parseInteger('--max', values.max, { min: 1 }) } : {}),
+      ...(values.hierarchy ? { hierarchy: true } : {}),
+      ...(values.cursor ? { cursor: values.cursor } : {}),
+      ...parseFilters(values)
+    }
+  };
+}
+
+function parseFormat(format: string | undefined): OutputFormat {
+  if (format === undefined) {
+    return 'markdown';
+  }
+  if (!(OUTPUT_FORMATS as readonly string[]).includes(format)) {
+    throw new Error(`Invalid --format: "${format}" (expected ${OUTPUT_FORMATS.join(', ')})`);
+  }
+  return format as OutputFormat;
+}
+
+function parseFilters(values: { kind?: string; pattern?: string; site?: string; source?: string }): {
+  kind?: ArticleKind;
+  pattern?: string;
+  site?: string;
+  source?: string;
+} {
+  if (values.kind !== undefined && !(ARTICLE_KINDS as readonly string[]).includes(values.kind)) {
+    throw new Error(`Invalid --kind: "${values.kind}" (expected ${ARTICLE_KINDS.join(', ')})`);
+  }
+  return {
+    ...(values.kind ? { kind: values.kind as ArticleKind } : {}),
+    ...(values.pattern ? { pattern: values.pattern } : {}),
+    ...(values.site ? { site: values.site } : {}),
+    ...(values.source ? { source: values.source } : {})
+  };
+}
+
+/**
+ * Parse an integer flag within the bounds the tool's input schema enforces
+ */
+function parseInteger(flag: string, value: string, range: { min: number; max?: number }): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < range.min || (range.max !== undefined && number > range.max)) {
+    let expected = `an integer of at least ${range.min}`;
+    if (range.max !== undefined) {
+      expected = `an integer from ${range.min} to ${range.max}`;
+    } else if (range.min === 1) {
+      expected = 'a positive integer';
+    }
+    throw new Error(`Invalid ${flag}: "${value}" (expected ${expected})`);
+  }
+  return number;
+}
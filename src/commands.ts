@@ -0,0 +1,60 @@
+/*
+ * Command-Line Subcommands
+ *
+ * Run search, fetch and list from a shell, pre-commit hook or CI job. Results
+ * are printed with the same renderers as the MCP tools' output modes.
+ */
+
+import { USAGE, type CliCommand } from './cli.js';
+import {
+  fetchAccessibilityArticle,
+  listAccessibilityArticles,
+  searchAccessibilityArticles,
+  withCorpusVersion
+} from './tools/e11y-tools.js';
+import { renderArticle, renderArticleList, renderError, renderSearchResults, renderWithVersion } from './tools/renderers.js';
+import { toDocsError } from './utils/errors.js';
+import { formatResponse } from './utils/formatter.js';
+
+export interface CommandOutput {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+const processOutput: CommandOutput = {
+  stdout: text => process.stdout.write(`${text}\n`),
+  stderr: text => process.stderr.write(`${text}\n`)
+};
+
+/**
+ * Run a subcommand and return the process exit code
+ */
+export async function runCommand(command: Exclude<CliCommand, { command: 'serve' }>, output: CommandOutput = processOutput): Promise<number> {
+  if (command.command === 'help') {
+    output.stdout(USAGE);
+    return 0;
+  }
+
+  // Results are labeled with the version of the docs, as the MCP tools' are
+  const print = <T extends object>(result: T, render: (result: T) => string) =>
+    output.stdout(formatResponse(withCorpusVersion(result), command.format, renderWithVersion(render)));
+
+  try {
+    switch (command.command) {
+      case 'search':
+        print(await searchAccessibilityArticles(command.input), renderSearchResults);
+        break;
+      case 'fetch':
+        print(await fetchAccessibilityArticle(command.input), renderArticle);
+        break;
+      case 'list':
+        print(await listAccessibilityArticles(command.input), renderArticleList);
+        break;
+    }
+    return 0;
+  } catch (error) {
+    const { code, message, suggestions } = toDocsError(error);
+    output.stderr(formatResponse({ error: { code, message, ...(suggestions ? { suggestions } : {}) } }, command.format, renderError));
+    return 1;
+  }
+}
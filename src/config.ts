@@ -0,0 +1,241 @@
+/*
+ * Server Configuration
+ *
+ * Configuration is read from environment variables so it can be set in the
+ * MCP client config ("env") without extra files.
+ *
+ *   E11Y_DOCS_SOURCE           "github" (default) or "local"
+ *   E11Y_DOCS_DIR              docs/ folder with index.json (implies "local" when set)
+ *   E11Y_DOCS_REPO             GitHub repository in "owner/name" form
+ *   E11Y_DOCS_REF              branch, tag or commit SHA of the repository to read (default master)
+ *   E11Y_DOCS_CACHE_DIR        directory for the persistent cache, or "off" to keep it in memory
+ *   E11Y_DOCS_CACHE_TTL        seconds before cached docs are revalidated (default 3600)
+ *   E11Y_DOCS_CONCURRENCY      parallel article fetches during search (default 6)
+ *   E11Y_DOCS_REQUEST_TIMEOUT  milliseconds per article fetch (default 10000)
+ *   E11Y_DOCS_SEARCH_TIMEOUT   milliseconds for a whole content search (default 30000)
+ *   E11Y_DOCS_LOG_LEVEL        stderr log level: "debug", "info" (default), "warn" or "off"
+ *   E11Y_DOCS_ALLOWED_HOSTS    comma-separated Host headers the HTTP transport accepts, e.g. "docs.internal:3000"
+ *                              (default: the bind address, and localhost names for loopback and 0.0.0.0)
+ *   E11Y_DOCS_ALLOWED_ORIGINS  comma-separated browser origins the HTTP transport accepts
+ *                              (default: http:// with each allowed host)
+ *   E11Y_DOCS_SYNONYMS         JSON file of extra query synonyms, {"term": ["apg term", ...]}
+ *   E11Y_DOCS_SOURCES          JSON file of extra named sources searched next to the primary one,
+ *                              {"handbook": {"type": "local", "dir": "..."}, "internal": {"type": "http", "baseUrl": "..."}}
+ */
+
+import { readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { dirname, join, resolve } from 'node:path';
+import { LOG_LEVELS, type LogLevel } from './utils/diagnostics.js';
+import { DocsError } from './utils/errors.js';
+import { DEFAULT_SYNONYMS, mergeSynonyms, type SynonymMap } from './utils/synonyms.js';
+
+const DEFAULT_CACHE_TTL_SECONDS = 60 * 60;
+const DEFAULT_CONCURRENCY = 6;
+const DEFAULT_REQUEST_TIMEOUT_MS = 10_000;
+const DEFAULT_SEARCH_TIMEOUT_MS = 30_000;
+
+export type DocSourceConfig =
+  | { type: 'github'; repo?: string; ref?: string }
+  | { type: 'local'; dir: string }
+  | { type: 'http'; baseUrl: string };
+
+// Name of the primary source; extra sources cannot use it
+export const PRIMARY_SOURCE_NAME = 'e11y';
+
+export interface NamedSourceConfig {
+  /** Label of the source in results and the value of the `source` filter */
+  name: string;
+  source: DocSourceConfig;
+}
+
+export interface CacheConfig {
+  /** Cache directory; undefined keeps the cache in memory */
+  dir?: string;
+  ttlMs: number;
+}
+
+export interface FetchConfig {
+  /** Maximum article fetches in flight while scanning content */
+  concurrency: number;
+  requestTimeoutMs: number;
+  /** Deadline for fetching content during a single search */
+  searchTimeoutMs: number;
+}
+
+export interface SearchConfig {
+  /** Query synonyms: the built-in map plus any from E11Y_DOCS_SYNONYMS */
+  synonyms: SynonymMap;
+}
+
+export interface LogConfig {
+  /** Lowest level of the JSON lines written to stderr */
+  level: LogLevel;
+}
+
+export interface HttpConfig {
+  /** Host headers the HTTP transport accepts; undefined derives them from the bind address */
+  allowedHosts?: string[];
+  /** Origin headers the HTTP transport accepts; undefined allows the allowed hosts over http */
+  allowedOrigins?: string[];
+}
+
+export interface ServerConfig {
+  source: DocSourceConfig;
+  /** Extra sources from E11Y_DOCS_SOURCES, searched together with the primary one */
+  sources: NamedSourceConfig[];
+  cache: CacheConfig;
+  fetch: FetchConfig;
+  search: SearchConfig;
+  log: LogConfig;
+  http: HttpConfig;
+}
+
+/**
+ * Build the server configuration from environment variables; invalid settings
+ * throw a DocsError with the INVALID_CONFIG code
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  return {
+    source: loadSourceConfig(env),
+    sources: env.E11Y_DOCS_SOURCES ? readSourcesFile(env.E11Y_DOCS_SOURCES) : [],
+    cache: loadCacheConfig(env),
+    fetch: {
+      concurrency: readPositiveNumber(env, 'E11Y_DOCS_CONCURRENCY', DEFAULT_CONCURRENCY),
+      requestTimeoutMs: readPositiveNumber(env, 'E11Y_DOCS_REQUEST_TIMEOUT', DEFAULT_REQUEST_TIMEOUT_MS),
+      searchTimeoutMs: readPositiveNumber(env, 'E11Y_DOCS_SEARCH_TIMEOUT', DEFAULT_SEARCH_TIMEOUT_MS)
+    },
+    search: {
+      synonyms: env.E11Y_DOCS_SYNONYMS ? mergeSynonyms(DEFAULT_SYNONYMS, readSynonymsFile(env.E11Y_DOCS_SYNONYMS)) : DEFAULT_SYNONYMS
+    },
+    log: { level: readLogLevel(env) },
+    http: {
+      allowedHosts: readList(env.E11Y_DOCS_ALLOWED_HOSTS),
+      allowedOrigins: readList(env.E11Y_DOCS_ALLOWED_ORIGINS)
+    }
+  };
+}
+
+function loadSourceConfig(env: NodeJS.ProcessEnv): DocSourceConfig {
+  const sourceType = env.E11Y_DOCS_SOURCE?.trim().toLowerCase() || (env.E11Y_DOCS_DIR ? 'local' : 'github');
+
+  switch (sourceType) {
+    case 'local':
+      if (!env.E11Y_DOCS_DIR) {
+        throw new DocsError('INVALID_CONFIG', 'E11Y_DOCS_DIR must be set when E11Y_DOCS_SOURCE is "local"');
+      }
+      return { type: 'local', dir: env.E11Y_DOCS_DIR };
+    case 'github':
+      return { type: 'github', repo: env.E11Y_DOCS_REPO || undefined, ref: env.E11Y_DOCS_REF?.trim() || undefined };
+    default:
+      throw new DocsError('INVALID_CONFIG', `Unknown E11Y_DOCS_SOURCE "${sourceType}" (expected "github" or "local")`);
+  }
+}
+
+function loadCacheConfig(env: NodeJS.ProcessEnv): CacheConfig {
+  const ttlSeconds = env.E11Y_DOCS_CACHE_TTL ? Number(env.E11Y_DOCS_CACHE_TTL) : DEFAULT_CACHE_TTL_SECONDS;
+  if (!Number.isFinite(ttlSeconds) || ttlSeconds < 0) {
+    throw new DocsError('INVALID_CONFIG', `Invalid E11Y_DOCS_CACHE_TTL "${env.E11Y_DOCS_CACHE_TTL}" (expected seconds)`);
+  }
+
+  const dirSetting = env.E11Y_DOCS_CACHE_DIR?.trim();
+  let dir: string | undefined;
+  if (dirSetting?.toLowerCase() === 'off') {
+    dir = undefined;
+  } else if (dirSetting) {
+    dir = dirSetting;
+  } else {
+    dir = join(env.XDG_CACHE_HOME || join(homedir(), '.cache'), 'e11y-docs-mcp');
+  }
+
+  return { dir, ttlMs: ttlSeconds * 1000 };
+}
+
+function readLogLevel(env: NodeJS.ProcessEnv): LogLevel {
+  const level = env.E11Y_DOCS_LOG_LEVEL?.trim().toLowerCase() || 'info';
+  if (!(LOG_LEVELS as readonly string[]).includes(level)) {
+    throw new DocsError('INVALID_CONFIG', `Invalid E11Y_DOCS_LOG_LEVEL "${env.E11Y_DOCS_LOG_LEVEL}" (expected ${LOG_LEVELS.join(', ')})`);
+  }
+  return level as LogLevel;
+}
+
+function readSynonymsFile(file: string): SynonymMap {
+  let synonyms: unknown;
+  try {
+    synonyms = JSON.parse(readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new DocsError('INVALID_CONFIG', `Failed to read E11Y_DOCS_SYNONYMS "${file}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  const valid = typeof synonyms === 'object' && synonyms !== null && !Array.isArray(synonyms) &&
+    Object.values(synonyms).every(value => Array.isArray(value) && value.every(item => typeof item === 'string'));
+  if (!valid) {
+    throw new DocsError('INVALID_CONFIG', `Invalid E11Y_DOCS_SYNONYMS "${file}" (expected an object of string arrays)`);
+  }
+  return synonyms as SynonymMap;
+}
+
+function readSourcesFile(file: string): NamedSourceConfig[] {
+  let sources: unknown;
+  try {
+    sources = JSON.parse(readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new DocsError('INVALID_CONFIG', `Failed to read E11Y_DOCS_SOURCES "${file}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  if (typeof sources !== 'object' || sources === null || Array.isArray(sources)) {
+    throw new DocsError('INVALID_CONFIG', `Invalid E11Y_DOCS_SOURCES "${file}" (expected an object of named sources)`);
+  }
+
+  return Object.entries(sources).map(([name, source]) => {
+    if (!/^[a-z0-9][a-z0-9-]*$/i.test(name) || name.toLowerCase() === PRIMARY_SOURCE_NAME) {
+      throw new DocsError('INVALID_CONFIG', `Invalid source name "${name}" in E11Y_DOCS_SOURCES (letters, digits and dashes; "${PRIMARY_SOURCE_NAME}" is reserved)`);
+    }
+    return { name: name.toLowerCase(), source: parseSourceEntry(name, source, dirname(file)) };
+  });
+}
+
+/**
+ * Validate one entry of E11Y_DOCS_SOURCES; relative directories are resolved against the file
+ */
+function parseSourceEntry(name: string, entry: unknown, baseDir: string): DocSourceConfig {
+  const { type, repo, ref, dir, baseUrl } = (typeof entry === 'object' && entry !== null ? entry : {}) as Record<string, unknown>;
+  switch (type) {
+    case 'github':
+      if (typeof repo !== 'string' || !/^[^/\s]+\/[^/\s]+$/.test(repo)) {
+        throw new DocsError('INVALID_CONFIG', `Source "${name}" needs a "repo" in "owner/name" form`);
+      }
+      if (ref !== undefined && (typeof ref !== 'string' || !ref.trim())) {
+        throw new DocsError('INVALID_CONFIG', `Source "${name}" has an invalid "ref" (expected a branch, tag or commit SHA)`);
+      }
+      return { type, repo, ...(ref ? { ref: ref.trim() } : {}) };
+    case 'local':
+      if (typeof dir !== 'string' || !dir) {
+        throw new DocsError('INVALID_CONFIG', `Source "${name}" needs a "dir"`);
+      }
+      return { type, dir: resolve(baseDir, dir) };
+    case 'http':
+      if (typeof baseUrl !== 'string' || !/^https?:\/\//.test(baseUrl)) {
+        throw new DocsError('INVALID_CONFIG', `Source "${name}" needs an http(s) "baseUrl"`);
+      }
+      return { type, baseUrl: baseUrl.replace(/\/+$/, '') };
+    default:
+      throw new DocsError('INVALID_CONFIG', `Source "${name}" has unknown type "${String(type)}" (expected "github", "local" or "http")`);
+  }
+}
+
+function readList(raw: string | undefined): string[] | undefined {
+  const items = raw?.split(',').map(item => item.trim()).filter(Boolean);
+  return items && items.length > 0 ? items : undefined;
+}
+
+function readPositiveNumber(env: NodeJS.ProcessEnv, name: string, defaultValue: number): number {
+  const raw = env[name];
+  if (!raw) {
+    return defaultValue;
+  }
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new DocsError('INVALID_CONFIG', `Invalid ${name} "${raw}" (expected a positive number)`);
+  }
+  return value;
+}
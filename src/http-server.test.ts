@@ -0,0 +1,189 @@
+/*
+ * Tests for the Streamable HTTP transport
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { request } from 'node:http';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { startHttpServer, type HttpServerHandle } from './http-server.js';
+import { parseServerArgs } from './cli.js';
+import { setDocSource, setServerConfig } from './tools/e11y-tools.js';
+import { loadConfig } from './config.js';
+import { createLocalSource } from './sources/local-source.js';
+
+describe('parseServerArgs', () => {
+  it('should default to stdio', () => {
+    expect(parseServerArgs([])).toEqual({ transport: 'stdio' });
+  });
+
+  it('should parse the HTTP flags', () => {
+    expect(parseServerArgs(['--http'])).toEqual({ transport: 'http', host: '127.0.0.1', port: 3000 });
+    expect(parseServerArgs(['--http', '--host', '0.0.0.0', '--port', '8080']))
+      .toEqual({ transport: 'http', host: '0.0.0.0', port: 8080 });
+  });
+
+  it('should reject invalid flags', () => {
+    expect(() => parseServerArgs(['--http', '--port', 'abc'])).toThrow('Invalid --port: "abc"');
+    expect(() => parseServerArgs(['--port', '8080'])).toThrow('--host and --port require --http');
+    expect(() => parseServerArgs(['--http', '--port'])).toThrow('--port needs a value');
+  });
+});
+
+describe('startHttpServer', () => {
+  let dir: string;
+  let httpServer: HttpServerHandle;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'e11y-http-'));
+    await writeFile(join(dir, 'index.json'), JSON.stringify({ 'Tabs Pattern': 'docs/tabs.md' }));
+    await writeFile(join(dir, 'tabs.md'), '# Tabs Pattern\n\nTabs content\n');
+    setServerConfig(loadConfig({ E11Y_DOCS_LOG_LEVEL: 'off' }));
+    setDocSource(createLocalSource({ dir }));
+    httpServer = await startHttpServer({ host: '127.0.0.1', port: 0 });
+  });
+
+  afterEach(async () => {
+    await httpServer.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const connect = async () => {
+    const client = new Client({ name: 'test', version: '1.0.0' });
+    await client.connect(new StreamableHTTPClientTransport(new URL(`${httpServer.url}/mcp`)));
+    return client;
+  };
+
+  it('should serve the tools to independent sessions', async () => {
+    const first = await connect();
+    const second = await connect();
+
+    const { tools } = await first.listTools();
+    expect(tools.map(tool => tool.name)).toContain('search_accessibility_articles');
+
+    const result = await second.callTool({ name: 'list_accessibility_articles', arguments: { outputMode: 'compact-json' } });
+    expect((result.content as { text: string }[])[0].text).toContain('"title":"Tabs Pattern"');
+
+    const health = await (await fetch(`${httpServer.url}/health`)).json();
+    expect(health).toMatchObject({ status: 'ok', name: 'e11y-docs-mcp', sessions: 2 });
+    expect(health.source).toBe(`local:${dir}`);
+
+    await first.close();
+    await second.close();
+  });
+
+  it('should return failed tool calls as coded error results', async () => {
+    const client = await connect();
+
+    const result = await client.callTool({
+      name: 'fetch_accessibility_article',
+      arguments: { path: 'docs/missing.md', outputMode: 'compact-json' }
+    });
+
+    expect(result.isError).toBe(true);
+    expect(JSON.parse((result.content as { text: string }[])[0].text)).toEqual({
+      error: {
+        code: 'NOT_FOUND',
+        message: 'Error fetching accessibility article: Article not found: docs/missing.md',
+        suggestions: []
+      }
+    });
+    await client.close();
+  });
+
+  it('should reject requests without a valid session', async () => {
+    const missing = await fetch(`${httpServer.url}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+    });
+    expect(missing.status).toBe(400);
+
+    const unknown = await fetch(`${httpServer.url}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Mcp-Session-Id': 'nope' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+    });
+    expect(unknown.status).toBe(404);
+
+    expect((await fetch(`${httpServer.url}/other`)).status).toBe(404);
+  });
+
+  const initializeBody = JSON.stringify({
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } }
+  });
+
+  const initialize = (headers: Record<string, string>) => fetch(`${httpServer.url}/mcp`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+    body: initializeBody
+  });
+
+  // A rebound DNS name reaches the server with its own Host header, which fetch cannot set
+  const requestWithHost = (host: string, path: string, method: string, body?: string) =>
+    new Promise<number | undefined>((resolve, reject) => {
+      request({
+        host: '127.0.0.1',
+        port: new URL(httpServer.url).port,
+        path,
+        method,
+        headers: { Host: host, 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' }
+      }, res => {
+        res.resume();
+        resolve(res.statusCode);
+      }).on('error', reject).end(body);
+    });
+
+  it('should refuse requests from foreign origins and hosts', async () => {
+    const { port } = new URL(httpServer.url);
+    expect((await initialize({ Origin: 'http://attacker.example' })).status).toBe(403);
+    expect((await initialize({ Origin: httpServer.url })).status).toBe(200);
+    expect(await requestWithHost(`attacker.example:${port}`, '/mcp', 'POST', initializeBody)).toBe(403);
+  });
+
+  it('should guard the health check like the MCP endpoint', async () => {
+    const { port } = new URL(httpServer.url);
+    expect(await requestWithHost(`attacker.example:${port}`, '/health', 'GET')).toBe(403);
+    expect(await requestWithHost(`localhost:${port}`, '/health', 'GET')).toBe(200);
+
+    const foreign = await fetch(`${httpServer.url}/health`, { headers: { Origin: 'http://attacker.example' } });
+    expect(foreign.status).toBe(403);
+    expect(await foreign.json()).toEqual({ error: 'Forbidden: origin http://attacker.example is not allowed' });
+  });
+
+  it('should accept only the configured origins', async () => {
+    await httpServer.close();
+    setServerConfig(loadConfig({ E11Y_DOCS_LOG_LEVEL: 'off', E11Y_DOCS_ALLOWED_ORIGINS: 'https://portal.internal' }));
+    httpServer = await startHttpServer({ host: '127.0.0.1', port: 0 });
+
+    expect((await initialize({ Origin: 'https://portal.internal' })).status).toBe(200);
+    expect((await initialize({ Origin: httpServer.url })).status).toBe(403);
+  });
+
+  it('should remove sessions that the client terminates', async () => {
+    const client = await connect();
+    await (client.transport as StreamableHTTPClientTransport).terminateSession();
+
+    const health = await (await fetch(`${httpServer.url}/health`)).json();
+    expect(health.sessions).toBe(0);
+    await client.close();
+  });
+
+  it('should close idle sessions', async () => {
+    await httpServer.close();
+    httpServer = await startHttpServer({ host: '127.0.0.1', port: 0, sessionIdleMs: 20 });
+    const client = await connect();
+
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    const health = await (await fetch(`${httpServer.url}/health`)).json();
+    expect(health.sessions).toBe(0);
+    await client.close();
+  });
+});
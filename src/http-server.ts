@@ -0,0 +1,252 @@
+/*
+ * Streamable HTTP Transport
+ *
+ * Serves the MCP server over Streamable HTTP so one shared instance (and one
+ * warm cache) can serve a whole team. Every client session gets its own MCP
+ * server instance; idle sessions are closed after a timeout. Requests to any
+ * route with a Host or Origin header outside the allowed lists are refused, so
+ * a web page cannot reach the server through DNS rebinding.
+ *
+ * Routes:
+ *   POST/GET/DELETE /mcp   MCP Streamable HTTP endpoint
+ *   GET /health            Liveness check with session count
+ */
+
+import { randomUUID } from 'node:crypto';
+import { createServer as createNodeServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { hostname } from 'node:os';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createServer, SERVER_INFO } from './mcp-server.js';
+import { getDocSource, getServerConfig } from './tools/e11y-tools.js';
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  /** Close sessions without requests for this long (default: 30 minutes) */
+  sessionIdleMs?: number;
+}
+
+export interface HttpServerHandle {
+  /** Base URL the server listens on, e.g. http://127.0.0.1:3000 */
+  url: string;
+  close(): Promise<void>;
+}
+
+interface Session {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport;
+  lastSeen: number;
+}
+
+const MCP_PATH = '/mcp';
+const HEALTH_PATH = '/health';
+const DEFAULT_SESSION_IDLE_MS = 30 * 60 * 1000;
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '[::1]'];
+const WILDCARD_HOSTS = ['0.0.0.0', '[::]'];
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code, message }, id: null });
+}
+
+/**
+ * Host headers clients use for the bind address: loopback names for a loopback
+ * address, and also the machine name for a wildcard address
+ */
+function defaultAllowedHosts(host: string, port: number): string[] {
+  let names = [host];
+  if (LOOPBACK_HOSTS.includes(host)) {
+    names = LOOPBACK_HOSTS;
+  } else if (WILDCARD_HOSTS.includes(host)) {
+    names = [...LOOPBACK_HOSTS, hostname()];
+  }
+  return names.map(name => `${name}:${port}`);
+}
+
+/**
+ * Read and parse a JSON request body, enforcing a size limit
+ */
+async function readJsonBody(req: IncomingMessage): Promise<
+  { ok: true; body: unknown } | { ok: false; status: number; code: number; message: string }
+> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      return { ok: false, status: 413, code: -32600, message: 'Request body too large' };
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    return { ok: true, body: JSON.parse(Buffer.concat(chunks).toString('utf-8')) };
+  } catch {
+    return { ok: false, status: 400, code: -32700, message: 'Parse error: invalid JSON' };
+  }
+}
+
+/**
+ * Start serving MCP over Streamable HTTP
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<HttpServerHandle> {
+  const sessions = new Map<string, Session>();
+  const sessionIdleMs = options.sessionIdleMs ?? DEFAULT_SESSION_IDLE_MS;
+  const startedAt = Date.now();
+
+  // Filled in once the server listens and its port is known
+  let allowedHosts: string[] = [];
+  let allowedOrigins: string[] = [];
+
+  /**
+   * Why a request may not be served, when its Host or Origin is not allowed
+   */
+  const checkHostAndOrigin = (req: IncomingMessage): string | undefined => {
+    const { host, origin } = req.headers;
+    if (!host || !allowedHosts.includes(host)) {
+      return `Forbidden: host ${host ?? '(none)'} is not allowed`;
+    }
+    // Only browsers send an Origin, so requests without one (other MCP clients) are allowed
+    if (origin !== undefined && !allowedOrigins.includes(origin)) {
+      return `Forbidden: origin ${origin} is not allowed`;
+    }
+    return undefined;
+  };
+
+  const handleMcpRequest = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    let body: unknown;
+    if (req.method === 'POST') {
+      const parsed = await readJsonBody(req);
+      if (!parsed.ok) {
+        sendJsonRpcError(res, parsed.status, parsed.code, parsed.message);
+        return;
+      }
+      body = parsed.body;
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+
+    if (typeof sessionId === 'string') {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        // Clients re-initialize when their session is gone
+        sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      session.lastSeen = Date.now();
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const server = createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      enableDnsRebindingProtection: true,
+      allowedHosts,
+      onsessioninitialized: (id) => {
+        sessions.set(id, { server, transport, lastSeen: Date.now() });
+      }
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+    // The health check names the docs location, so it is guarded like /mcp
+    const forbidden = checkHostAndOrigin(req);
+    if (forbidden) {
+      if (pathname === MCP_PATH) {
+        sendJsonRpcError(res, 403, -32000, forbidden);
+      } else {
+        sendJson(res, 403, { error: forbidden });
+      }
+      return;
+    }
+
+    if (pathname === HEALTH_PATH && req.method === 'GET') {
+      sendJson(res, 200, {
+        status: 'ok',
+        name: SERVER_INFO.name,
+        version: SERVER_INFO.version,
+        source: `${getDocSource().kind}:${getDocSource().location}`,
+        sessions: sessions.size,
+        uptimeSeconds: Math.round((Date.now() - startedAt) / 1000)
+      });
+    } else if (pathname === MCP_PATH) {
+      await handleMcpRequest(req, res);
+    } else {
+      sendJson(res, 404, { error: `Not found: ${pathname}` });
+    }
+  };
+
+  const httpServer = createNodeServer((req, res) => {
+    handleRequest(req, res).catch(error => {
+      if (res.headersSent) {
+        res.end();
+      } else {
+        sendJsonRpcError(res, 500, -32603, `Internal server error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    });
+  });
+
+  const closeSession = async (session: Session): Promise<void> => {
+    // Closing the server closes its transport, which removes the session
+    await session.server.close().catch(() => undefined);
+  };
+
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    for (const session of sessions.values()) {
+      if (now - session.lastSeen > sessionIdleMs) {
+        void closeSession(session);
+      }
+    }
+  }, Math.min(sessionIdleMs, 60_000));
+  sweep.unref();
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const { port } = httpServer.address() as AddressInfo;
+  const host = options.host.includes(':') ? `[${options.host}]` : options.host;
+  const config = getServerConfig().http;
+  allowedHosts = config.allowedHosts ?? defaultAllowedHosts(host, port);
+  allowedOrigins = config.allowedOrigins ?? allowedHosts.map(allowed => `http://${allowed}`);
+
+  return {
+    url: `http://${host}:${port}`,
+    close: async () => {
+      clearInterval(sweep);
+      await Promise.all([...sessions.values()].map(closeSession));
+      await new Promise<void>((resolve, reject) => {
+        httpServer.close(error => (error ? reject(error) : resolve()));
+        httpServer.closeAllConnections();
+      });
+    }
+  };
+}
@@ -0,0 +1,491 @@
+/*
+ * E11y Documentation MCP Server Factory
+ *
+ * Creates an MCP server with every tool, resource and prompt registered. Each
+ * transport connection needs its own server instance; they all share the
+ * documentation source and caches of the process.
+ */
+
+import { McpServer, ResourceTemplate, type ToolCallback } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+import { z, type ZodRawShape } from 'zod';
+import { recordToolCall } from './utils/diagnostics.js';
+import { toDocsError } from './utils/errors.js';
+import { formatResponse, OUTPUT_FORMATS, type OutputFormat } from './utils/formatter.js';
+import {
+  searchAccessibilityArticles,
+  fetchAccessibilityArticle,
+  listAccessibilityArticles,
+  getArticleOutline,
+  withCorpusVersion,
+  sourceFilterShape,
+  taxonomyFilterShape,
+  MAX_SEARCH_RESULTS,
+  MIN_CHUNK_CHARS
+} from './tools/e11y-tools.js';
+import { getPatternSpec } from './tools/pattern-tools.js';
+import { lookupAriaTerm } from './tools/aria-tools.js';
+import { auditMarkup } from './tools/audit-tools.js';
+import { getRelatedArticles } from './tools/related-tools.js';
+import { lookupWcagCriterion } from './tools/wcag-tools.js';
+import { compareCorpusVersions } from './tools/version-tools.js';
+import { getServerStatus } from './tools/status-tools.js';
+import { getCodeExamples } from './tools/code-tools.js';
+import {
+  ARTICLE_URI_TEMPLATE,
+  completeArticlePath,
+  listArticleResources,
+  readArticleResource
+} from './resources/article-resources.js';
+import {
+  buildImplementPatternPrompt,
+  buildKeyboardTestsPrompt,
+  buildReviewComponentPrompt,
+  completePatternName
+} from './prompts/review-prompts.js';
+import {
+  renderArticle,
+  renderArticleList,
+  renderAriaLookup,
+  renderAudit,
+  renderCodeExamples,
+  renderError,
+  renderOutline,
+  renderPatternSpec,
+  renderRelatedArticles,
+  renderSearchResults,
+  renderServerStatus,
+  renderVersionComparison,
+  renderWcagCriterion,
+  renderWithVersion
+} from './tools/renderers.js';
+
+const outputModeSchema = z.enum(OUTPUT_FORMATS).optional().default('json').describe(
+  'Output format: "json" for formatted JSON (default), "compact-json" for minified JSON, "markdown" for readable markdown'
+);
+
+export const SERVER_INFO = {
+  name: 'e11y-docs-mcp',
+  version: '0.1.0',
+};
+
+/**
+ * Format a tool result, labeled with the version of the docs it came from
+ */
+function toolResult<T extends object>(result: T, outputMode: OutputFormat, render: (result: T) => string): CallToolResult {
+  return {
+    content: [{
+      type: 'text',
+      text: formatResponse(withCorpusVersion(result), outputMode, renderWithVersion(render))
+    }]
+  };
+}
+
+/**
+ * Turn a failed tool call into an MCP error result carrying the error code
+ */
+function errorResult(action: string, error: unknown, outputMode: OutputFormat): CallToolResult {
+  const { code, message, suggestions } = toDocsError(error);
+  return {
+    isError: true,
+    content: [{
+      type: 'text',
+      text: formatResponse({
+        error: { code, message: `Error ${action}: ${message}`, ...(suggestions ? { suggestions } : {}) }
+      }, outputMode, renderError)
+    }]
+  };
+}
+
+/**
+ * Create a server with all tools, resources and prompts registered
+ */
+export function createServer(): McpServer {
+  const server = new McpServer(SERVER_INFO);
+
+  // Every tool call is counted and timed for server_status
+  const registerTool = <Args extends ZodRawShape>(name: string, description: string, shape: Args, handler: ToolCallback<Args>) => {
+    // The SDK types callbacks by a conditional on the schema, which a generic wrapper cannot satisfy
+    const call = handler as (input: unknown, extra: unknown) => CallToolResult | Promise<CallToolResult>;
+    const timed = async (input: unknown, extra: unknown): Promise<CallToolResult> => {
+      const started = performance.now();
+      const result = await call(input, extra);
+      recordToolCall(name, performance.now() - started, !result.isError);
+      return result;
+    };
+    return server.tool(name, description, shape, timed as ToolCallback<Args>);
+  };
+
+  // Tool 1: Search for relevant accessibility articles
+  registerTool(
+    'search_accessibility_articles',
+    'Search for relevant web accessibility articles from the e11y-mcp documentation repository. Find W3C WAI-ARIA patterns and accessibility implementation guidance with fuzzy matching and content search.',
+    {
+      query: z.string().describe('Search query to find relevant accessibility articles (supports fuzzy matching and typos)'),
+      maxResults: z.number().min(1).max(MAX_SEARCH_RESULTS).optional().default(10).describe(`Maximum number of results to return (1-${MAX_SEARCH_RESULTS})`),
+      includeContent: z.boolean().optional().default(true).describe('Search within article content for better results (recommended)'),
+      cursor: z.string().optional().describe('nextCursor from a previous response to get the next page of results for the same query and filters'),
+      expandSynonyms: z.boolean().optional().default(true).describe('Also search for the APG names of everyday UI terms, e.g. "dialog" for "modal", "combobox" for "autocomplete". Applied expansions are listed in the response'),
+      withCode: z.boolean().optional().describe('Only articles with fenced code examples, e.g. with kind "example" and a pattern to find example code for that pattern. Results list their code block count and languages; use get_code_examples to read the code'),
+      codeLanguage: z.string().optional().describe('Only articles with code in this language, e.g. "html", "css" or "javascript"; implies withCode'),
+      maxSnippets: z.number().int().min(1).max(5).optional().describe('Maximum number of snippets per result (1-5, default: 3). Each snippet comes from one matching section, names its heading and gives the offsets of the matched words'),
+      ...taxonomyFilterShape,
+      ...sourceFilterShape,
+      outputMode: outputModeSchema
+    },
+    async (input, extra) => {
+      try {
+        const result = await searchAccessibilityArticles({
+          query: input.query,
+          maxResults: input.maxResults,
+          includeContent: input.includeContent,
+          cursor: input.cursor,
+          expandSynonyms: input.expandSynonyms,
+          withCode: input.withCode,
+          codeLanguage: input.codeLanguage,
+          maxSnippets: input.maxSnippets,
+          kind: input.kind,
+          pattern: input.pattern,
+          site: input.site,
+          source: input.source
+        }, { signal: extra.signal });
+
+        return toolResult(result, input.outputMode, renderSearchResults);
+      } catch (error) {
+        return errorResult('searching accessibility articles', error, input.outputMode);
+      }
+    }
+  );
+
+  // Tool 2: Fetch specific accessibility article content
+  registerTool(
+    'fetch_accessibility_article',
+    'Fetch the complete content of a specific accessibility article from the e11y-mcp repository. Use the path from search results to retrieve the full markdown documentation.',
+    {
+      path: z.string().describe('Path to the accessibility article (from search results, e.g., "docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md"), its title, or a file slug such as "accordion". Unknown paths fail with suggestions'),
+      includeMetadata: z.boolean().optional().default(true).describe('Include article metadata such as source URL and last updated date'),
+      sections: z.array(z.string()).optional().describe('Only return these sections, selected by heading text or anchor (e.g., ["Keyboard Interaction"]). Use get_article_outline to see available sections'),
+      maxChars: z.number().int().min(MIN_CHUNK_CHARS).optional().describe('Return at most this many characters (about 4 per token). Long articles are cut at heading or paragraph boundaries; the response reports the total size and chunk count'),
+      cursor: z.string().optional().describe('pagination.nextCursor from a previous response to fetch the next chunk of the same article'),
+      ...sourceFilterShape,
+      outputMode: outputModeSchema
+    },
+    async (input, extra) => {
+      try {
+        const result = await fetchAccessibilityArticle({
+          path: input.path,
+          includeMetadata: input.includeMetadata,
+          sections: input.sections,
+          maxChars: input.maxChars,
+          cursor: input.cursor,
+          source: input.source
+        }, { signal: extra.signal });
+
+        return toolResult(result, input.outputMode, renderArticle);
+      } catch (error) {
+        return errorResult('fetching accessibility article', error, input.outputMode);
+      }
+    }
+  );
+
+  // Tool 3: List all available accessibility articles
+  registerTool(
+    'list_accessibility_articles',
+    'List all available accessibility articles in the e11y-mcp documentation repository. Get an overview of all W3C WAI-ARIA patterns and accessibility guidance available, filter by kind, pattern or site, or group each pattern with its examples.',
+    {
+      maxResults: z.number().min(1).optional().describe('Maximum number of articles per page (default: all)'),
+      cursor: z.string().optional().describe('nextCursor from a previous response to get the next page (keeps the original filters and layout)'),
+      hierarchy: z.boolean().optional().describe('Group each pattern with its examples instead of listing articles by title'),
+      ...taxonomyFilterShape,
+      ...sourceFilterShape,
+      outputMode: outputModeSchema
+    },
+    async (input, extra) => {
+      try {
+        const result = await listAccessibilityArticles({
+          maxResults: input.maxResults,
+          cursor: input.cursor,
+          hierarchy: input.hierarchy,
+          kind: input.kind,
+          pattern: input.pattern,
+          site: input.site,
+          source: input.source
+        }, { signal: extra.signal });
+
+        return toolResult(result, input.outputMode, renderArticleList);
+      } catch (error) {
+        return errorResult('listing accessibility articles', error, input.outputMode);
+      }
+    }
+  );
+
+  // Tool 4: Get the heading outline of an article
+  registerTool(
+    'get_article_outline',
+    'Get the table of contents of an accessibility article: every heading with its level, anchor and section size in characters. Use it to fetch only the sections you need with fetch_accessibility_article.',
+    {
+      path: z.string().describe('Path to the accessibility article (from search results, e.g., "docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md"), its title, or a file slug such as "accordion". Unknown paths fail with suggestions'),
+      ...sourceFilterShape,
+      outputMode: outputModeSchema
+    },
+    async (input, extra) => {
+      try {
+        const result = await getArticleOutline({ path: input.path, source: input.source }, { signal: extra.signal });
+
+        return toolResult(result, input.outputMode, renderOutline);
+      } catch (error) {
+        return errorResult('getting article outline', error, input.outputMode);
+      }
+    }
+  );
+
+  // Tool 5: Extract the structured spec of an APG pattern
+  registerTool(
+    'get_pattern_spec',
+    'Get the structured spec of a W3C APG pattern as JSON: ARIA roles with their required and optional attributes, and each keyboard key with its expected behavior. Sections that could not be parsed are reported instead of silently dropped.',
+    {
+      pattern: z.string().min(1).describe('Pattern name (e.g., "accordion", "tabs", "dialog-modal") or article path from search results'),
+      ...sourceFilterShape,
+      outputMode: outputModeSchema
+    },
+    async (input, extra) => {
+      try {
+        const result = await getPatternSpec({ pattern: input.pattern, source: input.source }, { signal: extra.signal });
+
+        return toolResult(result, input.outputMode, renderPatternSpec);
+      } catch (error) {
+        return errorResult('getting pattern spec', error, input.outputMode);
+      }
+    }
+  );
+
+  // Tool 6: Look up where an ARIA role or attribute is documented
+  registerTool(
+    'lookup_aria_term',
+    'Find every accessibility article and section that mentions an ARIA role or attribute (e.g., "aria-expanded", "combobox", "aria-activedescendant"), with a short excerpt of the usage guidance from each section.',
+    {
+      term: z.string().describe('ARIA role or attribute to look up (e.g., "aria-expanded", "combobox")'),
+      maxArticles: z.number().min(1).max(50).optional().default(10).describe('Maximum number of articles to return (1-50)'),
+      ...sourceFilterShape,
+      outputMode: outputModeSchema
+    },
+    async (input, extra) => {
+      try {
+        const result = await lookupAriaTerm({
+          term: input.term,
+          maxArticles: input.maxArticles,
+          source: input.source
+        }, { signal: extra.signal });
+
+        return toolResult(result, input.outputMode, renderAriaLookup);
+      } catch (error) {
+        return errorResult('looking up ARIA term', error, input.outputMode);
+      }
+    }
+  );
+
+  // Tool 7: Audit component markup against an APG pattern
+  registerTool(
+    'audit_markup',
+    'Check an HTML or JSX snippet against the roles and attributes documented in a W3C APG pattern (e.g., "accordion", "tabs"). Reports missing roles and attributes, attributes on the wrong role, invalid values and broken ID references, each citing the article section it comes from. Keyboard behavior is listed for manual checking.',
+    {
+      markup: z.string().min(1).describe('HTML or JSX snippet of the component to audit'),
+      pattern: z.string().min(1).describe('Pattern name (e.g., "accordion", "tabs", "dialog-modal") or article path from search results'),
+      ...sourceFilterShape,
+      outputMode: outputModeSchema
+    },
+    async (input, extra) => {
+      try {
+        const result = await auditMarkup({
+          markup: input.markup,
+          pattern: input.pattern,
+          source: input.source
+        }, { signal: extra.signal });
+
+        return toolResult(result, input.outputMode, renderAudit);
+      } catch (error) {
+        return errorResult('auditing markup', error, input.outputMode);
+      }
+    }
+  );
+
+  // Tool 8: Navigate between patterns, examples and linked articles
+  registerTool(
+    'get_related_articles',
+    'Find articles related to an accessibility article: a pattern\'s examples (or an example\'s pattern), the articles it links to and the articles that link to it.',
+    {
+      path: z.string().describe('Path to the accessibility article (from search results), its title, or a file slug such as "accordion"'),
+      maxResults: z.number().min(1).max(100).optional().default(20).describe('Maximum number of articles per relation (1-100)'),
+      ...sourceFilterShape,
+      outputMode: outputModeSchema
+    },
+    async (input, extra) => {
+      try {
+        const result = await getRelatedArticles({
+          path: input.path,
+          maxResults: input.maxResults,
+          source: input.source
+        }, { signal: extra.signal });
+
+        return toolResult(result, input.outputMode, renderRelatedArticles);
+      } catch (error) {
+        return errorResult('getting related articles', error, input.outputMode);
+      }
+    }
+  );
+
+  // Tool 9: Look up a WCAG success criterion and the articles that address it
+  registerTool(
+    'lookup_wcag_criterion',
+    'Look up a WCAG success criterion by number or name (e.g., "2.1.1", "4.1.2 Name, Role, Value"): its level and short description, and the accessibility articles and sections that address it, either by citing it or through mapping rules such as "Keyboard Interaction" sections for 2.1.1.',
+    {
+      criterion: z.string().describe('Success criterion number or name (e.g., "2.1.1", "SC 4.1.2", "Name, Role, Value", "focus visible")'),
+      maxArticles: z.number().min(1).max(50).optional().default(10).describe('Maximum number of articles to return (1-50)'),
+      ...sourceFilterShape,
+      outputMode: outputModeSchema
+    },
+    async (input, extra) => {
+      try {
+        const result = await lookupWcagCriterion({
+          criterion: input.criterion,
+          maxArticles: input.maxArticles,
+          source: input.source
+        }, { signal: extra.signal });
+
+        return toolResult(result, input.outputMode, renderWcagCriterion);
+      } catch (error) {
+        return errorResult('looking up WCAG criterion', error, input.outputMode);
+      }
+    }
+  );
+
+  // Tool 10: Extract the code examples of an article
+  registerTool(
+    'get_code_examples',
+    'Get the fenced code blocks of an accessibility article, such as the HTML, CSS and JavaScript of an APG example (e.g., "datepicker-dialog"), as structured items with their language, nearest heading and position. Filter by language to get only the markup or only the script. Find example articles with code using search_accessibility_articles with withCode.',
+    {
+      path: z.string().describe('Path to the accessibility article (from search results), its title, or a file slug such as "datepicker-dialog"'),
+      language: z.string().optional().describe('Only blocks in this language, e.g. "html", "css" or "javascript" (aliases such as "js" work)'),
+      maxBlocks: z.number().int().min(1).optional().describe('Maximum number of blocks to return (default: all)'),
+      ...sourceFilterShape,
+      outputMode: outputModeSchema
+    },
+    async (input, extra) => {
+      try {
+        const result = await getCodeExamples({
+          path: input.path,
+          language: input.language,
+          maxBlocks: input.maxBlocks,
+          source: input.source
+        }, { signal: extra.signal });
+
+        return toolResult(result, input.outputMode, renderCodeExamples);
+      } catch (error) {
+        return errorResult('getting code examples', error, input.outputMode);
+      }
+    }
+  );
+
+  // Tool 11: List the articles that changed between two versions of the docs
+  registerTool(
+    'compare_corpus_versions',
+    'List the accessibility articles added, removed or changed between two versions of the documentation (branches, tags or commit SHAs), e.g. between the corpusVersion commit recorded with an earlier review and the current docs. Needs a GitHub source.',
+    {
+      from: z.string().min(1).describe('Older branch, tag or commit SHA, e.g. the commit of a corpusVersion from an earlier response'),
+      to: z.string().min(1).optional().describe('Newer branch, tag or commit SHA (default: the ref the server reads, see E11Y_DOCS_REF)'),
+      ...sourceFilterShape,
+      outputMode: outputModeSchema
+    },
+    async (input, extra) => {
+      try {
+        const result = await compareCorpusVersions({
+          from: input.from,
+          to: input.to,
+          source: input.source
+        }, { signal: extra.signal });
+
+        return toolResult(result, input.outputMode, renderVersionComparison);
+      } catch (error) {
+        return errorResult('comparing corpus versions', error, input.outputMode);
+      }
+    }
+  );
+
+  // Tool 12: Report the source, cache and latency diagnostics of the server
+  registerTool(
+    'server_status',
+    'Report the state of the documentation server: the active documentation source and ref, when the index was fetched and how many articles it lists, content cache hits, misses and size, call counts and latency percentiles of each tool, and recent fetch failures. Use it to tell whether slow or wrong answers come from GitHub, the cache or the tools.',
+    {
+      outputMode: outputModeSchema
+    },
+    async (input) => {
+      try {
+        const result = await getServerStatus();
+
+        return toolResult(result, input.outputMode, renderServerStatus);
+      } catch (error) {
+        return errorResult('getting server status', error, input.outputMode);
+      }
+    }
+  );
+
+  // Resource: every article as e11y://article/{path}, with path completion
+  server.resource(
+    'accessibility-article',
+    new ResourceTemplate(ARTICLE_URI_TEMPLATE, {
+      list: (extra) => listArticleResources({ signal: extra.signal }),
+      complete: {
+        path: (value) => completeArticlePath(value)
+      }
+    }),
+    {
+      description: 'Accessibility documentation article as markdown',
+      mimeType: 'text/markdown'
+    },
+    (uri, variables, extra) => {
+      const path = Array.isArray(variables.path) ? variables.path.join('/') : variables.path;
+      return readArticleResource(uri.href, path, { signal: extra.signal });
+    }
+  );
+
+  // Prompt 1: Review a component against the documented pattern
+  server.prompt(
+    'review_component',
+    'Review a component for accessibility, grounded in the roles and keyboard sections of the matching APG pattern article',
+    {
+      code: z.string().describe('Component code or markup to review'),
+      pattern: completable(z.string(), (value) => completePatternName(value)).optional()
+        .describe('Pattern the component implements (e.g., "accordion"); inferred from the code when omitted')
+    },
+    (args, extra) => buildReviewComponentPrompt(args, { signal: extra.signal })
+  );
+
+  // Prompt 2: Implement a pattern accessibly
+  server.prompt(
+    'implement_pattern',
+    'Implement an APG pattern accessibly, with its roles, states, properties and keyboard interaction filled in from the article',
+    {
+      pattern: completable(z.string(), (value) => completePatternName(value))
+        .describe('Pattern to implement (e.g., "tabs", "dialog-modal")'),
+      framework: z.string().optional().describe('Framework or language to use (e.g., "React", "plain HTML and JavaScript")')
+    },
+    (args, extra) => buildImplementPatternPrompt(args, { signal: extra.signal })
+  );
+
+  // Prompt 3: Write keyboard interaction tests for a pattern
+  server.prompt(
+    'write_keyboard_tests',
+    'Write keyboard interaction tests for a component, one per key documented in the APG pattern article',
+    {
+      pattern: completable(z.string(), (value) => completePatternName(value))
+        .describe('Pattern the component implements (e.g., "menu-button")'),
+      framework: z.string().optional().describe('Test framework to use (e.g., "Testing Library with Vitest", "Playwright")'),
+      code: z.string().optional().describe('Component code under test')
+    },
+    (args, extra) => buildKeyboardTestsPrompt(args, { signal: extra.signal })
+  );
+
+  return server;
+}
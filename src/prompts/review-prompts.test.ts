@@ -0,0 +1,85 @@
+/*
+ * Tests for the accessibility review prompts
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  buildImplementPatternPrompt,
+  buildKeyboardTestsPrompt,
+  buildReviewComponentPrompt,
+  completePatternName
+} from './review-prompts.js';
+import { useMockDocs } from '../testing/mock-docs.js';
+
+const mockIndex = {
+  "Tabs Pattern": "docs/www.w3.org_WAI_ARIA_apg_patterns_tabs.md",
+  "Dialog (Modal) Pattern": "docs/www.w3.org_WAI_ARIA_apg_patterns_dialog-modal.md",
+  "Date Picker Dialog Example": "docs/www.w3.org_WAI_ARIA_apg_patterns_dialog-modal_examples_datepicker-dialog.md"
+};
+
+const tabsContent = `# Tabs Pattern
+
+## About This Pattern
+
+Tabs are a set of layered sections of content.
+
+## Keyboard Interaction
+
+- Tab: When focus moves into the tab list, places focus on the active tab element.
+- Right Arrow: Moves focus to the next tab.
+
+## WAI-ARIA Roles, States, and Properties
+
+- The element that serves as the container for the set of tabs has role \`tablist\`.
+- Each element that serves as a tab has role \`tab\` and has aria-selected set to true when active.
+`;
+
+const text = (result: { messages: { content: { text: string } }[] }) => result.messages[0].content.text;
+
+describe('review prompts', () => {
+  beforeEach(() => {
+    useMockDocs(mockIndex, path => path.includes('tabs') ? tabsContent : '# Dialog\n\nA window.');
+  });
+
+  it('should fill in the roles and keyboard sections of the pattern', async () => {
+    const result = await buildReviewComponentPrompt({ code: '<div role="tablist"></div>', pattern: 'tabs' });
+
+    expect(result.description).toBe('Accessibility review against Tabs Pattern');
+    expect(text(result)).toContain('<div role="tablist"></div>');
+    expect(text(result)).toContain('Source: https://github.com/vltansky/e11y-mcp/blob/master/docs/www.w3.org_WAI_ARIA_apg_patterns_tabs.md');
+    expect(text(result)).toContain('## Keyboard Interaction');
+    expect(text(result)).toContain('has role `tablist`');
+    expect(text(result)).not.toContain('layered sections');
+  });
+
+  it('should infer the pattern from the roles in the code', async () => {
+    const result = await buildReviewComponentPrompt({ code: '<div role="tablist"><button role="tab" aria-selected="true">A</button></div>' });
+
+    expect(result.description).toBe('Accessibility review against Tabs Pattern');
+  });
+
+  it('should ask for a pattern when nothing can be inferred', async () => {
+    await expect(buildReviewComponentPrompt({ code: 'const x = 1;' }))
+      .rejects.toThrow('Could not infer a pattern from the component');
+  });
+
+  it('should fall back to the whole article when no sections are recognized', async () => {
+    const result = await buildImplementPatternPrompt({ pattern: 'dialog-modal', framework: 'React' });
+
+    expect(result.description).toBe('Implement Dialog (Modal) Pattern using React');
+    expect(text(result)).toContain('# Dialog\n\nA window.');
+  });
+
+  it('should only include the keyboard section for keyboard tests', async () => {
+    const result = await buildKeyboardTestsPrompt({ pattern: 'tabs', framework: 'Playwright' });
+
+    expect(text(result)).toContain('using Playwright');
+    expect(text(result)).toContain('Right Arrow: Moves focus to the next tab.');
+    expect(text(result)).not.toContain('role `tablist`');
+  });
+
+  it('should complete pattern names', async () => {
+    expect(await completePatternName('ta')).toEqual(['tabs']);
+    expect(await completePatternName('modal')).toEqual(['dialog-modal']);
+  });
+});
@@ -0,0 +1,208 @@
+/*
+ * Accessibility Review Prompts
+ *
+ * Prompt templates for common review workflows. Each prompt is filled in with
+ * the relevant article content so reviews are grounded in the documentation
+ * rather than in the model's memory of it.
+ */
+
+import {
+  fetchAccessibilityArticle,
+  fetchAccessibilityIndex,
+  searchAccessibilityArticles,
+  type ToolCallOptions
+} from '../tools/e11y-tools.js';
+import { getPatternSpec, listPatternNames } from '../tools/pattern-tools.js';
+import { DocsError } from '../utils/errors.js';
+import { getRole, parseMarkup } from '../utils/markup.js';
+import type { SpecSectionKind } from '../utils/pattern-spec.js';
+
+// A type alias rather than an interface so it satisfies the SDK's index-signature result type
+export type PromptResult = {
+  description: string;
+  messages: { role: 'user'; content: { type: 'text'; text: string } }[];
+};
+
+export interface ReviewComponentArgs {
+  code: string;
+  pattern?: string;
+}
+
+export interface ImplementPatternArgs {
+  pattern: string;
+  framework?: string;
+}
+
+export interface KeyboardTestsArgs {
+  pattern: string;
+  framework?: string;
+  code?: string;
+}
+
+interface Guidance {
+  title: string;
+  path: string;
+  url: string;
+  content: string;
+}
+
+// Search results beyond the first are listed as further reading only
+const MAX_RELATED_ARTICLES = 3;
+
+/**
+ * Load the roles and/or keyboard sections of a pattern article. Falls back to
+ * the whole article when those sections could not be identified.
+ */
+async function loadPatternGuidance(pattern: string, kinds: SpecSectionKind[], options: ToolCallOptions): Promise<Guidance> {
+  const spec = await getPatternSpec({ pattern }, options);
+  const anchors = spec.parsedSections
+    .filter(section => kinds.includes(section.kind))
+    .map(section => section.anchor);
+
+  const article = await fetchAccessibilityArticle({
+    path: spec.path,
+    includeMetadata: false,
+    ...(anchors.length > 0 ? { sections: anchors } : {})
+  }, options);
+
+  return { title: spec.title, path: spec.path, url: spec.url, content: article.content };
+}
+
+function formatGuidance(guidance: Guidance): string {
+  return [
+    `## Reference: ${guidance.title}`,
+    `Source: ${guidance.url} (path: ${guidance.path})`,
+    '',
+    guidance.content.trim()
+  ].join('\n');
+}
+
+function codeBlock(code: string): string {
+  return ['```', code.trim(), '```'].join('\n');
+}
+
+function toPrompt(description: string, text: string): PromptResult {
+  return {
+    description,
+    messages: [{ role: 'user', content: { type: 'text', text } }]
+  };
+}
+
+/**
+ * Build a search query from the roles and ARIA attributes used in component code
+ */
+function inferQuery(code: string): string {
+  const terms = new Set<string>();
+  for (const element of parseMarkup(code)) {
+    if (element.attributes.role) {
+      const role = getRole(element);
+      if (role) terms.add(role);
+    }
+    for (const attribute of Object.keys(element.attributes)) {
+      if (attribute.startsWith('aria-')) terms.add(attribute);
+    }
+  }
+  return [...terms].join(' ');
+}
+
+/**
+ * Complete a partially typed pattern name
+ */
+export async function completePatternName(value: string, options: ToolCallOptions = {}): Promise<string[]> {
+  const names = listPatternNames(await fetchAccessibilityIndex(options.signal));
+  const needle = value.toLowerCase();
+  return [
+    ...names.filter(name => name.startsWith(needle)),
+    ...names.filter(name => !name.startsWith(needle) && name.includes(needle))
+  ];
+}
+
+/**
+ * Prompt: review a component for accessibility against the documented pattern
+ */
+export async function buildReviewComponentPrompt(args: ReviewComponentArgs, options: ToolCallOptions = {}): Promise<PromptResult> {
+  let guidance: Guidance;
+  let related: { title: string; path: string }[] = [];
+
+  if (args.pattern) {
+    guidance = await loadPatternGuidance(args.pattern, ['roles', 'keyboard'], options);
+  } else {
+    // Without a pattern, find the closest article from the roles and attributes in the code
+    const query = inferQuery(args.code);
+    if (!query) {
+      throw new DocsError('INVALID_INPUT', 'Could not infer a pattern from the component: no roles or ARIA attributes found. Pass the pattern argument.');
+    }
+    const { articles } = await searchAccessibilityArticles({ query, maxResults: MAX_RELATED_ARTICLES, includeContent: true }, options);
+    if (articles.length === 0) {
+      throw new DocsError('NOT_FOUND', `No articles found for "${query}". Pass the pattern argument.`);
+    }
+    guidance = await loadPatternGuidance(articles[0].path, ['roles', 'keyboard'], options);
+    related = articles.slice(1);
+  }
+
+  const text = [
+    'Review the following component for accessibility against the reference documentation below.',
+    '',
+    codeBlock(args.code),
+    '',
+    'For each issue:',
+    '- quote the offending markup or code,',
+    '- explain what the reference requires and cite its section,',
+    '- propose a concrete fix.',
+    'Cover roles, states and properties, accessible names, focus management and keyboard interaction.',
+    'Say explicitly when the component meets a requirement, and do not report issues the reference does not support.',
+    '',
+    formatGuidance(guidance),
+    ...(related.length > 0
+      ? ['', 'Other possibly relevant articles (fetch them if needed):', ...related.map(article => `- ${article.title} (path: ${article.path})`)]
+      : [])
+  ].join('\n');
+
+  return toPrompt(`Accessibility review against ${guidance.title}`, text);
+}
+
+/**
+ * Prompt: implement a pattern accessibly
+ */
+export async function buildImplementPatternPrompt(args: ImplementPatternArgs, options: ToolCallOptions = {}): Promise<PromptResult> {
+  const guidance = await loadPatternGuidance(args.pattern, ['roles', 'keyboard'], options);
+  const target = args.framework ? ` using ${args.framework}` : '';
+
+  const text = [
+    `Implement an accessible ${args.pattern} component${target}, following the reference documentation below.`,
+    '',
+    'Requirements:',
+    '- Use every role, state and property the reference lists, and keep states in sync with the UI.',
+    '- Implement every keyboard interaction the reference lists; mark optional ones you leave out.',
+    '- Manage focus as described, and give every interactive element an accessible name.',
+    '- Prefer native HTML elements where they provide the required semantics.',
+    'After the code, list each requirement from the reference and where the implementation satisfies it.',
+    '',
+    formatGuidance(guidance)
+  ].join('\n');
+
+  return toPrompt(`Implement ${guidance.title}${target}`, text);
+}
+
+/**
+ * Prompt: write keyboard interaction tests for a pattern
+ */
+export async function buildKeyboardTestsPrompt(args: KeyboardTestsArgs, options: ToolCallOptions = {}): Promise<PromptResult> {
+  const guidance = await loadPatternGuidance(args.pattern, ['keyboard'], options);
+  const framework = args.framework ?? 'the project\'s existing test framework';
+
+  const text = [
+    `Write keyboard interaction tests for a ${args.pattern} component using ${framework}.`,
+    '',
+    ...(args.code ? ['Component under test:', '', codeBlock(args.code), ''] : []),
+    'Write one test per key and context in the reference below. Each test should:',
+    '- set up focus on the element the reference starts from,',
+    '- press the key,',
+    '- assert where focus moves and which states change (e.g. aria-expanded, aria-selected).',
+    'Name each test after the documented behavior, and mark tests for optional keys as optional.',
+    '',
+    formatGuidance(guidance)
+  ].join('\n');
+
+  return toPrompt(`Keyboard tests for ${guidance.title}`, text);
+}
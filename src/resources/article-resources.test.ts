@@ -0,0 +1,71 @@
+/*
+ * Tests for the article resources
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import {
+  ARTICLE_URI_TEMPLATE,
+  articleUri,
+  completeArticlePath,
+  listArticleResources,
+  readArticleResource
+} from './article-resources.js';
+import { mockFetch, useMockDocs } from '../testing/mock-docs.js';
+
+const mockIndex = {
+  "Tabs Pattern": "docs/www.w3.org_WAI_ARIA_apg_patterns_tabs.md",
+  "Accordion Pattern (Sections With Show/Hide Functionality)": "docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md",
+  "Tab Panel Notes": "docs/notes_tabpanel.md"
+};
+
+describe('article resources', () => {
+  beforeEach(() => {
+    useMockDocs(mockIndex, () => '# Tabs Pattern\n\nContent');
+  });
+
+  it('should round-trip article paths through the URI template', () => {
+    const uri = articleUri('docs/www.w3.org_WAI_ARIA_apg_patterns_tabs.md');
+
+    expect(uri).toBe('e11y://article/docs/www.w3.org_WAI_ARIA_apg_patterns_tabs.md');
+    expect(new UriTemplate(ARTICLE_URI_TEMPLATE).match(uri)).toEqual({
+      path: 'docs/www.w3.org_WAI_ARIA_apg_patterns_tabs.md'
+    });
+  });
+
+  it('should list every article sorted by title', async () => {
+    const { resources } = await listArticleResources();
+
+    expect(resources.map(resource => resource.name)).toEqual([
+      'Accordion Pattern (Sections With Show/Hide Functionality)',
+      'Tab Panel Notes',
+      'Tabs Pattern'
+    ]);
+    expect(resources[2]).toEqual({
+      uri: 'e11y://article/docs/www.w3.org_WAI_ARIA_apg_patterns_tabs.md',
+      name: 'Tabs Pattern',
+      description: 'Accessibility article: Tabs Pattern',
+      mimeType: 'text/markdown'
+    });
+  });
+
+  it('should read the article markdown', async () => {
+    const uri = 'e11y://article/docs/www.w3.org_WAI_ARIA_apg_patterns_tabs.md';
+    const result = await readArticleResource(uri, 'docs/www.w3.org_WAI_ARIA_apg_patterns_tabs.md');
+
+    expect(result.contents).toEqual([{ uri, mimeType: 'text/markdown', text: '# Tabs Pattern\n\nContent' }]);
+    expect(mockFetch).toHaveBeenLastCalledWith(
+      'https://raw.githubusercontent.com/vltansky/e11y-mcp/master/docs/www.w3.org_WAI_ARIA_apg_patterns_tabs.md',
+      expect.anything()
+    );
+  });
+
+  it('should complete paths by prefix, then by path or title substring', async () => {
+    expect(await completeArticlePath('docs/notes')).toEqual(['docs/notes_tabpanel.md']);
+    expect(await completeArticlePath('tab')).toEqual([
+      'docs/notes_tabpanel.md',
+      'docs/www.w3.org_WAI_ARIA_apg_patterns_tabs.md'
+    ]);
+    expect(await completeArticlePath('show/hide')).toEqual(['docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md']);
+  });
+});
@@ -0,0 +1,86 @@
+/*
+ * Article Resources
+ *
+ * Exposes every documentation article as an MCP resource so clients can
+ * attach a page to their context without a tool call. URIs have the form
+ * e11y://article/<path>, e.g. e11y://article/docs/www.w3.org_WAI_ARIA_apg_patterns_tabs.md
+ */
+
+import {
+  fetchAccessibilityArticle,
+  fetchAccessibilityIndex,
+  listAccessibilityArticles,
+  type ToolCallOptions
+} from '../tools/e11y-tools.js';
+
+// Reserved expansion ("+") so the "/" in article paths is kept as is
+export const ARTICLE_URI_TEMPLATE = 'e11y://article/{+path}';
+
+const ARTICLE_URI_PREFIX = 'e11y://article/';
+
+// The MCP completion result holds at most 100 values
+const MAX_COMPLETIONS = 100;
+
+/**
+ * Build the resource URI of an article
+ */
+export function articleUri(path: string): string {
+  return `${ARTICLE_URI_PREFIX}${encodeURI(path)}`;
+}
+
+/**
+ * List every article as a resource
+ */
+export async function listArticleResources(options: ToolCallOptions = {}): Promise<{
+  resources: { uri: string; name: string; description: string; mimeType: string }[];
+}> {
+  const { articles } = await listAccessibilityArticles({}, options);
+
+  return {
+    resources: articles.map(article => ({
+      uri: articleUri(article.path),
+      name: article.title,
+      description: `Accessibility article: ${article.title}`,
+      mimeType: 'text/markdown'
+    }))
+  };
+}
+
+/**
+ * Read the markdown of an article resource
+ */
+export async function readArticleResource(uri: string, path: string, options: ToolCallOptions = {}): Promise<{
+  contents: { uri: string; mimeType: string; text: string }[];
+}> {
+  const article = await fetchAccessibilityArticle({ path: decodeURI(path), includeMetadata: false }, options);
+
+  return {
+    contents: [{
+      uri,
+      mimeType: 'text/markdown',
+      text: article.content
+    }]
+  };
+}
+
+/**
+ * Complete a partially typed article path. Paths starting with the value come
+ * first, followed by paths or titles containing it.
+ */
+export async function completeArticlePath(value: string, options: ToolCallOptions = {}): Promise<string[]> {
+  const index = await fetchAccessibilityIndex(options.signal);
+  const needle = value.toLowerCase();
+
+  const prefixed: string[] = [];
+  const containing: string[] = [];
+  for (const [title, path] of Object.entries(index)) {
+    const lowerPath = path.toLowerCase();
+    if (lowerPath.startsWith(needle)) {
+      prefixed.push(path);
+    } else if (lowerPath.includes(needle) || title.toLowerCase().includes(needle)) {
+      containing.push(path);
+    }
+  }
+
+  return [...prefixed.sort(), ...containing.sort()].slice(0, MAX_COMPLETIONS);
+}
@@ -6,119 +6,53 @@
  * Provides access to web accessibility documentation from the e11y-mcp repository.
  * This server allows AI assistants to search for and fetch W3C WAI-ARIA patterns
  * and accessibility best practices documentation.
+ *
+ * Runs over stdio by default; pass --http to serve Streamable HTTP instead.
+ * The search, fetch and list subcommands print results without starting a server.
  */
 
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-
-import { z } from 'zod';
-import { formatResponse } from './utils/formatter.js';
-import {
-  searchAccessibilityArticles,
-  fetchAccessibilityArticle,
-  listAccessibilityArticles
-} from './tools/e11y-tools.js';
-
-const server = new McpServer({
-  name: 'e11y-docs-mcp',
-  version: '0.1.0',
-});
-
-// Tool 1: Search for relevant accessibility articles
-server.tool(
-  'search_accessibility_articles',
-  'Search for relevant web accessibility articles from the e11y-mcp documentation repository. Find W3C WAI-ARIA patterns and accessibility implementation guidance with fuzzy matching and content search.',
-  {
-    query: z.string().describe('Search query to find relevant accessibility articles (supports fuzzy matching and typos)'),
-    maxResults: z.number().min(1).max(20).optional().default(10).describe('Maximum number of results to return (1-20)'),
-    includeContent: z.boolean().optional().default(true).describe('Search within article content for better results (recommended)'),
-    outputMode: z.enum(['json', 'compact-json']).optional().default('json').describe('Output format: "json" for formatted JSON (default), "compact-json" for minified JSON')
-  },
-  async (input) => {
-    try {
-      const result = await searchAccessibilityArticles({
-        query: input.query,
-        maxResults: input.maxResults,
-        includeContent: input.includeContent
-      });
-
-      return {
-        content: [{
-          type: 'text',
-          text: formatResponse(result, input.outputMode)
-        }]
-      };
-    } catch (error) {
-      return {
-        content: [{
-          type: 'text',
-          text: `Error searching accessibility articles: ${error instanceof Error ? error.message : 'Unknown error occurred'}`
-        }]
-      };
-    }
-  }
-);
-
-// Tool 2: Fetch specific accessibility article content
-server.tool(
-  'fetch_accessibility_article',
-  'Fetch the complete content of a specific accessibility article from the e11y-mcp repository. Use the path from search results to retrieve the full markdown documentation.',
-  {
-    path: z.string().describe('Path to the accessibility article (from search results, e.g., "docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md")'),
-    includeMetadata: z.boolean().optional().default(true).describe('Include article metadata such as source URL and last updated date'),
-    outputMode: z.enum(['json', 'compact-json']).optional().default('json').describe('Output format: "json" for formatted JSON (default), "compact-json" for minified JSON')
-  },
-  async (input) => {
-    try {
-      const result = await fetchAccessibilityArticle({
-        path: input.path,
-        includeMetadata: input.includeMetadata
-      });
-
-      return {
-        content: [{
-          type: 'text',
-          text: formatResponse(result, input.outputMode)
-        }]
-      };
-    } catch (error) {
-      return {
-        content: [{
-          type: 'text',
-          text: `Error fetching accessibility article: ${error instanceof Error ? error.message : 'Unknown error occurred'}`
-        }]
-      };
-    }
-  }
-);
-
-// Tool 3: List all available accessibility articles
-server.tool(
-  'list_accessibility_articles',
-  'List all available accessibility articles in the e11y-mcp documentation repository. Get an overview of all W3C WAI-ARIA patterns and accessibility guidance available.',
-  {
-    outputMode: z.enum(['json', 'compact-json']).optional().default('json').describe('Output format: "json" for formatted JSON (default), "compact-json" for minified JSON')
-  },
-  async (input) => {
-    try {
-      const result = await listAccessibilityArticles();
-
-      return {
-        content: [{
-          type: 'text',
-          text: formatResponse(result, input.outputMode)
-        }]
-      };
-    } catch (error) {
-      return {
-        content: [{
-          type: 'text',
-          text: `Error listing accessibility articles: ${error instanceof Error ? error.message : 'Unknown error occurred'}`
-        }]
-      };
-    }
-  }
-);
-
-const transport = new StdioServerTransport();
-await server.connect(transport);
+import { parseCommandLine, USAGE, type CliCommand } from './cli.js';
+import { runCommand } from './commands.js';
+import { startHttpServer } from './http-server.js';
+import { createServer } from './mcp-server.js';
+import { getServerConfig } from './tools/e11y-tools.js';
+
+let command: CliCommand;
+try {
+  command = parseCommandLine(process.argv.slice(2));
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  console.error(`\n${USAGE}`);
+  process.exit(1);
+}
+
+// Report a configuration mistake once, instead of as the error of every tool call
+try {
+  getServerConfig();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
+
+if (command.command === 'serve' && command.ignoredArgs) {
+  console.error(`Ignoring unknown arguments: ${command.ignoredArgs.join(' ')}`);
+}
+
+if (command.command !== 'serve') {
+  // Let pending output flush instead of calling process.exit
+  process.exitCode = await runCommand(command);
+} else if (command.transport.transport === 'http') {
+  const httpServer = await startHttpServer({ host: command.transport.host, port: command.transport.port });
+  console.error(`e11y-docs-mcp listening on ${httpServer.url}/mcp`);
+
+  const shutdown = () => {
+    httpServer.close().finally(() => process.exit(0));
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+} else {
+  const server = createServer();
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+}
@@ -0,0 +1,100 @@
+/*
+ * Documentation Sources
+ *
+ * A documentation source knows where the accessibility index and articles live
+ * and how to read them. The tools in src/tools only talk to this interface, so
+ * they behave the same whether the docs come from GitHub or a local checkout.
+ */
+
+import type { DocSourceConfig } from '../config.js';
+import type { ErrorCode } from '../utils/errors.js';
+import type { HttpCache } from '../utils/http-cache.js';
+import { createGitHubSource } from './github-source.js';
+import { createHttpSource } from './http-source.js';
+import { createLocalSource } from './local-source.js';
+
+export interface AccessibilityIndex {
+  [title: string]: string;
+}
+
+export interface FetchOptions {
+  /** Aborts the read, e.g. when the tool call is cancelled or times out */
+  signal?: AbortSignal;
+}
+
+export interface DocSource {
+  /** Backend type, e.g. "github" or "local", or "federated" for several named sources */
+  readonly kind: DocSourceConfig['type'] | 'federated';
+  /** Human-readable location of the docs, e.g. "vltansky/e11y-mcp@master" */
+  readonly location: string;
+  /** Branch, tag or commit SHA the docs are read at; only versioned sources (GitHub) have one */
+  readonly ref?: string;
+  /** Exact version of the docs last read, e.g. "vltansky/e11y-mcp@<commit> (master)" */
+  getVersion(): string;
+  /** Read the title -> path index of all articles */
+  fetchIndex(options?: FetchOptions): Promise<AccessibilityIndex>;
+  /** Read the raw markdown of an article; rejects with a NOT_FOUND DocsError when missing */
+  fetchArticle(path: string, options?: FetchOptions): Promise<string>;
+  /** Link to show users for an article */
+  getArticleUrl(path: string): string;
+  /** Named sources combined by a federated source, the primary first */
+  readonly members?: readonly NamedDocSource[];
+  /** Named sources left out of the last index read because it failed; only federated sources have them */
+  getUnavailableSources?(): SourceFailure[];
+  /** List the articles that differ between two refs; only versioned sources implement it */
+  compareRefs?(base: string, head: string, options?: FetchOptions): Promise<RefComparison>;
+}
+
+export interface RefComparison {
+  base: ComparedRef;
+  head: ComparedRef;
+  /** Changed files under docs/, excluding the index */
+  files: ChangedFile[];
+  /** The backend lists a limited number of files; more may have changed */
+  truncated: boolean;
+}
+
+export interface ComparedRef {
+  ref: string;
+  commit: string;
+  /** Index as of this commit */
+  index: AccessibilityIndex;
+}
+
+export interface ChangedFile {
+  path: string;
+  status: 'added' | 'removed' | 'changed';
+  /** Path before a rename */
+  previousPath?: string;
+  additions: number;
+  deletions: number;
+  /** Link to the file at the head commit, or the base commit when removed */
+  url: string;
+}
+
+// A named source whose index could not be read
+export interface SourceFailure {
+  source: string;
+  code: ErrorCode;
+  message: string;
+}
+
+export interface NamedDocSource {
+  name: string;
+  source: DocSource;
+}
+
+/**
+ * Create the documentation source described by the configuration
+ */
+export function createDocSource(config: DocSourceConfig, cache?: HttpCache): DocSource {
+  switch (config.type) {
+    case 'local':
+      return createLocalSource({ dir: config.dir });
+    case 'http':
+      return createHttpSource({ baseUrl: config.baseUrl, cache });
+    case 'github':
+    default:
+      return createGitHubSource({ repo: config.repo, ref: config.ref, cache, resolveCommit: true });
+  }
+}
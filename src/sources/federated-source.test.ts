@@ -0,0 +1,161 @@
+/*
+ * Tests for federated documentation sources and the source filter
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { mkdtemp, mkdir, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { articleSourceName, createFederatedSource, sourceNames } from './federated-source.js';
+import { createLocalSource } from './local-source.js';
+import { loadConfig } from '../config.js';
+import {
+  fetchAccessibilityArticle,
+  listAccessibilityArticles,
+  searchAccessibilityArticles,
+  setDocSource,
+  setServerConfig
+} from '../tools/e11y-tools.js';
+
+async function writeDocs(dir: string, articles: Record<string, { file: string; content: string }>): Promise<void> {
+  await mkdir(dir, { recursive: true });
+  const index = Object.fromEntries(Object.entries(articles).map(([title, { file }]) => [title, `docs/${file}`]));
+  await writeFile(join(dir, 'index.json'), JSON.stringify(index));
+  for (const { file, content } of Object.values(articles)) {
+    await writeFile(join(dir, file), content);
+  }
+}
+
+describe('Federated documentation source', () => {
+  let rootDir: string;
+
+  beforeAll(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), 'e11y-federated-'));
+    await writeDocs(join(rootDir, 'apg', 'docs'), {
+      'Accordion Pattern': {
+        file: 'www.w3.org_WAI_ARIA_apg_patterns_accordion.md',
+        content: '# Accordion Pattern\n\nEach header button has aria-expanded.\n'
+      },
+      'Buttons': {
+        file: 'www.w3.org_WAI_ARIA_apg_patterns_button.md',
+        content: '# Button Pattern\n\nA button triggers an action.\n'
+      }
+    });
+    await writeDocs(join(rootDir, 'handbook', 'docs'), {
+      'Buttons': {
+        file: 'buttons.md',
+        content: '# Buttons\n\nOur button component sets aria-expanded when it opens a menu.\n'
+      }
+    });
+  });
+
+  afterAll(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    setServerConfig(loadConfig({ E11Y_DOCS_CACHE_DIR: 'off', E11Y_DOCS_LOG_LEVEL: 'off' }));
+    setDocSource(createFederatedSource(
+      createLocalSource({ dir: join(rootDir, 'apg', 'docs') }),
+      [{ name: 'handbook', source: createLocalSource({ dir: join(rootDir, 'handbook', 'docs') }) }]
+    ));
+  });
+
+  it('should merge the indexes, prefixing paths of extra sources', async () => {
+    const source = createFederatedSource(
+      createLocalSource({ dir: join(rootDir, 'apg', 'docs') }),
+      [{ name: 'handbook', source: createLocalSource({ dir: join(rootDir, 'handbook', 'docs') }) }]
+    );
+
+    expect(await source.fetchIndex()).toEqual({
+      'Accordion Pattern': 'docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md',
+      'Buttons': 'docs/www.w3.org_WAI_ARIA_apg_patterns_button.md',
+      'Buttons (handbook)': 'handbook:docs/buttons.md'
+    });
+    expect(await source.fetchArticle('handbook:docs/buttons.md')).toContain('Our button component');
+    expect(source.getArticleUrl('handbook:docs/buttons.md')).toMatch(/^file:\/\/.*handbook\/docs\/buttons\.md$/);
+    expect(sourceNames(source)).toEqual(['e11y', 'handbook']);
+    expect(articleSourceName('handbook:docs/buttons.md')).toBe('handbook');
+    expect(articleSourceName('docs/www.w3.org_WAI_ARIA_apg_patterns_button.md')).toBe('e11y');
+  });
+
+  it('should search every source and label results with their source', async () => {
+    const result = await searchAccessibilityArticles({ query: 'aria-expanded', maxResults: 10, includeContent: true });
+
+    expect(result.articles.map(article => [article.path, article.source])).toEqual(expect.arrayContaining([
+      ['docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md', 'e11y'],
+      ['handbook:docs/buttons.md', 'handbook']
+    ]));
+  });
+
+  it('should filter search and list by source', async () => {
+    const search = await searchAccessibilityArticles({ query: 'button', maxResults: 10, includeContent: true, source: 'handbook' });
+    const list = await listAccessibilityArticles({ source: 'e11y' });
+
+    expect(search.articles.map(article => article.path)).toEqual(['handbook:docs/buttons.md']);
+    expect(list.articles.map(article => article.title)).toEqual(['Accordion Pattern', 'Buttons']);
+  });
+
+  it('should resolve article references within the selected source', async () => {
+    const bySlug = await fetchAccessibilityArticle({ path: 'buttons', source: 'handbook', includeMetadata: false });
+    const byPath = await fetchAccessibilityArticle({ path: 'handbook:buttons', includeMetadata: false });
+
+    expect(bySlug.path).toBe('handbook:docs/buttons.md');
+    expect(byPath.path).toBe('handbook:docs/buttons.md');
+  });
+
+  it('should leave out an extra source that cannot be read and report it', async () => {
+    setDocSource(createFederatedSource(
+      createLocalSource({ dir: join(rootDir, 'apg', 'docs') }),
+      [{ name: 'handbook', source: createLocalSource({ dir: join(rootDir, 'missing', 'docs') }) }]
+    ));
+
+    const search = await searchAccessibilityArticles({ query: 'aria-expanded', maxResults: 10, includeContent: true });
+    expect(search.articles.map(article => article.source)).not.toContain('handbook');
+    expect(search.articles[0].path).toBe('docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md');
+    expect(search.unavailableSources).toEqual([
+      { source: 'handbook', code: 'NOT_FOUND', message: expect.stringContaining('Failed to fetch index of source "handbook"') }
+    ]);
+
+    const filtered = await searchAccessibilityArticles({ query: 'dialog', maxResults: 10, includeContent: true, source: 'e11y' });
+    const article = await fetchAccessibilityArticle({ path: 'Accordion Pattern', source: 'e11y', includeMetadata: false });
+    expect(filtered.unavailableSources).toBeUndefined();
+    expect(article.content).toContain('aria-expanded');
+
+    await expect(listAccessibilityArticles({ source: 'handbook' }))
+      .rejects.toMatchObject({ code: 'SOURCE_UNAVAILABLE', message: expect.stringContaining('Failed to fetch index of source "handbook"') });
+    await expect(fetchAccessibilityArticle({ path: 'buttons', source: 'handbook', includeMetadata: false }))
+      .rejects.toMatchObject({ code: 'SOURCE_UNAVAILABLE' });
+  });
+
+  it('should fail when the primary source cannot be read', async () => {
+    setDocSource(createFederatedSource(
+      createLocalSource({ dir: join(rootDir, 'missing', 'docs') }),
+      [{ name: 'handbook', source: createLocalSource({ dir: join(rootDir, 'handbook', 'docs') }) }]
+    ));
+
+    await expect(listAccessibilityArticles({ source: 'handbook' }))
+      .rejects.toThrow('Failed to fetch index of source "e11y"');
+  });
+
+  it('should reject unknown source names', async () => {
+    await expect(listAccessibilityArticles({ source: 'wiki' }))
+      .rejects.toMatchObject({ code: 'INVALID_INPUT', message: 'Unknown source "wiki". Available sources: e11y, handbook' });
+  });
+
+  it('should read extra sources from E11Y_DOCS_SOURCES', async () => {
+    const file = join(rootDir, 'sources.json');
+    await writeFile(file, JSON.stringify({
+      handbook: { type: 'local', dir: 'handbook/docs' },
+      Internal: { type: 'http', baseUrl: 'https://docs.example.com/a11y/' }
+    }));
+
+    expect(loadConfig({ E11Y_DOCS_SOURCES: file }).sources).toEqual([
+      { name: 'handbook', source: { type: 'local', dir: join(rootDir, 'handbook', 'docs') } },
+      { name: 'internal', source: { type: 'http', baseUrl: 'https://docs.example.com/a11y' } }
+    ]);
+
+    await writeFile(file, JSON.stringify({ e11y: { type: 'local', dir: 'docs' } }));
+    expect(() => loadConfig({ E11Y_DOCS_SOURCES: file })).toThrow('Invalid source name "e11y"');
+  });
+});
@@ -0,0 +1,96 @@
+/*
+ * Federated Documentation Source
+ *
+ * Combines the primary source with extra named sources (internal guidelines,
+ * a design-system handbook) into a single index, so every tool searches and
+ * reads all of them. Paths of the primary source are unchanged; paths of the
+ * other sources are prefixed with their name, e.g. "handbook:docs/buttons.md".
+ * An extra source that cannot be read is left out instead of failing every call.
+ */
+
+import { PRIMARY_SOURCE_NAME } from '../config.js';
+import type { AccessibilityIndex, DocSource, FetchOptions, NamedDocSource, SourceFailure } from './doc-source.js';
+import { DocsError, wrapError } from '../utils/errors.js';
+
+/**
+ * Name of the source an article path belongs to
+ */
+export function articleSourceName(path: string): string {
+  return path.match(/^([a-z0-9][a-z0-9-]*):/i)?.[1] ?? PRIMARY_SOURCE_NAME;
+}
+
+/**
+ * Names of the sources a documentation source reads, the primary first
+ */
+export function sourceNames(source: DocSource): string[] {
+  return source.members?.map(member => member.name) ?? [PRIMARY_SOURCE_NAME];
+}
+
+/**
+ * Create a source that reads the primary source and every named source
+ */
+export function createFederatedSource(primary: DocSource, others: NamedDocSource[]): DocSource {
+  const members: NamedDocSource[] = [{ name: PRIMARY_SOURCE_NAME, source: primary }, ...others];
+  const byName = new Map(members.map(member => [member.name, member.source]));
+
+  // Split a federated path into its source and the path within that source
+  const locate = (path: string): { source: DocSource; path: string } => {
+    const name = articleSourceName(path);
+    const source = byName.get(name);
+    if (!source) {
+      throw new DocsError('NOT_FOUND', `Unknown source "${name}" of article ${path}`);
+    }
+    return { source, path: name === PRIMARY_SOURCE_NAME ? path : path.slice(name.length + 1) };
+  };
+
+  // Extra sources whose index could not be read the last time
+  let unavailable: SourceFailure[] = [];
+
+  return {
+    kind: 'federated',
+    location: members.map(({ name, source }) => `${name}=${source.kind}:${source.location}`).join(', '),
+    members,
+
+    getVersion(): string {
+      return members.map(({ name, source }) => `${name}=${source.getVersion()}`).join(', ');
+    },
+
+    async fetchIndex(options?: FetchOptions): Promise<AccessibilityIndex> {
+      const results = await Promise.allSettled(members.map(({ source }) => source.fetchIndex(options)));
+
+      const merged: AccessibilityIndex = {};
+      const failures: SourceFailure[] = [];
+      members.forEach(({ name }, i) => {
+        const result = results[i];
+        if (result.status === 'rejected') {
+          const error = wrapError(result.reason, `Failed to fetch index of source "${name}"`);
+          // The primary docs are required; the others only add to them
+          if (name === PRIMARY_SOURCE_NAME) throw error;
+          failures.push({ source: name, code: error.code, message: error.message });
+          return;
+        }
+        for (const [title, path] of Object.entries(result.value)) {
+          // Titles are keys, so a title already taken by another source gets the source name
+          const key = title in merged ? `${title} (${name})` : title;
+          merged[key] = name === PRIMARY_SOURCE_NAME ? path : `${name}:${path}`;
+        }
+      });
+      unavailable = failures;
+      return merged;
+    },
+
+    getUnavailableSources(): SourceFailure[] {
+      return unavailable;
+    },
+
+    async fetchArticle(path: string, options?: FetchOptions): Promise<string> {
+      const located = locate(path);
+      return await located.source.fetchArticle(located.path, options);
+    },
+
+    getArticleUrl(path: string): string {
+      const located = locate(path);
+      return located.source.getArticleUrl(located.path);
+    }
+  };
+}
@@ -0,0 +1,74 @@
+/*
+ * Tests for reading the GitHub source at a pinned ref
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createGitHubSource } from './github-source.js';
+import { createDocSource } from './doc-source.js';
+import { loadConfig } from '../config.js';
+import { fetchAccessibilityArticle, setDocSource } from '../tools/e11y-tools.js';
+import { mockFetch, resetTools } from '../testing/mock-docs.js';
+
+const COMMIT_1 = 'a'.repeat(40);
+const COMMIT_2 = 'b'.repeat(40);
+const RAW_URL = 'https://raw.githubusercontent.com/vltansky/e11y-mcp';
+const ACCORDION_PATH = 'docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md';
+
+// Serve the docs at each commit, with the branch pointing at `head.commit`
+function mockRepository(head: { commit: string }) {
+  mockFetch.mockImplementation(async (url: string) => {
+    if (url === 'https://api.github.com/repos/vltansky/e11y-mcp/commits/release/2025') {
+      return { ok: true, text: () => Promise.resolve(`${head.commit}\n`) };
+    }
+    const commit = [COMMIT_1, COMMIT_2].find(sha => url.startsWith(`${RAW_URL}/${sha}/`));
+    if (!commit) {
+      return { ok: false, status: 404, statusText: 'Not Found' };
+    }
+    return url.endsWith('index.json')
+      ? { ok: true, json: () => Promise.resolve({ 'Accordion Pattern': ACCORDION_PATH }) }
+      : { ok: true, text: () => Promise.resolve(`# Accordion at ${commit.slice(0, 1)}`) };
+  });
+}
+
+describe('GitHub source refs', () => {
+  beforeEach(() => {
+    resetTools();
+  });
+
+  it('should read E11Y_DOCS_REF', () => {
+    expect(loadConfig({ E11Y_DOCS_REF: ' v1.2.0 ' }).source).toEqual({ type: 'github', ref: 'v1.2.0' });
+  });
+
+  it('should read the index and articles at the commit the ref resolves to', async () => {
+    mockRepository({ commit: COMMIT_1 });
+    const source = createDocSource({ type: 'github', ref: 'release/2025' });
+
+    expect(source.getVersion()).toBe('vltansky/e11y-mcp@release/2025');
+    await source.fetchIndex();
+
+    expect(source.getVersion()).toBe(`vltansky/e11y-mcp@${COMMIT_1} (release/2025)`);
+    expect(await source.fetchArticle(ACCORDION_PATH)).toBe('# Accordion at a');
+    expect(source.getArticleUrl(ACCORDION_PATH)).toBe(`https://github.com/vltansky/e11y-mcp/blob/${COMMIT_1}/${ACCORDION_PATH}`);
+  });
+
+  it('should keep reading at the ref when the commit cannot be looked up', async () => {
+    mockFetch.mockImplementation(async (url: string) => url.startsWith('https://api.github.com/')
+      ? { ok: false, status: 403, statusText: 'Forbidden', headers: new Headers({ 'x-ratelimit-remaining': '0' }) }
+      : { ok: true, json: () => Promise.resolve({}) });
+    const source = createGitHubSource({ ref: 'master', resolveCommit: true });
+
+    await expect(source.fetchIndex()).resolves.toEqual({});
+    expect(mockFetch).toHaveBeenLastCalledWith(`${RAW_URL}/master/docs/index.json`, { signal: undefined });
+    expect(source.getVersion()).toBe('vltansky/e11y-mcp@master');
+  });
+
+  it('should drop cached articles when the branch moves to a new commit', async () => {
+    const head = { commit: COMMIT_1 };
+    mockRepository(head);
+    setDocSource(createGitHubSource({ ref: 'release/2025', resolveCommit: true }));
+
+    expect((await fetchAccessibilityArticle({ path: 'accordion', includeMetadata: false })).content).toBe('# Accordion at a');
+    head.commit = COMMIT_2;
+    expect((await fetchAccessibilityArticle({ path: 'accordion', includeMetadata: false })).content).toBe('# Accordion at b');
+  });
+});
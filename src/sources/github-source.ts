@@ -0,0 +1,160 @@
+/*
+ * GitHub Documentation Source
+ *
+ * Reads the index and articles from raw.githubusercontent.com at a branch, tag
+ * or commit. When asked to, the ref is resolved to its commit through the
+ * GitHub API on every index read, and the articles are then read at that commit
+ * so a response never mixes two versions of the docs.
+ */
+
+import type { ChangedFile, DocSource, FetchOptions, RefComparison } from './doc-source.js';
+import { createHttpSource, fetchUrl } from './http-source.js';
+import type { HttpCache } from '../utils/http-cache.js';
+import { DocsError, errorCodeForResponse } from '../utils/errors.js';
+
+export const DEFAULT_REPO = 'vltansky/e11y-mcp';
+export const DEFAULT_REF = 'master';
+
+const API_URL = 'https://api.github.com';
+const COMMIT_SHA = /^[0-9a-f]{40}$/i;
+
+// The compare API lists at most this many files
+const MAX_COMPARED_FILES = 300;
+
+export interface GitHubSourceOptions {
+  /** Repository in "owner/name" form */
+  repo?: string;
+  /** Branch, tag or commit SHA to read (default: master) */
+  ref?: string;
+  /** Cache for the index and articles; omit to always hit the network */
+  cache?: HttpCache;
+  /** Look up the commit of the ref through the GitHub API so responses name the exact version */
+  resolveCommit?: boolean;
+}
+
+interface CompareResponse {
+  files?: {
+    filename: string;
+    status: string;
+    previous_filename?: string;
+    additions: number;
+    deletions: number;
+  }[];
+}
+
+/**
+ * Create a source that reads documentation from a GitHub repository
+ */
+export function createGitHubSource(options: GitHubSourceOptions = {}): DocSource {
+  const repo = options.repo ?? DEFAULT_REPO;
+  const ref = options.ref ?? DEFAULT_REF;
+  const raw = (at: string) => createHttpSource({ baseUrl: `https://raw.githubusercontent.com/${repo}/${at}`, cache: options.cache });
+  const blobUrl = (at: string, path: string) => `https://github.com/${repo}/blob/${at}/${path}`;
+
+  // Commit the ref pointed to at the last index read
+  let commit = COMMIT_SHA.test(ref) ? ref.toLowerCase() : undefined;
+  const readAt = () => commit ?? ref;
+
+  const api = async (path: string, accept: string, fetchOptions: FetchOptions = {}): Promise<Response> => {
+    const response = await fetchUrl(`${API_URL}/repos/${repo}/${path}`, options.cache, {
+      signal: fetchOptions.signal,
+      headers: { Accept: accept }
+    });
+    if (!response.ok) {
+      // 422 is how the API reports a ref it cannot resolve
+      const code = response.status === 422 ? 'NOT_FOUND' : errorCodeForResponse(response);
+      throw new DocsError(code, `GitHub API request failed: ${response.status} ${response.statusText}`);
+    }
+    return response;
+  };
+
+  const lookUpCommit = async (target: string, fetchOptions?: FetchOptions): Promise<string> => {
+    if (COMMIT_SHA.test(target)) {
+      return target.toLowerCase();
+    }
+    try {
+      const response = await api(`commits/${encodeRef(target)}`, 'application/vnd.github.sha', fetchOptions);
+      const sha = (await response.text()).trim();
+      if (!COMMIT_SHA.test(sha)) {
+        throw new DocsError('INTERNAL', 'GitHub API returned no commit SHA');
+      }
+      return sha.toLowerCase();
+    } catch (error) {
+      throw error instanceof DocsError && error.code === 'NOT_FOUND'
+        ? new DocsError('NOT_FOUND', `Unknown ref "${target}" in ${repo}`, { cause: error })
+        : error;
+    }
+  };
+
+  return {
+    kind: 'github',
+    location: `${repo}@${ref}`,
+    ref,
+
+    getVersion(): string {
+      return commit && commit !== ref.toLowerCase() ? `${repo}@${commit} (${ref})` : `${repo}@${ref}`;
+    },
+
+    async fetchIndex(fetchOptions?: FetchOptions) {
+      if (options.resolveCommit && !COMMIT_SHA.test(ref)) {
+        try {
+          commit = await lookUpCommit(ref, fetchOptions);
+        } catch (error) {
+          // The API is rate limited; keep reading at the last known commit, or the ref itself
+          if (fetchOptions?.signal?.aborted) throw error;
+        }
+      }
+      return await raw(readAt()).fetchIndex(fetchOptions);
+    },
+
+    async fetchArticle(path: string, fetchOptions?: FetchOptions) {
+      return await raw(readAt()).fetchArticle(path, fetchOptions);
+    },
+
+    getArticleUrl(path: string): string {
+      return blobUrl(readAt(), path);
+    },
+
+    async compareRefs(base: string, head: string, fetchOptions?: FetchOptions): Promise<RefComparison> {
+      const [baseCommit, headCommit] = await Promise.all([lookUpCommit(base, fetchOptions), lookUpCommit(head, fetchOptions)]);
+      const [comparison, baseIndex, headIndex] = await Promise.all([
+        api(`compare/${baseCommit}...${headCommit}`, 'application/vnd.github+json', fetchOptions)
+          .then(response => response.json() as Promise<CompareResponse>),
+        raw(baseCommit).fetchIndex(fetchOptions),
+        raw(headCommit).fetchIndex(fetchOptions)
+      ]);
+
+      const changed = comparison.files ?? [];
+      const files = changed
+        .filter(file => isArticleFile(file.filename) || (file.previous_filename !== undefined && isArticleFile(file.previous_filename)))
+        .map((file): ChangedFile => {
+          const status = file.status === 'removed' ? 'removed' : file.status === 'added' || file.status === 'copied' ? 'added' : 'changed';
+          return {
+            path: file.filename,
+            status,
+            ...(file.previous_filename ? { previousPath: file.previous_filename } : {}),
+            additions: file.additions,
+            deletions: file.deletions,
+            url: blobUrl(status === 'removed' ? baseCommit : headCommit, file.filename)
+          };
+        });
+
+      return {
+        base: { ref: base, commit: baseCommit, index: baseIndex },
+        head: { ref: head, commit: headCommit, index: headIndex },
+        files,
+        truncated: changed.length >= MAX_COMPARED_FILES
+      };
+    }
+  };
+}
+
+// Articles are the markdown files under docs/
+function isArticleFile(path: string): boolean {
+  return path.startsWith('docs/') && path.endsWith('.md');
+}
+
+// Branch names may contain slashes, which the API expects unescaped
+function encodeRef(ref: string): string {
+  return ref.split('/').map(encodeURIComponent).join('/');
+}
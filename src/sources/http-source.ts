@@ -0,0 +1,72 @@
+/*
+ * HTTP Documentation Source
+ *
+ * Reads the index and articles from any web server that serves a docs/ folder
+ * with index.json, e.g. an internal documentation site.
+ */
+
+import type { AccessibilityIndex, DocSource, FetchOptions } from './doc-source.js';
+import type { HttpCache, HttpCacheRequest } from '../utils/http-cache.js';
+import { DocsError, errorCodeForResponse } from '../utils/errors.js';
+
+const INDEX_PATH = 'docs/index.json';
+
+export interface HttpSourceOptions {
+  /** URL the index paths are relative to, i.e. the folder containing docs/ */
+  baseUrl: string;
+  /** Cache for the index and articles; omit to always hit the network */
+  cache?: HttpCache;
+}
+
+/**
+ * GET a URL, through the cache when there is one; connection failures reject with a NETWORK DocsError
+ */
+export async function fetchUrl(url: string, cache: HttpCache | undefined, init: HttpCacheRequest = {}): Promise<Response> {
+  try {
+    return await (cache ? cache.fetch(url, init) : fetch(url, init));
+  } catch (error) {
+    // Aborts reject with the signal's reason, which is classified as a timeout or cancellation
+    if (init.signal?.aborted) throw error;
+    throw new DocsError('NETWORK', error instanceof Error ? error.message : 'Unknown error', { cause: error });
+  }
+}
+
+/**
+ * Create a source that reads documentation over HTTP
+ */
+export function createHttpSource(options: HttpSourceOptions): DocSource {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  const get = (url: string, init: FetchOptions = {}): Promise<Response> => fetchUrl(url, options.cache, init);
+
+  return {
+    kind: 'http',
+    location: baseUrl,
+
+    getVersion(): string {
+      return baseUrl;
+    },
+
+    async fetchIndex(fetchOptions?: FetchOptions): Promise<AccessibilityIndex> {
+      const response = await get(`${baseUrl}/${INDEX_PATH}`, fetchOptions);
+      if (!response.ok) {
+        throw new DocsError(errorCodeForResponse(response), `Failed to fetch index: ${response.status} ${response.statusText}`);
+      }
+      return await response.json();
+    },
+
+    async fetchArticle(path: string, fetchOptions?: FetchOptions): Promise<string> {
+      const response = await get(`${baseUrl}/${path}`, fetchOptions);
+      if (!response.ok) {
+        if (response.status === 404) {
+          throw new DocsError('NOT_FOUND', `Article not found: ${path}`);
+        }
+        throw new DocsError(errorCodeForResponse(response), `Failed to fetch article: ${response.status} ${response.statusText}`);
+      }
+      return await response.text();
+    },
+
+    getArticleUrl(path: string): string {
+      return `${baseUrl}/${path}`;
+    }
+  };
+}
@@ -0,0 +1,108 @@
+/*
+ * Tests for the local documentation source and offline tool usage
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { mkdtemp, mkdir, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createLocalSource } from './local-source.js';
+import { loadConfig } from '../config.js';
+import {
+  setDocSource,
+  setServerConfig,
+  searchAccessibilityArticles,
+  fetchAccessibilityArticle,
+  listAccessibilityArticles
+} from '../tools/e11y-tools.js';
+
+describe('Local documentation source', () => {
+  let rootDir: string;
+  let docsDir: string;
+
+  const index = {
+    "Accordion Pattern (Sections With Show/Hide Functionality)": "docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md",
+    "Breadcrumb Pattern": "docs/www.w3.org_WAI_ARIA_apg_patterns_breadcrumb.md"
+  };
+
+  beforeAll(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), 'e11y-docs-'));
+    docsDir = join(rootDir, 'docs');
+    await mkdir(docsDir);
+    await writeFile(join(docsDir, 'index.json'), JSON.stringify(index));
+    await writeFile(
+      join(docsDir, 'www.w3.org_WAI_ARIA_apg_patterns_accordion.md'),
+      '# Accordion Pattern\n\nEach header button has aria-expanded set to true or false.\n'
+    );
+    await writeFile(join(rootDir, 'secret.md'), '# Outside the docs folder\n');
+  });
+
+  afterAll(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('should read the index from index.json', async () => {
+    const source = createLocalSource({ dir: docsDir });
+
+    expect(await source.fetchIndex()).toEqual(index);
+    expect(source.kind).toBe('local');
+  });
+
+  it('should resolve repository-relative article paths inside the docs folder', async () => {
+    const source = createLocalSource({ dir: docsDir });
+
+    const content = await source.fetchArticle('docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md');
+
+    expect(content).toContain('aria-expanded');
+    expect(source.getArticleUrl('docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md')).toMatch(/^file:\/\//);
+  });
+
+  it('should report missing articles as not found', async () => {
+    const source = createLocalSource({ dir: docsDir });
+
+    await expect(source.fetchArticle('docs/www.w3.org_WAI_ARIA_apg_patterns_breadcrumb.md'))
+      .rejects.toThrow('Article not found');
+  });
+
+  it('should refuse paths outside the docs folder', async () => {
+    const source = createLocalSource({ dir: docsDir });
+
+    await expect(source.fetchArticle('../secret.md')).rejects.toThrow('Invalid article path');
+    await expect(source.fetchArticle('docs/../../secret.md')).rejects.toThrow('Invalid article path');
+  });
+
+  it('should serve all tools without touching the network', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+    setServerConfig(loadConfig({ E11Y_DOCS_LOG_LEVEL: 'off' }));
+    setDocSource(createLocalSource({ dir: docsDir }));
+
+    const list = await listAccessibilityArticles();
+    const search = await searchAccessibilityArticles({ query: 'aria-expanded', maxResults: 5, includeContent: true });
+    const article = await fetchAccessibilityArticle({
+      path: 'docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md',
+      includeMetadata: true
+    });
+
+    expect(list.totalCount).toBe(2);
+    expect(search.articles[0].path).toBe('docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md');
+    expect(article.title).toBe('Accordion Pattern');
+    expect(article.metadata?.url).toMatch(/^file:\/\//);
+    expect(fetchSpy).not.toHaveBeenCalled();
+
+    fetchSpy.mockRestore();
+  });
+});
+
+describe('loadConfig', () => {
+  it('should default to the GitHub source', () => {
+    expect(loadConfig({}).source).toEqual({ type: 'github', repo: undefined });
+  });
+
+  it('should pick the local source when a docs directory is given', () => {
+    expect(loadConfig({ E11Y_DOCS_DIR: '/srv/docs' }).source).toEqual({ type: 'local', dir: '/srv/docs' });
+  });
+
+  it('should reject a local source without a directory', () => {
+    expect(() => loadConfig({ E11Y_DOCS_SOURCE: 'local' })).toThrow('E11Y_DOCS_DIR must be set');
+  });
+});
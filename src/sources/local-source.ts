@@ -0,0 +1,69 @@
+/*
+ * Local Documentation Source
+ *
+ * Reads the index and articles from a checked-out docs/ folder, for machines
+ * without network access.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { join, relative, resolve, isAbsolute } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { AccessibilityIndex, DocSource, FetchOptions } from './doc-source.js';
+import { DocsError } from '../utils/errors.js';
+
+// Index paths are relative to the repository root ("docs/<file>.md")
+const DOCS_PREFIX = 'docs/';
+
+export interface LocalSourceOptions {
+  /** Directory containing index.json and the article files */
+  dir: string;
+}
+
+/**
+ * Create a source that reads documentation from the local filesystem
+ */
+export function createLocalSource(options: LocalSourceOptions): DocSource {
+  const dir = resolve(options.dir);
+
+  const resolveArticlePath = (path: string): string => {
+    const relativePath = path.startsWith(DOCS_PREFIX) ? path.slice(DOCS_PREFIX.length) : path;
+    const filePath = resolve(dir, relativePath);
+
+    // Never read outside the docs directory
+    const fromDir = relative(dir, filePath);
+    if (!fromDir || fromDir.startsWith('..') || isAbsolute(fromDir)) {
+      throw new DocsError('INVALID_PATH', `Invalid article path: ${path}`);
+    }
+    return filePath;
+  };
+
+  return {
+    kind: 'local',
+    location: dir,
+
+    getVersion(): string {
+      return dir;
+    },
+
+    async fetchIndex(options?: FetchOptions): Promise<AccessibilityIndex> {
+      const raw = await readFile(join(dir, 'index.json'), { encoding: 'utf8', signal: options?.signal });
+      return JSON.parse(raw);
+    },
+
+    async fetchArticle(path: string, options?: FetchOptions): Promise<string> {
+      const filePath = resolveArticlePath(path);
+      try {
+        return await readFile(filePath, { encoding: 'utf8', signal: options?.signal });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          throw new DocsError('NOT_FOUND', `Article not found: ${path}`);
+        }
+        throw error;
+      }
+    },
+
+    getArticleUrl(path: string): string {
+      return pathToFileURL(resolveArticlePath(path)).href;
+    }
+  };
+}
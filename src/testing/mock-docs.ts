@@ -0,0 +1,60 @@
+/*
+ * Mock Documentation Repository
+ *
+ * Test helper that answers the tools' GitHub requests from in-memory docs:
+ * the commit lookup, the index and the articles. Importing it replaces the
+ * global fetch with `mockFetch`.
+ */
+
+import { vi } from 'vitest';
+import { loadConfig } from '../config.js';
+import { createGitHubSource } from '../sources/github-source.js';
+import { setDocSource, setServerConfig } from '../tools/e11y-tools.js';
+
+export const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+// Commit every ref of the mock repository resolves to
+export const MOCK_COMMIT = 'c0ffee'.padEnd(40, '0');
+
+// Article content by path, or a function of the path; undefined is a missing article
+export type MockArticles = Record<string, string> | ((path: string) => string | undefined);
+
+/**
+ * Reset the fetch mock and the tools to the default GitHub source, with logging off
+ */
+export function resetTools(env: Record<string, string | undefined> = {}): void {
+  mockFetch.mockReset();
+  setServerConfig(loadConfig({ E11Y_DOCS_LOG_LEVEL: 'off', ...env }));
+  setDocSource(createGitHubSource());
+}
+
+/**
+ * Answer fetches for the GitHub API, the index and the articles of the mock repository
+ */
+export function serveDocs(index: Record<string, string>, articles: MockArticles = {}): (url: string) => Promise<unknown> {
+  return async (url: string) => {
+    if (url.startsWith('https://api.github.com/')) {
+      return /\/commits\/[^/]+$/.test(url)
+        ? { ok: true, status: 200, text: () => Promise.resolve(MOCK_COMMIT) }
+        : { ok: false, status: 404, statusText: 'Not Found' };
+    }
+
+    const path = url.slice(url.indexOf('docs/'));
+    if (path === 'docs/index.json') {
+      return { ok: true, status: 200, json: () => Promise.resolve(index) };
+    }
+    const content = typeof articles === 'function' ? articles(path) : articles[path];
+    return content === undefined
+      ? { ok: false, status: 404, statusText: 'Not Found' }
+      : { ok: true, status: 200, text: () => Promise.resolve(content) };
+  };
+}
+
+/**
+ * Reset the tools and serve the mock repository for every fetch
+ */
+export function useMockDocs(index: Record<string, string>, articles: MockArticles = {}, env: Record<string, string | undefined> = {}): void {
+  resetTools(env);
+  mockFetch.mockImplementation(serveDocs(index, articles));
+}
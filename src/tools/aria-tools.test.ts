@@ -0,0 +1,108 @@
+/*
+ * Tests for the ARIA lookup tools
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { lookupAriaTerm } from './aria-tools.js';
+import { buildAriaTermIndex, findAriaTerms } from '../utils/aria-index.js';
+import { mockFetch, useMockDocs } from '../testing/mock-docs.js';
+
+const mockIndex = {
+  "Accordion Pattern (Sections With Show/Hide Functionality)": "docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md",
+  "Combobox Pattern": "docs/www.w3.org_WAI_ARIA_apg_patterns_combobox.md",
+  "Breadcrumb Pattern": "docs/www.w3.org_WAI_ARIA_apg_patterns_breadcrumb.md"
+};
+
+const articles: Record<string, string> = {
+  'docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md': `# Accordion Pattern
+
+## WAI-ARIA Roles, States, and Properties
+
+- The title of each accordion header is contained in an element with role [button](https://w3c.github.io/aria/#button).
+- If the accordion panel is visible, the header button element has [aria-expanded](https://w3c.github.io/aria/#aria-expanded) set to \`true\`. If the panel is not visible, aria-expanded is set to \`false\`.
+`,
+  'docs/www.w3.org_WAI_ARIA_apg_patterns_combobox.md': `# Combobox Pattern
+
+A combobox is an input widget. Press the button to open the popup.
+
+## WAI-ARIA Roles, States, and Properties
+
+- The element that serves as an input and displays the combobox value has role \`combobox\`.
+- The combobox element has aria-expanded set to true when the popup is displayed.
+- When a descendant of the popup is focused, DOM focus remains on the combobox and the combobox has aria-activedescendant set to the ID of the focused element.
+`,
+  'docs/www.w3.org_WAI_ARIA_apg_patterns_breadcrumb.md': `# Breadcrumb Pattern
+
+Each link in the trail is a link element.
+`
+};
+
+describe('findAriaTerms', () => {
+  it('should only count roles mentioned in an ARIA context', () => {
+    const terms = findAriaTerms('Press the button. It has role `button` and role="tab", the tablist role, and aria-selected.');
+
+    expect(terms.map(found => found.term).sort()).toEqual(['aria-selected', 'button', 'tab', 'tablist']);
+  });
+
+  it('should ignore aria- words that are not ARIA attributes', () => {
+    expect(findAriaTerms('aria-foo and aria-hidden')).toEqual([{ term: 'aria-hidden', index: 13 }]);
+  });
+});
+
+describe('buildAriaTermIndex', () => {
+  it('should attribute mentions to the closest heading with an excerpt', () => {
+    const index = buildAriaTermIndex(new Map(Object.entries(articles)));
+    const [mention] = index.get('aria-expanded')!.filter(m => m.path.includes('accordion'));
+
+    expect(mention.section).toBe('WAI-ARIA Roles, States, and Properties');
+    expect(mention.anchor).toBe('#wai-aria-roles-states-and-properties');
+    expect(mention.occurrences).toBe(2);
+    expect(mention.excerpt).toBe('If the accordion panel is visible, the header button element has aria-expanded set to `true`.');
+  });
+});
+
+describe('lookupAriaTerm', () => {
+  beforeEach(() => {
+    useMockDocs(mockIndex, articles);
+  });
+
+  it('should return every article and section mentioning an attribute', async () => {
+    const result = await lookupAriaTerm({ term: 'aria-expanded', maxArticles: 10 });
+
+    expect(result.kind).toBe('attribute');
+    expect(result.totalMentions).toBe(3);
+    expect(result.articles.map(article => article.title)).toEqual([
+      'Accordion Pattern (Sections With Show/Hide Functionality)',
+      'Combobox Pattern'
+    ]);
+    expect(result.articles[1].sections[0].excerpt).toContain('aria-expanded set to true when the popup is displayed');
+  });
+
+  it('should normalize role lookups', async () => {
+    const result = await lookupAriaTerm({ term: 'role="combobox"', maxArticles: 10 });
+
+    expect(result.term).toBe('combobox');
+    expect(result.kind).toBe('role');
+    expect(result.articles).toHaveLength(1);
+    expect(result.articles[0].sections[0].section).toBe('WAI-ARIA Roles, States, and Properties');
+  });
+
+  it('should build the term index once per corpus', async () => {
+    await lookupAriaTerm({ term: 'aria-expanded', maxArticles: 10 });
+    const fetchCount = mockFetch.mock.calls.length;
+
+    const result = await lookupAriaTerm({ term: 'aria-activedescendant', maxArticles: 10 });
+
+    // Only the index is fetched again to check the corpus is unchanged
+    expect(mockFetch.mock.calls.length).toBe(fetchCount + 1);
+    expect(result.articles[0].title).toBe('Combobox Pattern');
+  });
+
+  it('should suggest known terms when nothing matches', async () => {
+    const result = await lookupAriaTerm({ term: 'aria-expandd', maxArticles: 10 });
+
+    expect(result.kind).toBe('unknown');
+    expect(result.articles).toEqual([]);
+    expect(result.suggestions![0]).toBe('aria-expanded');
+  });
+});
@@ -0,0 +1,116 @@
+/*
+ * ARIA Lookup Tools
+ *
+ * Look up where an ARIA role or attribute is documented across the corpus.
+ */
+
+import { z } from 'zod';
+import {
+  deriveFromCorpus,
+  getDocSource,
+  loadCorpus,
+  selectSource,
+  sourceFilterShape,
+  reportUnavailableSources,
+  unscannedArticles,
+  type ArticleFailure,
+  type SourceFailure,
+  type ToolCallOptions
+} from './e11y-tools.js';
+import { ARIA_ATTRIBUTES, ARIA_ROLES, isAriaAttribute, isAriaRole } from '../utils/aria.js';
+import { buildAriaTermIndex } from '../utils/aria-index.js';
+import { editDistance } from '../utils/search-index.js';
+
+const ariaLookupSchema = z.object({
+  term: z.string().describe('ARIA role or attribute, e.g. "aria-expanded", "combobox", "role=\\"tab\\""'),
+  maxArticles: z.number().min(1).max(50).optional().default(10).describe('Maximum number of articles to return (1-50)'),
+  ...sourceFilterShape
+});
+
+export type AriaLookupInput = z.infer<typeof ariaLookupSchema>;
+
+/**
+ * Normalize user input such as `role="tab"`, "Aria-Expanded" or "`combobox`"
+ */
+function normalizeTerm(term: string): string {
+  return term
+    .trim()
+    .toLowerCase()
+    .replace(/^role\s*=\s*/, '')
+    .replace(/^["'`]+|["'`]+$/g, '')
+    .replace(/=.*$/, '');
+}
+
+/**
+ * Suggest known ARIA terms close to an unknown one
+ */
+function suggestTerms(term: string): string[] {
+  return [...ARIA_ROLES, ...ARIA_ATTRIBUTES]
+    .map(candidate => ({ candidate, distance: editDistance(term, candidate, 3) }))
+    .filter(({ distance }) => distance <= 3)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, 5)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * Find every article section that mentions an ARIA role or attribute
+ */
+export async function lookupAriaTerm(input: AriaLookupInput, options: ToolCallOptions = {}): Promise<{
+  term: string;
+  kind: 'role' | 'attribute' | 'unknown';
+  totalArticles: number;
+  totalMentions: number;
+  articles: {
+    title: string;
+    path: string;
+    url: string;
+    sections: { section: string; anchor: string; excerpt: string; occurrences: number }[];
+  }[];
+  suggestions?: string[];
+  timedOut?: boolean;
+  /** Articles that could not be scanned for mentions */
+  unscannedArticles?: (ArticleFailure & { title: string })[];
+  /** Extra sources left out because their index could not be read */
+  unavailableSources?: SourceFailure[];
+}> {
+  const term = normalizeTerm(input.term);
+  const kind = isAriaAttribute(term) ? 'attribute' : isAriaRole(term) ? 'role' : 'unknown';
+
+  const corpus = await loadCorpus(options.signal);
+  const termIndex = deriveFromCorpus(corpus, 'aria-terms', ({ contents }) => buildAriaTermIndex(contents));
+  const paths = new Set(Object.values(selectSource(corpus.index, input.source)));
+  const mentions = (termIndex.get(term) ?? []).filter(mention => paths.has(mention.path));
+
+  const titles = new Map(Object.entries(corpus.index).map(([title, path]) => [path, title]));
+  const byPath = new Map<string, typeof mentions>();
+  for (const mention of mentions) {
+    byPath.set(mention.path, [...(byPath.get(mention.path) ?? []), mention]);
+  }
+
+  const source = getDocSource();
+  const articles = [...byPath.entries()]
+    .map(([path, sections]) => ({
+      title: titles.get(path) ?? path,
+      path,
+      url: source.getArticleUrl(path),
+      sections: sections.map(({ section, anchor, excerpt, occurrences }) => ({ section, anchor, excerpt, occurrences }))
+    }))
+    .sort((a, b) => total(b.sections) - total(a.sections) || a.title.localeCompare(b.title));
+
+  return {
+    term,
+    kind,
+    totalArticles: articles.length,
+    totalMentions: total(mentions),
+    articles: articles.slice(0, input.maxArticles),
+    ...(articles.length === 0 ? { suggestions: suggestTerms(term) } : {}),
+    ...(corpus.timedOut ? { timedOut: true } : {}),
+    ...(corpus.failures.length > 0 ? { unscannedArticles: unscannedArticles(corpus) } : {}),
+    ...reportUnavailableSources(input.source)
+  };
+}
+
+function total(mentions: { occurrences: number }[]): number {
+  return mentions.reduce((sum, mention) => sum + mention.occurrences, 0);
+}
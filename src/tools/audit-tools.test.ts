@@ -0,0 +1,194 @@
+/*
+ * Tests for the markup audit tools
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { auditMarkup } from './audit-tools.js';
+import { getRole, parseMarkup } from '../utils/markup.js';
+import { useMockDocs } from '../testing/mock-docs.js';
+
+const mockIndex = {
+  "Accordion Pattern (Sections With Show/Hide Functionality)": "docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md",
+  "Breadcrumb Pattern": "docs/www.w3.org_WAI_ARIA_apg_patterns_breadcrumb.md",
+  "Dialog (Modal) Pattern": "docs/www.w3.org_WAI_ARIA_apg_patterns_dialog-modal.md"
+};
+
+const articles: Record<string, string> = {
+  'docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md': `# Accordion Pattern (Sections With Show/Hide Functionality)
+
+## WAI-ARIA Roles, States, and Properties
+
+- The title of each accordion header is contained in an element with role [button](https://w3c.github.io/aria/#button).
+- Each accordion header button is wrapped in an element with role [heading](https://w3c.github.io/aria/#heading) that has a value set for [aria-level](https://w3c.github.io/aria/#aria-level) that is appropriate for the information architecture of the page.
+- If the accordion panel is visible, the header button element has [aria-expanded](https://w3c.github.io/aria/#aria-expanded) set to \`true\`.
+- The accordion header button element has [aria-controls](https://w3c.github.io/aria/#aria-controls) set to the ID of the element containing the accordion panel content.
+
+## Keyboard Interaction
+
+- Enter or Space: When focus is on the accordion header for a collapsed panel, expands the associated panel.
+`,
+  'docs/www.w3.org_WAI_ARIA_apg_patterns_breadcrumb.md': `# Breadcrumb Pattern
+
+Breadcrumbs are a list of links.
+`,
+  'docs/www.w3.org_WAI_ARIA_apg_patterns_dialog-modal.md': `# Dialog (Modal) Pattern
+
+## WAI-ARIA Roles, States, and Properties
+
+- The element that serves as the dialog container has a role of [dialog](https://w3c.github.io/aria/#dialog).
+- The dialog container element has [aria-modal](https://w3c.github.io/aria/#aria-modal) set to \`true\`.
+- The dialog has either a value set for the [aria-labelledby](https://w3c.github.io/aria/#aria-labelledby) property that refers to a visible dialog title, or a label specified by [aria-label](https://w3c.github.io/aria/#aria-label).
+- Optionally, the [aria-describedby](https://w3c.github.io/aria/#aria-describedby) property is set on the element with the dialog role.
+`
+};
+
+const validAccordion = `
+<h3>
+  <button type="button" aria-expanded="true" aria-controls="panel-1" id="header-1">Section 1</button>
+</h3>
+<div id="panel-1" role="region" aria-labelledby="header-1">Content</div>
+`;
+
+describe('parseMarkup', () => {
+  it('should normalize JSX attributes and track nesting', () => {
+    const elements = parseMarkup(`<div className="accordion" {...props}>
+  <Button aria-expanded={isOpen} aria-controls={"panel"} disabled onClick={() => toggle({ id })} />
+  <input type="checkbox">
+</div>`);
+
+    expect(elements.map(element => element.tag)).toEqual(['div', 'button', 'input']);
+    expect(elements[0].attributes).toEqual({ class: 'accordion' });
+    expect(elements[1].attributes).toEqual({
+      'aria-expanded': '{isOpen}',
+      'aria-controls': 'panel',
+      disabled: '',
+      onclick: '{() => toggle({ id })}'
+    });
+    expect(elements[1].parent).toBe(0);
+    expect(elements[2].parent).toBe(0);
+    expect(elements[2].line).toBe(3);
+  });
+
+  it('should resolve explicit and implicit roles', () => {
+    const roles = parseMarkup('<h2></h2><a href="#">x</a><a>y</a><input type="checkbox"><div role="Tab List"></div>')
+      .map(getRole);
+
+    expect(roles).toEqual(['heading', 'link', undefined, 'checkbox', 'tab']);
+  });
+});
+
+describe('auditMarkup', () => {
+  beforeEach(() => {
+    useMockDocs(mockIndex, articles);
+  });
+
+  it('should pass markup that follows the pattern', async () => {
+    const result = await auditMarkup({ markup: validAccordion, pattern: 'accordion' });
+
+    expect(result.findings).toEqual([]);
+    expect(result.elementsChecked).toBe(3);
+    expect(result.keyboardChecks).toEqual([
+      'Enter / Space: When focus is on the accordion header for a collapsed panel, expands the associated panel.'
+    ]);
+  });
+
+  it('should pass the canonical APG accordion markup, whose headings get their level from the tag', async () => {
+    const result = await auditMarkup({
+      markup: `<div id="accordionGroup" class="accordion">
+  <h3>
+    <button type="button" aria-expanded="true" class="accordion-trigger" aria-controls="sect1" id="accordion1id">
+      <span class="accordion-title">Personal Information<span class="accordion-icon"></span></span>
+    </button>
+  </h3>
+  <div id="sect1" role="region" aria-labelledby="accordion1id" class="accordion-panel">
+    <fieldset><input type="text" id="cufc1" aria-describedby="cufc1-hint"><span id="cufc1-hint">Name</span></fieldset>
+  </div>
+</div>`,
+      pattern: 'accordion'
+    });
+
+    expect(result.summary).toEqual({ errors: 0, warnings: 0 });
+  });
+
+  it('should still require aria-level on a heading made with role', async () => {
+    const result = await auditMarkup({
+      markup: '<div role="heading"><button aria-expanded="false" aria-controls="panel">A</button></div><div id="panel"></div>',
+      pattern: 'accordion'
+    });
+
+    expect(result.findings.map(finding => finding.message)).toEqual(['Element with role "heading" is missing aria-level']);
+  });
+
+  it('should accept global attributes on elements of other roles', async () => {
+    const result = await auditMarkup({
+      markup: `<div role="dialog" aria-modal="true" aria-labelledby="dialog-title">
+  <h2 id="dialog-title">Add Delivery Address</h2>
+  <button type="button" aria-label="Close">×</button>
+</div>`,
+      pattern: 'dialog'
+    });
+
+    expect(result.findings).toEqual([]);
+  });
+
+  it('should treat a native dialog as modal', async () => {
+    const result = await auditMarkup({ markup: '<dialog aria-label="Add Delivery Address"></dialog>', pattern: 'dialog' });
+
+    expect(result.findings).toEqual([]);
+  });
+
+  it('should report missing attributes with a citation', async () => {
+    const result = await auditMarkup({
+      markup: '<h3><button aria-expanded="false">Section 1</button></h3>',
+      pattern: 'accordion'
+    });
+
+    expect(result.summary).toEqual({ errors: 1, warnings: 0 });
+    expect(result.findings[0]).toEqual({
+      severity: 'error',
+      rule: 'missing-attribute',
+      message: 'Element with role "button" is missing aria-controls',
+      element: { tag: 'button', line: 1, source: '<button aria-expanded="false">' },
+      citation: {
+        path: 'docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md',
+        section: 'WAI-ARIA Roles, States, and Properties',
+        anchor: '#wai-aria-roles-states-and-properties',
+        url: 'https://github.com/vltansky/e11y-mcp/blob/master/docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md#wai-aria-roles-states-and-properties',
+        guidance: 'The accordion header button element has aria-controls set to the ID of the element containing the accordion panel content.'
+      }
+    });
+  });
+
+  it('should report the wrong role on a header', async () => {
+    const result = await auditMarkup({
+      markup: '<div class="header" aria-expanded="yes" aria-controls="panel">Section 1</div><div id="panel"></div>',
+      pattern: 'accordion'
+    });
+
+    expect(result.findings.map(finding => finding.rule)).toEqual([
+      'missing-role',
+      'missing-role',
+      'wrong-role',
+      'invalid-value'
+    ]);
+    expect(result.findings[2].message).toBe('aria-expanded is documented on role "button", but this <div> has no role');
+    expect(result.findings[3].message).toBe('aria-expanded must be "true", "false", got "yes"');
+  });
+
+  it('should report unknown attributes and broken references', async () => {
+    const result = await auditMarkup({
+      markup: '<h3><button aria-expanded={open} aria-controls="missing" aria-expandable="true">A</button></h3>',
+      pattern: 'accordion'
+    });
+
+    expect(result.findings.map(finding => [finding.rule, finding.severity])).toEqual([
+      ['broken-reference', 'warning'],
+      ['unknown-attribute', 'error']
+    ]);
+  });
+
+  it('should refuse to audit against articles without a roles section', async () => {
+    await expect(auditMarkup({ markup: '<nav></nav>', pattern: 'breadcrumb' }))
+      .rejects.toThrow('Cannot audit against "Breadcrumb Pattern": Section not found');
+  });
+});
@@ -0,0 +1,231 @@
+/*
+ * Markup Audit Tools
+ *
+ * Check an HTML or JSX snippet against the roles and attributes documented in
+ * an APG pattern article. Every finding cites the article section the
+ * requirement was extracted from.
+ */
+
+import { z } from 'zod';
+import { getPatternSpec } from './pattern-tools.js';
+import { sourceFilterShape, type ToolCallOptions } from './e11y-tools.js';
+import { isAriaAttribute, isAriaRole, isGlobalAriaAttribute } from '../utils/aria.js';
+import { DocsError } from '../utils/errors.js';
+import { getImpliedAttributes, getRole, isDynamicValue, parseMarkup, type MarkupElement } from '../utils/markup.js';
+import type { RoleSpec } from '../utils/pattern-spec.js';
+
+const markupAuditSchema = z.object({
+  markup: z.string().min(1).describe('HTML or JSX snippet of the component'),
+  pattern: z.string().min(1).describe('Pattern name (e.g., "accordion", "tabs") or article path'),
+  ...sourceFilterShape
+});
+
+export type MarkupAuditInput = z.infer<typeof markupAuditSchema>;
+
+export type FindingSeverity = 'error' | 'warning';
+
+export interface AuditFinding {
+  severity: FindingSeverity;
+  rule: 'missing-role' | 'missing-attribute' | 'wrong-role' | 'broken-reference' | 'invalid-value' | 'unknown-attribute' | 'unknown-role';
+  message: string;
+  element?: { tag: string; line: number; source: string };
+  citation: {
+    path: string;
+    section: string;
+    anchor: string;
+    url: string;
+    /** The documentation bullet the requirement comes from */
+    guidance?: string;
+  };
+}
+
+const BOOLEAN_ATTRIBUTES = new Set([
+  'aria-atomic', 'aria-busy', 'aria-disabled', 'aria-expanded', 'aria-hidden', 'aria-modal',
+  'aria-multiline', 'aria-multiselectable', 'aria-readonly', 'aria-required', 'aria-selected'
+]);
+
+const TRISTATE_ATTRIBUTES = new Set(['aria-checked', 'aria-pressed']);
+
+const ID_REFERENCE_ATTRIBUTES = new Set([
+  'aria-activedescendant', 'aria-controls', 'aria-describedby', 'aria-details',
+  'aria-errormessage', 'aria-flowto', 'aria-labelledby', 'aria-owns'
+]);
+
+// Either attribute gives the element an accessible name
+const NAMING_ATTRIBUTES = ['aria-label', 'aria-labelledby'];
+
+// Requirements introduced by a condition ("If the tab list has a visible label, ...")
+const CONDITIONAL_GUIDANCE = /^(if|when|where)\b/i;
+
+/**
+ * Find the guidance bullet that mentions a term
+ */
+function findGuidance(spec: RoleSpec, term: string): string | undefined {
+  const pattern = new RegExp(`\\b${term}\\b`, 'i');
+  return spec.guidance.find(text => pattern.test(text));
+}
+
+function describeElement(element: MarkupElement): { tag: string; line: number; source: string } {
+  return { tag: element.tag, line: element.line, source: element.source };
+}
+
+/**
+ * Check HTML or JSX markup against the requirements of an APG pattern
+ */
+export async function auditMarkup(input: MarkupAuditInput, options: ToolCallOptions = {}): Promise<{
+  pattern: string;
+  title: string;
+  path: string;
+  url: string;
+  elementsChecked: number;
+  summary: { errors: number; warnings: number };
+  findings: AuditFinding[];
+  /** Keyboard behavior from the article that cannot be verified statically */
+  keyboardChecks: string[];
+}> {
+  const spec = await getPatternSpec({ pattern: input.pattern, source: input.source }, options);
+  const rolesSection = spec.parsedSections.find(section => section.kind === 'roles');
+  if (!rolesSection || spec.roles.length === 0) {
+    const reason = spec.unparsedSections.find(section => section.kind === 'roles')?.reason ?? 'No roles found';
+    throw new DocsError('INVALID_INPUT', `Cannot audit against "${spec.title}": ${reason}`);
+  }
+
+  const elements = parseMarkup(input.markup);
+  if (elements.length === 0) {
+    throw new DocsError('INVALID_INPUT', 'No elements found in markup');
+  }
+
+  const findings: AuditFinding[] = [];
+  const report = (finding: Omit<AuditFinding, 'citation'>, guidance?: string) => {
+    findings.push({
+      ...finding,
+      citation: {
+        path: spec.path,
+        section: rolesSection.heading,
+        anchor: rolesSection.anchor,
+        url: `${spec.url}${rolesSection.anchor}`,
+        ...(guidance ? { guidance } : {})
+      }
+    });
+  };
+
+  const roles = elements.map(getRole);
+  const ids = new Set(elements.map(element => element.attributes.id).filter(Boolean));
+
+  // Which documented roles each attribute belongs to, for wrong-role checks; global attributes fit any role
+  const attributeOwners = new Map<string, RoleSpec[]>();
+  for (const roleSpec of spec.roles) {
+    for (const attribute of [...roleSpec.requiredAttributes, ...roleSpec.optionalAttributes]) {
+      if (isGlobalAriaAttribute(attribute)) continue;
+      attributeOwners.set(attribute, [...(attributeOwners.get(attribute) ?? []), roleSpec]);
+    }
+  }
+
+  for (const roleSpec of spec.roles) {
+    const matching = elements.filter((_, i) => roles[i] === roleSpec.role);
+    if (matching.length === 0) {
+      report({
+        severity: 'warning',
+        rule: 'missing-role',
+        message: `No element with role "${roleSpec.role}" found`
+      }, findGuidance(roleSpec, roleSpec.role));
+      continue;
+    }
+
+    for (const element of matching) {
+      const implied = getImpliedAttributes(element);
+      for (const attribute of roleSpec.requiredAttributes) {
+        const alternatives = NAMING_ATTRIBUTES.includes(attribute) ? NAMING_ATTRIBUTES : [attribute];
+        if (alternatives.some(name => name in element.attributes || implied.includes(name))) continue;
+
+        const guidance = findGuidance(roleSpec, attribute);
+        report({
+          severity: guidance && CONDITIONAL_GUIDANCE.test(guidance) ? 'warning' : 'error',
+          rule: 'missing-attribute',
+          message: `Element with role "${roleSpec.role}" is missing ${attribute}`,
+          element: describeElement(element)
+        }, guidance);
+      }
+    }
+  }
+
+  elements.forEach((element, i) => {
+    const role = roles[i];
+    const explicitRole = element.attributes.role;
+    if (explicitRole && !isDynamicValue(explicitRole) && !isAriaRole(role ?? '')) {
+      report({
+        severity: 'error',
+        rule: 'unknown-role',
+        message: `"${explicitRole}" is not an ARIA role`,
+        element: describeElement(element)
+      });
+    }
+
+    for (const [attribute, value] of Object.entries(element.attributes)) {
+      if (!attribute.startsWith('aria-')) continue;
+
+      if (!isAriaAttribute(attribute)) {
+        report({
+          severity: 'error',
+          rule: 'unknown-attribute',
+          message: `${attribute} is not an ARIA attribute`,
+          element: describeElement(element)
+        });
+        continue;
+      }
+
+      const owners = attributeOwners.get(attribute);
+      if (owners && !owners.some(owner => owner.role === role)) {
+        const documented = owners.map(owner => `"${owner.role}"`).join(' or ');
+        report({
+          severity: 'error',
+          rule: 'wrong-role',
+          message: `${attribute} is documented on role ${documented}, but this <${element.tag}> has ${role ? `role "${role}"` : 'no role'}`,
+          element: describeElement(element)
+        }, findGuidance(owners[0], attribute));
+      }
+
+      if (isDynamicValue(value)) continue;
+
+      const allowed = BOOLEAN_ATTRIBUTES.has(attribute)
+        ? ['true', 'false']
+        : TRISTATE_ATTRIBUTES.has(attribute) ? ['true', 'false', 'mixed'] : undefined;
+      if (allowed && !allowed.includes(value)) {
+        report({
+          severity: 'error',
+          rule: 'invalid-value',
+          message: `${attribute} must be ${allowed.map(v => `"${v}"`).join(', ')}, got "${value}"`,
+          element: describeElement(element)
+        });
+      }
+
+      if (ID_REFERENCE_ATTRIBUTES.has(attribute)) {
+        const missing = value.split(/\s+/).filter(id => id && !ids.has(id));
+        if (missing.length > 0) {
+          report({
+            severity: 'warning',
+            rule: 'broken-reference',
+            message: `${attribute} refers to ${missing.map(id => `"${id}"`).join(', ')}, which is not in the markup`,
+            element: describeElement(element)
+          });
+        }
+      }
+    }
+  });
+
+  return {
+    pattern: spec.pattern,
+    title: spec.title,
+    path: spec.path,
+    url: spec.url,
+    elementsChecked: elements.length,
+    summary: {
+      errors: findings.filter(finding => finding.severity === 'error').length,
+      warnings: findings.filter(finding => finding.severity === 'warning').length
+    },
+    findings,
+    keyboardChecks: spec.keyboard.map(key =>
+      `${key.keys.join(' / ')}${key.optional ? ' (optional)' : ''}: ${key.behavior}`
+    )
+  };
+}
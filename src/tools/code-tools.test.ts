@@ -0,0 +1,84 @@
+/*
+ * Tests for the code example tools and the code search filter
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { getCodeExamples } from './code-tools.js';
+import { searchAccessibilityArticles, setDocSource, setServerConfig } from './e11y-tools.js';
+import { useMockDocs } from '../testing/mock-docs.js';
+
+const mockIndex = {
+  'Dialog (Modal) Pattern': 'docs/www.w3.org_WAI_ARIA_apg_patterns_dialog-modal.md',
+  'Date Picker Dialog Example': 'docs/www.w3.org_WAI_ARIA_apg_patterns_dialog-modal_examples_datepicker-dialog.md',
+  'Alert Dialog Example': 'docs/www.w3.org_WAI_ARIA_apg_patterns_alertdialog_examples_alertdialog.md'
+};
+
+const articles: Record<string, string> = {
+  'docs/www.w3.org_WAI_ARIA_apg_patterns_dialog-modal.md': '# Dialog (Modal) Pattern\n\nA dialog is a window overlaid on the page.\n',
+  'docs/www.w3.org_WAI_ARIA_apg_patterns_dialog-modal_examples_datepicker-dialog.md': `# Date Picker Dialog Example
+
+## Example Code
+
+### HTML
+
+\`\`\`html
+<div role="dialog" aria-modal="true" aria-label="Choose Date"></div>
+\`\`\`
+
+### CSS
+
+\`\`\`css
+.datepicker-dialog { position: absolute; }
+\`\`\`
+
+### JavaScript
+
+\`\`\`js
+dialog.addEventListener('keydown', onKeyDown);
+\`\`\`
+`,
+  'docs/www.w3.org_WAI_ARIA_apg_patterns_alertdialog_examples_alertdialog.md': `# Alert Dialog Example
+
+\`\`\`html
+<div role="alertdialog"></div>
+\`\`\`
+`
+};
+
+describe('code examples', () => {
+  beforeEach(() => {
+    useMockDocs(mockIndex, articles);
+  });
+
+  it('should return the code blocks of an article filtered by language', async () => {
+    const result = await getCodeExamples({ path: 'datepicker-dialog', language: 'JS' });
+
+    expect(result.languages).toEqual({ html: 1, css: 1, javascript: 1 });
+    expect(result.totalBlocks).toBe(1);
+    expect(result.blocks).toEqual([{
+      index: 2,
+      language: 'javascript',
+      heading: 'JavaScript',
+      anchor: '#javascript',
+      line: 19,
+      code: "dialog.addEventListener('keydown', onKeyDown);"
+    }]);
+  });
+
+  it('should find example articles with code for a pattern', async () => {
+    const result = await searchAccessibilityArticles({
+      query: 'dialog',
+      maxResults: 10,
+      includeContent: false,
+      pattern: 'dialog-modal',
+      codeLanguage: 'css'
+    });
+
+    expect(result.articles).toHaveLength(1);
+    expect(result.articles[0]).toMatchObject({
+      title: 'Date Picker Dialog Example',
+      codeBlocks: 3,
+      codeLanguages: ['css', 'html', 'javascript']
+    });
+  });
+});
@@ -0,0 +1,94 @@
+/*
+ * Code Example Tools
+ *
+ * Return the fenced code blocks of an article, e.g. the HTML, CSS and
+ * JavaScript of an APG example, as structured items instead of markdown.
+ */
+
+import { z } from 'zod';
+import {
+  fetchAccessibilityIndex,
+  getArticleContent,
+  getDocSource,
+  resolveArticlePath,
+  selectSource,
+  sourceFilterShape,
+  type ToolCallOptions
+} from './e11y-tools.js';
+import { extractCodeBlocks, normalizeLanguage } from '../utils/code-blocks.js';
+import { wrapError } from '../utils/errors.js';
+
+const codeExamplesSchema = z.object({
+  path: z.string().describe('Path, title or file slug of the article, e.g. "datepicker-dialog"'),
+  language: z.string().optional().describe('Only blocks in this language, e.g. "html", "css" or "javascript" (aliases such as "js" work)'),
+  maxBlocks: z.number().int().min(1).optional().describe('Maximum number of blocks to return (default: all)'),
+  ...sourceFilterShape
+});
+
+export type CodeExamplesInput = z.infer<typeof codeExamplesSchema>;
+
+export interface CodeExample {
+  /** Position of the block among all blocks of the article, starting at 0 */
+  index: number;
+  language?: string;
+  /** The fence had no language and it was guessed from the code */
+  languageGuessed?: boolean;
+  /** Closest heading above the block */
+  heading?: string;
+  anchor?: string;
+  /** Line of the opening fence, starting at 1 */
+  line: number;
+  code: string;
+}
+
+/**
+ * Extract the fenced code blocks of an article, optionally in one language
+ */
+export async function getCodeExamples(input: CodeExamplesInput, options: ToolCallOptions = {}): Promise<{
+  title: string;
+  path: string;
+  url: string;
+  /** Number of blocks per language in the whole article; "unknown" counts blocks without a language */
+  languages: Record<string, number>;
+  /** Blocks in the requested language (every block without a language filter) */
+  totalBlocks: number;
+  blocks: CodeExample[];
+}> {
+  const index = selectSource(await fetchAccessibilityIndex(options.signal), input.source);
+  const path = resolveArticlePath(index, input.path);
+  const title = Object.entries(index).find(([, entryPath]) => entryPath === path)![0];
+
+  let content: string;
+  try {
+    content = await getArticleContent(path, options.signal);
+  } catch (error) {
+    throw wrapError(error, 'Failed to fetch article content');
+  }
+
+  const all = extractCodeBlocks(content).map((block, i): CodeExample => ({
+    index: i,
+    ...(block.language ? { language: block.language } : {}),
+    ...(block.languageGuessed ? { languageGuessed: true } : {}),
+    ...(block.heading ? { heading: block.heading.text, anchor: `#${block.heading.slug}` } : {}),
+    line: block.line,
+    code: block.code
+  }));
+
+  const languages: Record<string, number> = {};
+  for (const block of all) {
+    const language = block.language ?? 'unknown';
+    languages[language] = (languages[language] ?? 0) + 1;
+  }
+
+  const wanted = input.language ? normalizeLanguage(input.language) : undefined;
+  const blocks = wanted ? all.filter(block => block.language === wanted) : all;
+
+  return {
+    title,
+    path,
+    url: getDocSource().getArticleUrl(path),
+    languages,
+    totalBlocks: blocks.length,
+    blocks: input.maxBlocks ? blocks.slice(0, input.maxBlocks) : blocks
+  };
+}
@@ -2,22 +2,27 @@
  * Tests for E11y (Accessibility) Documentation Tools
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import {
   searchAccessibilityArticles,
   fetchAccessibilityArticle,
   listAccessibilityArticles,
+  getArticleOutline,
+  getArticleContent,
+  resolveArticlePath,
+  setDocSource,
+  setServerConfig,
   type SearchQueryInput,
   type FetchArticleInput
 } from './e11y-tools.js';
-
-// Mock fetch for testing
-const mockFetch = vi.fn();
-global.fetch = mockFetch;
+import { createGitHubSource } from '../sources/github-source.js';
+import { loadConfig } from '../config.js';
+import type { DocsError } from '../utils/errors.js';
+import { mockFetch, resetTools, serveDocs } from '../testing/mock-docs.js';
 
 describe('E11y Documentation Tools', () => {
   beforeEach(() => {
-    vi.clearAllMocks();
+    resetTools();
   });
 
   const mockIndex = {
@@ -64,6 +69,11 @@ A breadcrumb trail consists of a list of links to the parent pages of the curren
 - **link**: Each breadcrumb item is a link
 `;
 
+  // Serve the index, and the given content for every article
+  const mockSource = (content: string, index: Record<string, string> = mockIndex) => {
+    mockFetch.mockImplementation(serveDocs(index, () => content));
+  };
+
   describe('searchAccessibilityArticles', () => {
     it('should search articles with exact title match', async () => {
       mockFetch.mockResolvedValueOnce({
@@ -102,10 +112,26 @@ A breadcrumb trail consists of a list of links to the parent pages of the curren
 
       expect(result.articles.length).toBeGreaterThan(0);
       // Should find the accordion pattern as the most relevant match
-      const accordionResult = result.articles.find(article =>
-        article.title.includes('Accordion'));
-      expect(accordionResult).toBeDefined();
-      expect(accordionResult!.matchReason).toContain('match');
+      expect(result.articles[0].title).toBe('Accordion Pattern (Sections With Show/Hide Functionality)');
+      expect(result.articles[0].matchReason).toContain('Title match');
+      expect(result.articles[0].matchReason).toContain('acordion -> accordion');
+    });
+
+    it('should not match unrelated words that share the same letters', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(mockIndex)
+      });
+
+      // Same letters as "accordion", but not a typo of it
+      const result = await searchAccessibilityArticles({
+        query: 'nidroacc',
+        maxResults: 10,
+        includeContent: false
+      });
+
+      expect(result.articles).toHaveLength(0);
+      expect(result.totalFound).toBe(0);
     });
 
     it('should search within content when includeContent is true', async () => {
@@ -129,9 +155,14 @@ A breadcrumb trail consists of a list of links to the parent pages of the curren
 
       const result = await searchAccessibilityArticles(input);
 
-      expect(result.articles.length).toBeGreaterThan(0);
+      expect(result.articles.map(article => article.title)).toEqual([
+        'Accordion Pattern (Sections With Show/Hide Functionality)',
+        'Breadcrumb Pattern', // "ARIA Roles" heading matches part of the query
+        'Date Picker Dialog Example' // Only the path contains "aria"
+      ]);
       expect(result.articles[0].matchReason).toBe('Content match');
       expect(result.articles[0].snippet).toContain('aria-expanded');
+      expect(result.articles[0].relevanceScore).toBeGreaterThan(result.articles[1].relevanceScore!);
     });
 
     it('should search for multiple words in content', async () => {
@@ -155,14 +186,67 @@ A breadcrumb trail consists of a list of links to the parent pages of the curren
 
       const result = await searchAccessibilityArticles(input);
 
-      expect(result.articles.length).toBeGreaterThan(0);
-      // Should find content matches or title matches
-      const hasContentMatch = result.articles.some(article =>
-        article.matchReason?.includes('Content match') || article.matchReason?.includes('Title match'));
-      expect(hasContentMatch).toBe(true);
+      // Only the accordion article has a "Keyboard Interaction" section
+      expect(result.articles).toHaveLength(1);
+      expect(result.articles[0].title).toBe('Accordion Pattern (Sections With Show/Hide Functionality)');
+      expect(result.articles[0].matchReason).toBe('Heading match');
+      expect(result.articles[0].snippet).toContain('Keyboard Interaction');
+    });
+
+    it('should return a snippet for each matching section with the matched words', async () => {
+      mockSource(mockArticleContent, { 'Accordion Pattern': mockIndex['Accordion Pattern (Sections With Show/Hide Functionality)'] });
+
+      const result = await searchAccessibilityArticles({ query: 'panel focus', maxResults: 10, includeContent: true, maxSnippets: 2 });
+
+      const [best, next] = result.articles[0].snippets!;
+      expect(best.heading).toBe('Keyboard Interaction');
+      expect(best.matches.map(match => best.text.slice(match.start, match.end))).toEqual(['focus', 'focus', 'panel']);
+      expect(next).toMatchObject({ heading: 'ARIA Roles and Properties', anchor: '#aria-roles-and-properties' });
+      expect(result.articles[0].snippet).toBe(`Keyboard Interaction\n${best.text}`);
+    });
+
+    it('should rank title matches above content-only matches', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(mockIndex)
+      });
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, text: () => Promise.resolve(mockArticleContent) })
+        .mockResolvedValueOnce({ ok: true, text: () => Promise.resolve(mockBreadcrumbContent) })
+        .mockResolvedValueOnce({ ok: true, text: () => Promise.resolve('Press the button to open the date picker dialog.') });
+
+      const result = await searchAccessibilityArticles({
+        query: 'dialog button',
+        maxResults: 10,
+        includeContent: true
+      });
+
+      expect(result.articles.map(article => article.title)).toEqual([
+        'Date Picker Dialog Example',
+        'Accordion Pattern (Sections With Show/Hide Functionality)'
+      ]);
+      expect(result.articles[0].matchReason).toBe('Title match');
+      expect(result.articles[0].relevanceScore).toBe(1);
+    });
+
+    it('should expand everyday terms to APG names before ranking', async () => {
+      mockFetch.mockResolvedValue({ ok: true, json: () => Promise.resolve(mockIndex) });
+
+      const expanded = await searchAccessibilityArticles({ query: 'popup calendar', maxResults: 10, includeContent: false });
+      const literal = await searchAccessibilityArticles({
+        query: 'popup calendar', maxResults: 10, includeContent: false, expandSynonyms: false
+      });
+
+      expect(expanded.articles[0].title).toBe('Date Picker Dialog Example');
+      expect(expanded.expansions).toEqual([
+        { term: 'popup', synonyms: ['dialog', 'menu button'] },
+        { term: 'calendar', synonyms: ['datepicker', 'grid'] }
+      ]);
+      expect(literal.articles).toEqual([]);
+      expect(literal.expansions).toBeUndefined();
     });
 
-            it('should limit results based on maxResults', async () => {
+    it('should limit results based on maxResults', async () => {
       mockFetch.mockResolvedValueOnce({
         ok: true,
         json: () => Promise.resolve(mockIndex)
@@ -218,12 +302,149 @@ A breadcrumb trail consists of a list of links to the parent pages of the curren
     });
   });
 
+  describe('content scanning', () => {
+    // Article fetches that never complete unless aborted
+    const hangingArticleFetch = (url: string, init?: { signal?: AbortSignal }) => {
+      if (url.endsWith('index.json')) {
+        return Promise.resolve({ ok: true, json: () => Promise.resolve(mockIndex) });
+      }
+      return new Promise((_, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(init.signal!.reason));
+      });
+    };
+
+    const useFetchConfig = (fetchConfig: { concurrency: number; requestTimeoutMs: number; searchTimeoutMs: number }) => {
+      setServerConfig({ ...loadConfig({ E11Y_DOCS_LOG_LEVEL: 'off' }), fetch: fetchConfig });
+      setDocSource(createGitHubSource());
+    };
+
+    it('should fetch article content in parallel up to the concurrency limit', async () => {
+      useFetchConfig({ concurrency: 2, requestTimeoutMs: 1000, searchTimeoutMs: 1000 });
+      let inFlight = 0;
+      let maxInFlight = 0;
+      mockFetch.mockImplementation(async (url: string) => {
+        if (url.endsWith('index.json')) {
+          return { ok: true, json: () => Promise.resolve(mockIndex) };
+        }
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        inFlight--;
+        return { ok: true, text: () => Promise.resolve(url.includes('accordion') ? mockArticleContent : mockBreadcrumbContent) };
+      });
+
+      const result = await searchAccessibilityArticles({ query: 'aria-expanded', maxResults: 10, includeContent: true });
+
+      expect(result.articles[0].title).toBe('Accordion Pattern (Sections With Show/Hide Functionality)');
+      expect(maxInFlight).toBe(2);
+      expect(result.timedOut).toBeUndefined();
+    });
+
+    it('should return title matches when the search deadline passes', async () => {
+      useFetchConfig({ concurrency: 3, requestTimeoutMs: 1000, searchTimeoutMs: 20 });
+      mockFetch.mockImplementation(hangingArticleFetch);
+
+      const result = await searchAccessibilityArticles({ query: 'accordion', maxResults: 10, includeContent: true });
+
+      expect(result.timedOut).toBe(true);
+      expect(result.articles[0].title).toBe('Accordion Pattern (Sections With Show/Hide Functionality)');
+      expect(result.unscannedArticles!.map(article => article.code)).toEqual(['TIMEOUT', 'TIMEOUT', 'TIMEOUT']);
+    });
+
+    it('should time out individual article fetches', async () => {
+      useFetchConfig({ concurrency: 3, requestTimeoutMs: 10, searchTimeoutMs: 1000 });
+      mockFetch.mockImplementation(hangingArticleFetch);
+
+      const result = await searchAccessibilityArticles({ query: 'breadcrumb', maxResults: 10, includeContent: true });
+
+      expect(result.timedOut).toBeUndefined();
+      expect(result.articles[0].title).toBe('Breadcrumb Pattern');
+      expect(result.unscannedArticles![0]).toMatchObject({ code: 'TIMEOUT', message: 'Timed out after 10ms' });
+    });
+
+    it('should report articles that could not be fetched', async () => {
+      useFetchConfig({ concurrency: 3, requestTimeoutMs: 1000, searchTimeoutMs: 1000 });
+      const index = {
+        'Tabs Pattern': 'docs/tabs.md',
+        'Menu Pattern': 'docs/menu.md',
+        'Tooltip Pattern': 'docs/tooltip.md'
+      };
+      mockFetch.mockImplementation(async (url: string) => {
+        if (url.endsWith('index.json')) {
+          return { ok: true, json: () => Promise.resolve(index) };
+        }
+        if (url.endsWith('menu.md')) {
+          return { ok: false, status: 429, statusText: 'Too Many Requests' };
+        }
+        if (url.endsWith('tooltip.md')) {
+          throw Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+        }
+        return { ok: true, text: () => Promise.resolve('# Tabs Pattern\n\nUse aria-selected on the active tab.') };
+      });
+
+      const result = await searchAccessibilityArticles({ query: 'aria-selected', maxResults: 10, includeContent: true });
+
+      expect(result.articles.map(article => article.title)).toEqual(['Tabs Pattern']);
+      expect(result.unscannedArticles).toEqual([
+        { title: 'Menu Pattern', path: 'docs/menu.md', code: 'RATE_LIMITED', message: 'Failed to fetch article: 429 Too Many Requests' },
+        { title: 'Tooltip Pattern', path: 'docs/tooltip.md', code: 'NETWORK', message: 'connect ECONNREFUSED' }
+      ]);
+    });
+
+    it('should stop outstanding fetches when the call is cancelled', async () => {
+      useFetchConfig({ concurrency: 1, requestTimeoutMs: 1000, searchTimeoutMs: 1000 });
+      mockFetch.mockImplementation(hangingArticleFetch);
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(new Error('Request cancelled')), 10);
+
+      await expect(searchAccessibilityArticles(
+        { query: 'accordion', maxResults: 10, includeContent: true },
+        { signal: controller.signal }
+      )).rejects.toThrow('Request cancelled');
+      // Only the index and the first article were requested
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('caching', () => {
+    const path = 'docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md';
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should read article content again once the cache TTL has passed', async () => {
+      mockSource('# Accordion\n\nOld text');
+      await getArticleContent(path);
+      mockSource('# Accordion\n\nNew text');
+
+      expect(await getArticleContent(path)).toContain('Old text');
+      vi.setSystemTime(Date.now() + 3600 * 1000);
+      expect(await getArticleContent(path)).toContain('New text');
+    });
+
+    it('should rescan the corpus once the cache TTL has passed, even if the index is unchanged', async () => {
+      mockSource('# Accordion\n\nOld text');
+      await searchAccessibilityArticles({ query: 'text', maxResults: 10, includeContent: true });
+      mockSource('# Accordion\n\nUpdated wording');
+
+      const stale = await searchAccessibilityArticles({ query: 'updated wording', maxResults: 10, includeContent: true });
+      expect(stale.articles).toHaveLength(0);
+
+      vi.setSystemTime(Date.now() + 3600 * 1000);
+      const fresh = await searchAccessibilityArticles({ query: 'updated wording', maxResults: 10, includeContent: true });
+      expect(fresh.articles).toHaveLength(3);
+      expect(fresh.articles[0].snippet).toContain('Updated wording');
+    });
+  });
+
   describe('fetchAccessibilityArticle', () => {
     it('should fetch article content successfully', async () => {
-      mockFetch.mockResolvedValueOnce({
-        ok: true,
-        text: () => Promise.resolve(mockArticleContent)
-      });
+      mockSource(mockArticleContent);
 
       const input: FetchArticleInput = {
         path: 'docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md',
@@ -241,15 +462,27 @@ A breadcrumb trail consists of a list of links to the parent pages of the curren
       expect(result.metadata?.contentType).toBe('text/markdown');
     });
 
+    it('should list related articles with the metadata', async () => {
+      mockSource('# Date Picker Dialog Example\n\nSee the [pattern](https://www.w3.org/WAI/ARIA/apg/patterns/accordion/).\n');
+
+      const result = await fetchAccessibilityArticle({
+        path: 'docs/www.w3.org_WAI_ARIA_apg_patterns_dialog-modal_examples_datepicker-dialog.md',
+        includeMetadata: true
+      });
+
+      expect(result.related).toEqual([{
+        title: 'Accordion Pattern (Sections With Show/Hide Functionality)',
+        path: 'docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md',
+        relation: 'link'
+      }]);
+    });
+
     it('should extract title from first heading if no frontmatter', async () => {
       const contentWithoutFrontmatter = `# Button Pattern
 
 This describes the button pattern.`;
 
-      mockFetch.mockResolvedValueOnce({
-        ok: true,
-        text: () => Promise.resolve(contentWithoutFrontmatter)
-      });
+      mockSource(contentWithoutFrontmatter, { ...mockIndex, 'Button Pattern': 'docs/button.md' });
 
       const input: FetchArticleInput = {
         path: 'docs/button.md',
@@ -261,9 +494,95 @@ This describes the button pattern.`;
       expect(result.title).toBe('Button Pattern');
       expect(result.metadata).toBeUndefined();
     });
+
+    it('should return only the requested sections', async () => {
+      mockSource(mockArticleContent);
+
+      const result = await fetchAccessibilityArticle({
+        path: 'docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md',
+        includeMetadata: true,
+        sections: ['keyboard-interaction', 'Styling']
+      });
+
+      expect(result.content).toMatch(/^## Keyboard Interaction/);
+      expect(result.content).toContain('Space or Enter');
+      expect(result.content).not.toContain('aria-controls');
+      expect(result.sections).toEqual([
+        { heading: 'Keyboard Interaction', anchor: '#keyboard-interaction', size: expect.any(Number) }
+      ]);
+      expect(result.missingSections).toEqual(['Styling']);
+      expect(result.metadata?.size).toBe(mockArticleContent.length);
+    });
+
+    it('should list available sections when none match', async () => {
+      mockSource(mockBreadcrumbContent);
+
+      await expect(fetchAccessibilityArticle({
+        path: 'docs/www.w3.org_WAI_ARIA_apg_patterns_breadcrumb.md',
+        includeMetadata: false,
+        sections: ['Keyboard Interaction']
+      })).rejects.toThrow('Available sections: Breadcrumb Pattern, ARIA Roles');
+    });
+  });
+
+  describe('resolveArticlePath', () => {
+    it('should accept paths, titles and file slugs', () => {
+      const accordion = 'docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md';
+
+      expect(resolveArticlePath(mockIndex, accordion)).toBe(accordion);
+      expect(resolveArticlePath(mockIndex, 'www.w3.org_WAI_ARIA_apg_patterns_accordion')).toBe(accordion);
+      expect(resolveArticlePath(mockIndex, 'accordion pattern (sections with show/hide functionality)')).toBe(accordion);
+      expect(resolveArticlePath(mockIndex, 'accordion')).toBe(accordion);
+      expect(resolveArticlePath(mockIndex, 'datepicker-dialog'))
+        .toBe('docs/www.w3.org_WAI_ARIA_apg_patterns_dialog-modal_examples_datepicker-dialog.md');
+    });
+
+    it('should reject paths outside the index with suggestions', () => {
+      expect(() => resolveArticlePath(mockIndex, '../../other-repo/README.md')).toThrow('Article not found');
+
+      try {
+        resolveArticlePath(mockIndex, 'docs/www.w3.org_WAI_ARIA_apg_patterns_acordion.md');
+        expect.fail('expected the path to be rejected');
+      } catch (error) {
+        expect(error).toMatchObject({ code: 'NOT_FOUND' });
+        expect((error as DocsError).suggestions![0]).toEqual({
+          title: 'Accordion Pattern (Sections With Show/Hide Functionality)',
+          path: 'docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md'
+        });
+      }
+    });
+
+    it('should fetch an article by title without requesting unknown paths', async () => {
+      mockSource(mockBreadcrumbContent);
+
+      const result = await fetchAccessibilityArticle({ path: 'Breadcrumb Pattern', includeMetadata: false });
+      await expect(fetchAccessibilityArticle({ path: 'docs/../package.json', includeMetadata: false }))
+        .rejects.toMatchObject({ code: 'NOT_FOUND' });
+
+      expect(result.path).toBe('docs/www.w3.org_WAI_ARIA_apg_patterns_breadcrumb.md');
+      expect(mockFetch.mock.calls.map(([url]) => url).filter(url => !url.endsWith('index.json'))).toEqual([
+        'https://raw.githubusercontent.com/vltansky/e11y-mcp/master/docs/www.w3.org_WAI_ARIA_apg_patterns_breadcrumb.md'
+      ]);
+    });
+  });
+
+  describe('getArticleOutline', () => {
+    it('should return headings with anchors and sizes', async () => {
+      mockSource(mockArticleContent);
+
+      const result = await getArticleOutline({ path: 'docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md' });
+
+      expect(result.outline.map(entry => [entry.level, entry.heading, entry.anchor])).toEqual([
+        [1, 'Accordion Pattern (Sections With Show/Hide Functionality)', '#accordion-pattern-sections-with-showhide-functionality'],
+        [2, 'ARIA Roles and Properties', '#aria-roles-and-properties'],
+        [2, 'Keyboard Interaction', '#keyboard-interaction']
+      ]);
+      expect(result.outline[0].size).toBeGreaterThan(result.outline[1].size + result.outline[2].size);
+      expect(result.totalSize).toBe(mockArticleContent.length);
+    });
   });
 
-    describe('listAccessibilityArticles', () => {
+  describe('listAccessibilityArticles', () => {
     it('should list all articles successfully', async () => {
       mockFetch
         .mockResolvedValueOnce({
@@ -287,5 +606,163 @@ This describes the button pattern.`;
 
       await expect(listAccessibilityArticles()).rejects.toThrow('Failed to fetch accessibility index');
     });
+
+    it('should keep the error code of a failed index request', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 404, statusText: 'Not Found' });
+
+      await expect(listAccessibilityArticles()).rejects.toMatchObject({
+        code: 'NOT_FOUND',
+        message: 'Failed to fetch accessibility index: Failed to fetch index: 404 Not Found'
+      });
+    });
+  });
+
+  describe('pagination', () => {
+    const longArticle = [
+      '# Long Example',
+      '',
+      ...Array.from({ length: 6 }, (_, i) => [`## Part ${i + 1}`, '', 'text '.repeat(80).trim(), '']).flat()
+    ].join('\n');
+    const longIndex = { ...mockIndex, 'Long Example': 'docs/long.md', 'Other Example': 'docs/other.md' };
+
+    it('should fetch a long article in chunks with a cursor', async () => {
+      mockSource(longArticle, longIndex);
+
+      const path = 'docs/long.md';
+      const chunks: string[] = [];
+      let cursor: string | undefined;
+      let totalChunks = 0;
+      do {
+        const result = await fetchAccessibilityArticle({ path, includeMetadata: true, maxChars: 1000, cursor });
+        chunks.push(result.content);
+        totalChunks = result.pagination!.totalChunks;
+        expect(result.pagination!.totalSize).toBe(longArticle.length);
+        expect(result.metadata!.size).toBe(longArticle.length);
+        cursor = result.pagination!.nextCursor;
+      } while (cursor);
+
+      expect(chunks).toHaveLength(totalChunks);
+      expect(chunks.join('')).toBe(longArticle);
+      // Each chunk after the first starts at a heading
+      chunks.slice(1).forEach(chunk => expect(chunk).toMatch(/^## Part/));
+    });
+
+    it('should keep the section selection across chunks', async () => {
+      mockSource(longArticle, longIndex);
+
+      const first = await fetchAccessibilityArticle({
+        path: 'docs/long.md', includeMetadata: false, sections: ['Part 2', 'Part 3'], maxChars: 500
+      });
+      const second = await fetchAccessibilityArticle({
+        path: 'docs/long.md', includeMetadata: false, cursor: first.pagination!.nextCursor
+      });
+
+      expect(first.content).toMatch(/^## Part 2/);
+      expect(second.content).toMatch(/^## Part 3/);
+      expect(second.pagination).toMatchObject({ chunk: 2, totalChunks: 2 });
+      expect(second.pagination!.nextCursor).toBeUndefined();
+    });
+
+    it('should reject cursors for another article or from another tool', async () => {
+      mockSource(longArticle, longIndex);
+      const { pagination } = await fetchAccessibilityArticle({ path: 'docs/long.md', includeMetadata: false, maxChars: 1000 });
+
+      await expect(fetchAccessibilityArticle({ path: 'docs/other.md', includeMetadata: false, cursor: pagination!.nextCursor }))
+        .rejects.toThrow('Cursor belongs to a different article');
+      await expect(fetchAccessibilityArticle({ path: 'docs/long.md', includeMetadata: false, cursor: 'bogus' }))
+        .rejects.toMatchObject({ code: 'INVALID_INPUT', message: 'Invalid cursor' });
+    });
+
+    it('should page through search results', async () => {
+      mockFetch.mockResolvedValue({ ok: true, json: () => Promise.resolve(mockIndex) });
+
+      const first = await searchAccessibilityArticles({ query: 'pattern', maxResults: 2, includeContent: false });
+      const second = await searchAccessibilityArticles({
+        query: 'pattern', maxResults: 2, includeContent: false, cursor: first.nextCursor
+      });
+
+      expect(first.articles).toHaveLength(2);
+      expect(first.offset).toBe(0);
+      expect(second.offset).toBe(2);
+      expect(second.articles).toHaveLength(first.totalFound - 2);
+      expect(second.nextCursor).toBeUndefined();
+      expect(second.articles.map(a => a.path)).not.toContain(first.articles[0].path);
+
+      await expect(searchAccessibilityArticles({ query: 'other', maxResults: 2, includeContent: false, cursor: first.nextCursor }))
+        .rejects.toThrow('Cursor belongs to a different query');
+    });
+
+    it('should page through the article list', async () => {
+      mockFetch.mockResolvedValue({ ok: true, json: () => Promise.resolve(mockIndex) });
+
+      const first = await listAccessibilityArticles({ maxResults: 2 });
+      const second = await listAccessibilityArticles({ cursor: first.nextCursor });
+
+      expect(first.articles.map(a => a.title)).toEqual([
+        'Accordion Pattern (Sections With Show/Hide Functionality)',
+        'Breadcrumb Pattern'
+      ]);
+      expect(second.articles.map(a => a.title)).toEqual(['Date Picker Dialog Example']);
+      expect(second).toMatchObject({ offset: 2, totalCount: 3 });
+      expect(second.nextCursor).toBeUndefined();
+    });
+  });
+
+  describe('taxonomy', () => {
+    const facetIndex = {
+      ...mockIndex,
+      'Modal Dialog Example': 'docs/www.w3.org_WAI_ARIA_apg_patterns_dialog-modal_examples_dialog.md',
+      'Dialog (Modal) Pattern': 'docs/www.w3.org_WAI_ARIA_apg_patterns_dialog-modal.md',
+      'Developing a Keyboard Interface': 'docs/www.w3.org_WAI_ARIA_apg_practices_keyboard-interface.md'
+    };
+
+    beforeEach(() => {
+      mockFetch.mockResolvedValue({ ok: true, json: () => Promise.resolve(facetIndex) });
+    });
+
+    it('should classify and filter search results', async () => {
+      const all = await searchAccessibilityArticles({ query: 'dialog', maxResults: 10, includeContent: false });
+      const examples = await searchAccessibilityArticles({ query: 'dialog', maxResults: 10, includeContent: false, kind: 'example' });
+
+      expect(all.articles.find(article => article.title === 'Dialog (Modal) Pattern'))
+        .toMatchObject({ kind: 'pattern', pattern: 'dialog-modal', site: 'w3.org' });
+      expect(examples.articles.map(article => article.title).sort()).toEqual(['Date Picker Dialog Example', 'Modal Dialog Example']);
+      expect(examples.totalFound).toBe(2);
+    });
+
+    it('should reject a search cursor used with other filters', async () => {
+      const first = await searchAccessibilityArticles({ query: 'dialog', maxResults: 1, includeContent: false, kind: 'example' });
+
+      await expect(searchAccessibilityArticles({ query: 'dialog', maxResults: 1, includeContent: false, cursor: first.nextCursor }))
+        .rejects.toThrow('Cursor belongs to a different query');
+    });
+
+    it('should list a pattern with its examples', async () => {
+      const result = await listAccessibilityArticles({ pattern: 'Dialog (Modal)', hierarchy: true });
+
+      expect(result.articles.map(article => article.title)).toEqual([
+        'Dialog (Modal) Pattern',
+        'Date Picker Dialog Example',
+        'Modal Dialog Example'
+      ]);
+      expect(result.hierarchy).toEqual([{
+        pattern: 'dialog-modal',
+        path: 'docs/www.w3.org_WAI_ARIA_apg_patterns_dialog-modal.md',
+        examples: [
+          'docs/www.w3.org_WAI_ARIA_apg_patterns_dialog-modal_examples_datepicker-dialog.md',
+          'docs/www.w3.org_WAI_ARIA_apg_patterns_dialog-modal_examples_dialog.md'
+        ]
+      }]);
+    });
+
+    it('should keep the filter and layout across list pages', async () => {
+      const first = await listAccessibilityArticles({ maxResults: 3, hierarchy: true, site: 'w3.org' });
+      const second = await listAccessibilityArticles({ cursor: first.nextCursor });
+
+      expect(first.hierarchy!.map(group => group.pattern)).toEqual(['accordion', 'breadcrumb', 'dialog-modal']);
+      expect(second.articles.map(article => article.kind)).toEqual(['example', 'example', 'practice']);
+      expect(second.hierarchy).toEqual([{ pattern: 'dialog-modal', examples: expect.any(Array) }]);
+      expect(second.totalCount).toBe(6);
+    });
   });
-});
\ No newline at end of file
+});
@@ -6,21 +6,58 @@
  */
 
 import { z } from 'zod';
+import { loadConfig, PRIMARY_SOURCE_NAME, type ServerConfig } from '../config.js';
+import { createDocSource, type AccessibilityIndex, type DocSource, type SourceFailure } from '../sources/doc-source.js';
+import { articleSourceName, createFederatedSource, sourceNames } from '../sources/federated-source.js';
+import { linkSignals, mapWithConcurrency } from '../utils/concurrency.js';
+import { decodeCursor, encodeCursor } from '../utils/cursor.js';
+import { DocsError, toDocsError, wrapError, type ErrorCode, type Suggestion } from '../utils/errors.js';
+import { createHttpCache } from '../utils/http-cache.js';
+import { logEvent, recordFetchFailure, setLogLevel } from '../utils/diagnostics.js';
+import { expandQuery, type QueryExpansion } from '../utils/synonyms.js';
+import { extractCodeBlocks, normalizeLanguage } from '../utils/code-blocks.js';
+import { extractSnippets, type Snippet } from '../utils/snippets.js';
+import { chunkMarkdown, matchFrontmatter, parseSections, selectSections, slugify, splitMarkdown } from '../utils/markdown.js';
+import {
+  buildSearchIndex,
+  type IndexedDocument,
+  type SearchField,
+  type SearchHit,
+  type SearchIndex
+} from '../utils/search-index.js';
+import { findLinkedArticles } from '../utils/link-graph.js';
+import {
+  ARTICLE_KINDS,
+  classifyArticle,
+  findPatternFamily,
+  matchesTaxonomy,
+  type ArticleKind,
+  type TaxonomyFilter
+} from '../utils/taxonomy.js';
+
+export type { AccessibilityIndex, DocSource, SourceFailure } from '../sources/doc-source.js';
 
 // Types for accessibility documentation
 export interface AccessibilityArticle {
   title: string;
   path: string;
+  kind?: ArticleKind;
+  /** Pattern the article documents or demonstrates */
+  pattern?: string;
+  site?: string;
   url?: string;
+  /** Name of the documentation source the article comes from */
   source?: string;
   lastUpdated?: string;
   relevanceScore?: number;
   matchReason?: string;
+  /** Best snippet as text, preceded by its section heading */
   snippet?: string;
-}
-
-export interface AccessibilityIndex {
-  [title: string]: string;
+  /** Sections that matched the query, most relevant first, with the offsets of the matched words */
+  snippets?: Snippet[];
+  /** Number of fenced code blocks, in searches for articles with code */
+  codeBlocks?: number;
+  codeLanguages?: string[];
 }
 
 // Enhanced search result with content analysis
@@ -29,223 +66,746 @@ interface SearchResult {
   path: string;
   relevanceScore: number;
   matchReason: string;
-  snippet?: string;
+  /** Indexed terms of the query found in the article */
+  matchedTerms: string[];
 }
 
+// Snippets per search result unless the caller asks for fewer or more
+const DEFAULT_SNIPPETS = 3;
+
+// Smallest chunk size for paginated fetches, so one chunk holds at least a paragraph or two
+export const MIN_CHUNK_CHARS = 500;
+
+// Largest page of search results
+export const MAX_SEARCH_RESULTS = 20;
+
+// Facets shared by search and list, also used by the MCP tool definitions
+export const taxonomyFilterShape = {
+  kind: z.enum(ARTICLE_KINDS).optional().describe('Only articles of this kind: "pattern" (APG pattern pages), "example" (pattern examples), "practice" (practice guides) or "other"'),
+  pattern: z.string().optional().describe('Only the pattern page and examples of this pattern, e.g. "dialog-modal" or "Accordion"'),
+  site: z.string().optional().describe('Only articles taken from this site, e.g. "w3.org"')
+};
+
+// Source filter accepted by every tool
+export const sourceFilterShape = {
+  source: z.string().optional().describe('Only use articles of this documentation source: "e11y" or a name configured in E11Y_DOCS_SOURCES. Paths of other sources start with the source name, e.g. "handbook:docs/buttons.md"')
+};
+
 // Input schemas - keeping it simple with practical parameters
 const searchQuerySchema = z.object({
-  query: z.string().describe('Search query to find relevant accessibility articles (supports fuzzy matching)'),
-  maxResults: z.number().min(1).max(20).optional().default(10).describe('Maximum number of results to return (1-20)'),
-  includeContent: z.boolean().optional().default(true).describe('Search within article content for better results')
+  query: z.string().describe('Search query to find relevant accessibility articles (ranked full-text search, tolerates typos)'),
+  maxResults: z.number().min(1).max(MAX_SEARCH_RESULTS).optional().default(10).describe(`Maximum number of results to return (1-${MAX_SEARCH_RESULTS})`),
+  includeContent: z.boolean().optional().default(true).describe('Search within article content for better results'),
+  cursor: z.string().optional().describe('Cursor from a previous response to get the next page of results'),
+  expandSynonyms: z.boolean().optional().describe('Also search for the APG names of everyday terms, e.g. "dialog" for "modal" (default: true)'),
+  withCode: z.boolean().optional().describe('Only articles with fenced code examples (searches content)'),
+  codeLanguage: z.string().optional().describe('Only articles with code in this language, e.g. "javascript"; implies withCode'),
+  maxSnippets: z.number().int().min(1).max(5).optional().describe('Maximum number of snippets per result (1-5, default: 3)'),
+  ...taxonomyFilterShape,
+  ...sourceFilterShape
 });
 
 const fetchArticleSchema = z.object({
-  path: z.string().describe('Path to the accessibility article (from search results)'),
-  includeMetadata: z.boolean().optional().default(true).describe('Include article metadata in the response')
+  path: z.string().describe('Path, title or file slug of the accessibility article (from search results)'),
+  includeMetadata: z.boolean().optional().default(true).describe('Include article metadata in the response'),
+  sections: z.array(z.string()).optional().describe('Only return these sections, selected by heading text or anchor slug'),
+  maxChars: z.number().int().min(MIN_CHUNK_CHARS).optional().describe('Return at most this many characters (about 4 per token), cut at heading or paragraph boundaries'),
+  cursor: z.string().optional().describe('Cursor from a previous response to fetch the next chunk'),
+  ...sourceFilterShape
+});
+
+const listArticlesSchema = z.object({
+  maxResults: z.number().min(1).optional().describe('Maximum number of articles per page (default: all)'),
+  cursor: z.string().optional().describe('Cursor from a previous response to get the next page'),
+  hierarchy: z.boolean().optional().describe('Order articles by pattern and group each pattern with its examples'),
+  ...taxonomyFilterShape,
+  ...sourceFilterShape
+});
+
+const articleOutlineSchema = z.object({
+  path: z.string().describe('Path, title or file slug of the accessibility article (from search results)'),
+  ...sourceFilterShape
 });
 
 export type SearchQueryInput = z.infer<typeof searchQuerySchema>;
 export type FetchArticleInput = z.infer<typeof fetchArticleSchema>;
+export type ArticleOutlineInput = z.infer<typeof articleOutlineSchema>;
+export type ListArticlesInput = z.infer<typeof listArticlesSchema>;
+
+// Facets and source selected by search and list
+type ArticleFilter = TaxonomyFilter & { source?: string };
+
+// Code required by a search: any code block, or one in the given language
+interface CodeFilter {
+  language?: string;
+}
 
-// Cache for article content to avoid repeated fetches
-const contentCache = new Map<string, string>();
+// Pagination state carried in the opaque cursors
+interface SearchCursor {
+  query: string;
+  filter: ArticleFilter;
+  code?: CodeFilter;
+  offset: number;
+}
+
+interface ArticleCursor {
+  path: string;
+  sections?: string[];
+  maxChars: number;
+  chunk: number;
+  /** Size of the paginated content, to detect articles that changed in between */
+  size: number;
+}
+
+interface ListCursor {
+  offset: number;
+  maxResults: number;
+  filter: ArticleFilter;
+  hierarchy?: boolean;
+}
+
+// Index and article content of the whole documentation set
+export interface Corpus {
+  index: AccessibilityIndex;
+  /** Content by path; articles that could not be fetched are missing */
+  contents: Map<string, string>;
+  /** Articles whose content could not be fetched, with the reason */
+  failures: ArticleFailure[];
+  /** True when the search deadline passed before every article was fetched */
+  timedOut: boolean;
+}
+
+// An article left out of a corpus
+export interface ArticleFailure {
+  path: string;
+  code: ErrorCode;
+  message: string;
+}
+
+// A successful read of the index, for server_status
+export interface IndexRead {
+  /** ISO timestamp */
+  fetchedAt: string;
+  durationMs: number;
+  articles: number;
+  version: string;
+}
+
+// Per-call options that are not part of the tool input
+export interface ToolCallOptions {
+  /** Cancels outstanding fetches, e.g. the MCP request's abort signal */
+  signal?: AbortSignal;
+}
+
+// In-process cache for article content, fresh for the configured TTL; the source's HTTP cache persists it across restarts
+const contentCache = new Map<string, { content: string; fetchedAt: number }>();
+
+// Content cache lookups since the cache was last cleared
+const contentCacheStats = { hits: 0, misses: 0 };
+
+// Most recent successful index read
+let lastIndexRead: IndexRead | undefined;
+
+// Last complete corpus, reused while the index is unchanged and its content is within the cache TTL
+let corpusCache: { key: string; corpus: Corpus; loadedAt: number } | undefined;
+
+// Version of the docs the caches hold; a new commit of a branch invalidates them
+let cachedVersion: string | undefined;
+
+// Structures built from a corpus (search index, term indexes), computed once per corpus
+const corpusDerivations = new WeakMap<Corpus, Map<string, unknown>>();
+
+// Active configuration and documentation source, created from the environment on first use
+let serverConfig: ServerConfig | undefined;
+let docSource: DocSource | undefined;
 
 /**
- * Calculate fuzzy similarity between two strings using a simple algorithm
+ * Get the configuration the tools run with
  */
-function calculateSimilarity(str1: string, str2: string): number {
-  const s1 = str1.toLowerCase();
-  const s2 = str2.toLowerCase();
+export function getServerConfig(): ServerConfig {
+  if (!serverConfig) {
+    serverConfig = loadConfig();
+    setLogLevel(serverConfig.log.level);
+  }
+  return serverConfig;
+}
 
-  // Exact match gets highest score
-  if (s1 === s2) return 1.0;
+/**
+ * Replace the configuration (the documentation source is recreated on next use)
+ */
+export function setServerConfig(config: ServerConfig): void {
+  serverConfig = config;
+  setLogLevel(config.log.level);
+  docSource = undefined;
+  resetCaches();
+}
 
-  // Check if one contains the other
-  if (s1.includes(s2) || s2.includes(s1)) {
-    return 0.8;
+/**
+ * Get the documentation source all tools read from
+ */
+export function getDocSource(): DocSource {
+  if (!docSource) {
+    const config = getServerConfig();
+    const cache = createHttpCache(config.cache);
+    const primary = createDocSource(config.source, cache);
+    docSource = config.sources.length > 0
+      ? createFederatedSource(primary, config.sources.map(({ name, source }) => ({ name, source: createDocSource(source, cache) })))
+      : primary;
   }
+  return docSource;
+}
 
-  // Simple character overlap scoring
-  const chars1 = new Set(s1.split(''));
-  const chars2 = new Set(s2.split(''));
-  const intersection = new Set([...chars1].filter(x => chars2.has(x)));
-  const union = new Set([...chars1, ...chars2]);
+/**
+ * Replace the documentation source (clears cached article content)
+ */
+export function setDocSource(source: DocSource): void {
+  docSource = source;
+  resetCaches();
+}
 
-  return intersection.size / union.size;
+function resetCaches(): void {
+  contentCache.clear();
+  contentCacheStats.hits = 0;
+  contentCacheStats.misses = 0;
+  corpusCache = undefined;
+  cachedVersion = undefined;
+  lastIndexRead = undefined;
 }
 
 /**
- * Extract relevant snippet from content around the match
+ * Content cache usage and the last index read, for server_status
  */
-function extractSnippet(content: string, query: string, maxLength: number = 200): string {
-  const queryLower = query.toLowerCase();
-  const contentLower = content.toLowerCase();
+export function getCorpusStatus(): {
+  index?: IndexRead;
+  contentCache: { entries: number; characters: number; hits: number; misses: number };
+} {
+  let characters = 0;
+  for (const { content } of contentCache.values()) {
+    characters += content.length;
+  }
+  return {
+    ...(lastIndexRead ? { index: lastIndexRead } : {}),
+    contentCache: { entries: contentCache.size, characters, ...contentCacheStats }
+  };
+}
+
+/**
+ * Version of the docs responses come from, e.g. "vltansky/e11y-mcp@<commit> (master)"
+ */
+export function getCorpusVersion(): string {
+  return getDocSource().getVersion();
+}
+
+/**
+ * Check a source name against the configured sources
+ */
+function checkSourceName(source: string): string {
+  const names = sourceNames(getDocSource());
+  const name = source.trim().toLowerCase();
+  if (!names.includes(name)) {
+    throw new DocsError('INVALID_INPUT', `Unknown source "${source}". Available sources: ${names.join(', ')}`);
+  }
+  return name;
+}
 
-  // Find the position of the query in the content
-  const index = contentLower.indexOf(queryLower);
-  if (index === -1) {
-    // If not found, return beginning of content
-    return content.substring(0, maxLength) + (content.length > maxLength ? '...' : '');
+/**
+ * Fail when the source a call is limited to was left out of the last index read
+ */
+function checkSourceAvailable(name: string): void {
+  const failure = getDocSource().getUnavailableSources?.().find(unavailable => unavailable.source === name);
+  if (failure) {
+    throw new DocsError('SOURCE_UNAVAILABLE', failure.message);
   }
+}
+
+/**
+ * Extra sources missing from the results of a call over every source
+ */
+export function reportUnavailableSources(source?: string): { unavailableSources?: SourceFailure[] } {
+  const unavailable = source ? [] : getDocSource().getUnavailableSources?.() ?? [];
+  return unavailable.length > 0 ? { unavailableSources: unavailable } : {};
+}
 
-  // Extract context around the match
-  const start = Math.max(0, index - 50);
-  const end = Math.min(content.length, index + query.length + 150);
-  let snippet = content.substring(start, end);
+/**
+ * Narrow an index to the articles of one source (all articles without a source)
+ */
+export function selectSource(index: AccessibilityIndex, source?: string): AccessibilityIndex {
+  if (!source) {
+    return index;
+  }
+  const name = checkSourceName(source);
+  checkSourceAvailable(name);
+  return Object.fromEntries(Object.entries(index).filter(([, path]) => articleSourceName(path) === name));
+}
 
-  // Add ellipsis if we're not at the beginning/end
-  if (start > 0) snippet = '...' + snippet;
-  if (end < content.length) snippet = snippet + '...';
+/**
+ * Add the version of the docs a tool result came from
+ */
+export function withCorpusVersion<T extends object>(result: T): T & { corpusVersion: string } {
+  return { ...result, corpusVersion: getCorpusVersion() };
+}
 
-  return snippet;
+/**
+ * The documentation source behind a source name (the primary source without one)
+ */
+export function getNamedSource(source?: string): { name: string; source: DocSource } {
+  const docSource = getDocSource();
+  const name = source ? checkSourceName(source) : PRIMARY_SOURCE_NAME;
+  return { name, source: docSource.members?.find(member => member.name === name)?.source ?? docSource };
 }
 
 /**
- * Fetch the accessibility documentation index from the remote repository
+ * Fetch the accessibility documentation index from the configured source
  */
-async function fetchAccessibilityIndex(): Promise<AccessibilityIndex> {
+export async function fetchAccessibilityIndex(signal?: AbortSignal): Promise<AccessibilityIndex> {
+  const timeout = linkSignals([signal], getServerConfig().fetch.requestTimeoutMs);
+  const started = performance.now();
   try {
-    const response = await fetch('https://raw.githubusercontent.com/vltansky/e11y-mcp/master/docs/index.json');
-    if (!response.ok) {
-      throw new Error(`Failed to fetch index: ${response.status} ${response.statusText}`);
+    const source = getDocSource();
+    const index = await source.fetchIndex({ signal: timeout.signal });
+
+    // Article content read at another version is stale
+    const version = source.getVersion();
+    if (cachedVersion !== undefined && version !== cachedVersion) {
+      contentCache.clear();
+      corpusCache = undefined;
     }
-    return await response.json();
+    cachedVersion = version;
+
+    lastIndexRead = {
+      fetchedAt: new Date().toISOString(),
+      durationMs: Math.round(performance.now() - started),
+      articles: Object.keys(index).length,
+      version
+    };
+    logEvent('debug', 'index_fetch', { ...lastIndexRead });
+    return index;
   } catch (error) {
-    throw new Error(`Failed to fetch accessibility index: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    const wrapped = wrapError(error, 'Failed to fetch accessibility index');
+    // Calls cancelled by the client are not failures of the source
+    if (!signal?.aborted) {
+      recordFetchFailure({ operation: 'index', code: wrapped.code, message: wrapped.message });
+    }
+    throw wrapped;
+  } finally {
+    timeout.dispose();
   }
 }
 
 /**
- * Fetch article content with caching
+ * Fetch article content with caching and a per-request timeout
  */
-async function fetchArticleContent(path: string): Promise<string> {
-  if (contentCache.has(path)) {
-    return contentCache.get(path)!;
+async function fetchArticleContent(path: string, signal?: AbortSignal): Promise<string> {
+  const cached = contentCache.get(path);
+  if (cached && Date.now() - cached.fetchedAt < getServerConfig().cache.ttlMs) {
+    contentCacheStats.hits++;
+    return cached.content;
   }
+  contentCacheStats.misses++;
+  return await readArticle(path, signal);
+}
 
-  const rawUrl = `https://raw.githubusercontent.com/vltansky/e11y-mcp/master/${path}`;
+/**
+ * Fetch the content of many articles in parallel, bounded by the configured
+ * concurrency and search deadline. Articles that fail, or are not fetched
+ * before the deadline, are reported as failures instead of contents.
+ */
+async function fetchArticleContents(paths: string[], signal?: AbortSignal): Promise<{
+  contents: Map<string, string>;
+  failures: ArticleFailure[];
+  timedOut: boolean;
+}> {
+  const { concurrency, searchTimeoutMs } = getServerConfig().fetch;
+  const deadline = linkSignals([signal], searchTimeoutMs);
+  const contents = new Map<string, string>();
+  const failures = new Map<string, ArticleFailure>();
 
   try {
-    const response = await fetch(rawUrl);
-    if (!response.ok) {
-      return ''; // Return empty string if content can't be fetched
+    await mapWithConcurrency(paths, concurrency, async path => {
+      try {
+        const content = await fetchArticleContent(path, deadline.signal);
+        if (!deadline.signal.aborted) {
+          contents.set(path, content);
+        }
+      } catch (error) {
+        // Requests cut short by the deadline are reported below
+        if (deadline.signal.aborted) return;
+        const { code, message } = toDocsError(error);
+        failures.set(path, { path, code, message });
+      }
+    }, deadline.signal);
+  } catch (error) {
+    // A cancelled call stops everything; hitting the deadline keeps partial results
+    signal?.throwIfAborted();
+    if (!deadline.signal.aborted) throw error;
+  } finally {
+    deadline.dispose();
+  }
+
+  const timedOut = deadline.signal.aborted && !signal?.aborted;
+  if (timedOut) {
+    for (const path of paths) {
+      if (!contents.has(path) && !failures.has(path)) {
+        failures.set(path, { path, code: 'TIMEOUT', message: 'Search deadline passed before the article was fetched' });
+      }
     }
+  }
+
+  return { contents, failures: [...failures.values()], timedOut };
+}
+
+/**
+ * Load the index and the content of every article. A complete corpus is
+ * reused by later calls until the index changes or the cache TTL passes.
+ */
+export async function loadCorpus(signal?: AbortSignal): Promise<Corpus> {
+  const index = await fetchAccessibilityIndex(signal);
+  const key = JSON.stringify(index);
+  if (corpusCache?.key === key && Date.now() - corpusCache.loadedAt < getServerConfig().cache.ttlMs) {
+    return corpusCache.corpus;
+  }
+
+  const paths = Object.values(index);
+  const { contents, failures, timedOut } = await fetchArticleContents(paths, signal);
+
+  const corpus: Corpus = { index, contents, failures, timedOut };
+  if (failures.length === 0) {
+    // Fresh articles come from the content cache, so the corpus is only as fresh as the oldest of them
+    const loadedAt = paths.reduce((oldest, path) => Math.min(oldest, contentCache.get(path)?.fetchedAt ?? oldest), Date.now());
+    corpusCache = { key, corpus, loadedAt };
+  }
+  return corpus;
+}
+
+/**
+ * List the articles of a corpus that could not be scanned, with their titles
+ */
+export function unscannedArticles(corpus: Corpus): (ArticleFailure & { title: string })[] {
+  const titles = new Map(Object.entries(corpus.index).map(([title, path]) => [path, title]));
+  return corpus.failures.map(failure => ({ title: titles.get(failure.path) ?? failure.path, ...failure }));
+}
+
+/**
+ * Build a structure from a corpus once and reuse it for the lifetime of the corpus
+ */
+export function deriveFromCorpus<T>(corpus: Corpus, name: string, build: (corpus: Corpus) => T): T {
+  let derivations = corpusDerivations.get(corpus);
+  if (!derivations) {
+    derivations = new Map();
+    corpusDerivations.set(corpus, derivations);
+  }
+  if (!derivations.has(name)) {
+    derivations.set(name, build(corpus));
+  }
+  return derivations.get(name) as T;
+}
+
+// Number of "did you mean" entries offered for an unknown article
+const MAX_SUGGESTIONS = 5;
+
+// Number of related articles listed with a fetched article
+const MAX_RELATED = 5;
+
+/**
+ * Slug of an article's file name, e.g. "wwww3org_wai_aria_apg_patterns_accordion"
+ */
+function fileSlug(path: string): string {
+  return slugify(path.slice(path.lastIndexOf('/') + 1).replace(/\.md$/i, ''));
+}
+
+/**
+ * Index entries closest to a reference that matched nothing, ranked by title and path search
+ */
+export function suggestArticles(index: AccessibilityIndex, reference: string): Suggestion[] {
+  const corpus: Corpus = { index, contents: new Map(), failures: [], timedOut: false };
+  const titles = new Map(Object.entries(index).map(([title, path]) => [path, title]));
+  return buildCorpusSearchIndex(corpus)
+    .search(reference)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(hit => ({ title: titles.get(hit.id)!, path: hit.id }));
+}
+
+/**
+ * Resolve an article reference to a path in the index. Accepts the index path
+ * (with or without "docs/" and ".md"), the article title, or the end of the
+ * file name ("accordion", "dialog-modal"). Anything else is rejected, so only
+ * indexed articles are ever read from the source.
+ */
+export function resolveArticlePath(index: AccessibilityIndex, reference: string): string {
+  const entries = Object.entries(index);
+  const paths = new Set(entries.map(([, path]) => path));
+  const trimmed = reference.trim().replace(/^\.?\//, '');
+  // Paths of extra sources start with the source name, e.g. "handbook:docs/buttons.md"
+  const [, prefix, rest] = trimmed.match(/^((?:[a-z0-9][a-z0-9-]*:)?)(.*)$/is)!;
+
+  for (const candidate of [trimmed, `${prefix}docs/${rest}`, `${trimmed}.md`, `${prefix}docs/${rest}.md`]) {
+    if (paths.has(candidate)) return candidate;
+  }
+
+  const wanted = slugify(trimmed.replace(/\.md$/i, ''));
+  if (wanted) {
+    const byTitle = entries.find(([title]) => slugify(title) === wanted);
+    if (byTitle) return byTitle[1];
+
+    // The shortest match is the pattern page rather than one of its examples
+    const bySlug = [...paths]
+      .filter(path => fileSlug(path) === wanted || fileSlug(path).endsWith(`_${wanted}`))
+      .sort((a, b) => a.length - b.length)[0];
+    if (bySlug) return bySlug;
+  }
+
+  throw new DocsError('NOT_FOUND', `Article not found: ${reference}`, {
+    suggestions: suggestArticles(index, trimmed.replace(/^docs\//, ''))
+  });
+}
 
-    const content = await response.text();
-    contentCache.set(path, content);
+/**
+ * A short list of articles related to one article, without loading the corpus
+ */
+function findRelatedArticles(index: AccessibilityIndex, path: string, content: string): {
+  title: string;
+  path: string;
+  relation: 'pattern' | 'example' | 'link';
+}[] {
+  const titles = new Map(Object.entries(index).map(([title, entryPath]) => [entryPath, title]));
+  const family = findPatternFamily([...titles.keys()], path);
+  const related = [
+    ...(family.patternPath ? [{ path: family.patternPath, relation: 'pattern' as const }] : []),
+    ...family.examples.map(example => ({ path: example, relation: 'example' as const })),
+    ...findLinkedArticles(index, path, content).map(link => ({ path: link, relation: 'link' as const }))
+  ];
+
+  const seen = new Set<string>();
+  return related
+    .filter(entry => !seen.has(entry.path) && seen.add(entry.path))
+    .slice(0, MAX_RELATED)
+    .map(entry => ({ title: titles.get(entry.path)!, ...entry }));
+}
+
+/**
+ * Read an article from the source (always fresh) and cache it for future searches
+ */
+async function readArticle(path: string, signal?: AbortSignal): Promise<string> {
+  const timeout = linkSignals([signal], getServerConfig().fetch.requestTimeoutMs);
+  try {
+    const content = await getDocSource().fetchArticle(path, { signal: timeout.signal });
+    contentCache.set(path, { content, fetchedAt: Date.now() });
     return content;
   } catch (error) {
-    return ''; // Return empty string on error
+    // Reads cut short by the caller (a cancelled call or a search deadline) are not failures of the source
+    if (!signal?.aborted) {
+      const { code, message } = toDocsError(error);
+      recordFetchFailure({ operation: 'article', path, code, message });
+    }
+    throw error;
+  } finally {
+    timeout.dispose();
   }
 }
 
 /**
- * Enhanced search for relevant accessibility articles with fuzzy matching and content search
+ * Get article content, from the cache when possible; rejects when the article cannot be read
  */
-export async function searchAccessibilityArticles(input: SearchQueryInput): Promise<{
-  articles: AccessibilityArticle[];
-  totalFound: number;
-  query: string;
-}> {
-  const index = await fetchAccessibilityIndex();
-  const query = input.query.toLowerCase();
-  const results: SearchResult[] = [];
+export async function getArticleContent(path: string, signal?: AbortSignal): Promise<string> {
+  return await fetchArticleContent(path, signal);
+}
 
-  // Search through titles and paths first
-  for (const [title, path] of Object.entries(index)) {
-    const titleLower = title.toLowerCase();
-    const pathLower = path.toLowerCase();
+/**
+ * Describe why an article matched, based on its strongest field
+ */
+function describeMatch(hit: SearchHit): string {
+  const fieldReasons: Record<SearchField, string> = {
+    title: 'Title match',
+    headings: 'Heading match',
+    path: 'Path match',
+    body: 'Content match'
+  };
+  const reason = fieldReasons[hit.bestField];
+  return hit.fuzzyMatches.length > 0 ? `${reason} (fuzzy: ${hit.fuzzyMatches.join(', ')})` : reason;
+}
 
-    let relevanceScore = 0;
-    let matchReason = '';
-    let snippet = '';
+/**
+ * Index titles, paths and any loaded content of the corpus for full-text search
+ */
+function buildCorpusSearchIndex(corpus: Corpus): SearchIndex {
+  const documents: IndexedDocument[] = Object.entries(corpus.index).map(([title, path]) => {
+    const content = corpus.contents.get(path);
+    return {
+      id: path,
+      title,
+      path,
+      ...(content ? splitMarkdown(content) : {})
+    };
+  });
+  return buildSearchIndex(documents);
+}
 
-    // Title matching (highest priority)
-    const titleSimilarity = calculateSimilarity(query, titleLower);
-    if (titleSimilarity > 0.3) {
-      relevanceScore = titleSimilarity * 1.0; // Full weight for title matches
-      matchReason = 'Title match';
-    }
+/**
+ * Count the code blocks of every loaded article and list their languages
+ */
+function buildCodeSummaries(corpus: Corpus): Map<string, { blocks: number; languages: string[] }> {
+  const summaries = new Map<string, { blocks: number; languages: string[] }>();
+  for (const [path, content] of corpus.contents) {
+    const blocks = extractCodeBlocks(content);
+    const languages = blocks.map(block => block.language).filter((language): language is string => Boolean(language));
+    summaries.set(path, { blocks: blocks.length, languages: [...new Set(languages)].sort() });
+  }
+  return summaries;
+}
 
-    // Path matching (medium priority)
-    const pathSimilarity = calculateSimilarity(query, pathLower);
-    if (pathSimilarity > 0.3 && pathSimilarity > titleSimilarity) {
-      relevanceScore = pathSimilarity * 0.7; // Reduced weight for path matches
-      matchReason = 'Path match';
-    }
+/**
+ * Snippets of the sections that matched the query, with the best one also as plain text
+ */
+function describeSnippets(content: string | undefined, terms: string[], maxSnippets?: number): Pick<AccessibilityArticle, 'snippet' | 'snippets'> {
+  const snippets = content ? extractSnippets(content, terms, { maxSnippets: maxSnippets ?? DEFAULT_SNIPPETS }) : [];
+  if (snippets.length === 0) {
+    return {};
+  }
+  const [best] = snippets;
+  return { snippet: best.heading ? `${best.heading}\n${best.text}` : best.text, snippets };
+}
 
-    // Content search if enabled and no strong title/path match
-    if (input.includeContent && (relevanceScore < 0.6)) {
-      const content = await fetchArticleContent(path);
-      if (content) {
-        const contentLower = content.toLowerCase();
-
-        // Check for exact query match in content
-        if (contentLower.includes(query)) {
-          const contentScore = 0.5; // Base score for content match
-          if (contentScore > relevanceScore) {
-            relevanceScore = contentScore;
-            matchReason = 'Content match';
-            snippet = extractSnippet(content, query);
-          }
-        }
+function describeCode(summary: { blocks: number; languages: string[] }): Pick<AccessibilityArticle, 'codeBlocks' | 'codeLanguages'> {
+  return { codeBlocks: summary.blocks, codeLanguages: summary.languages };
+}
 
-        // Check for individual words in content
-        const queryWords = query.split(/\s+/).filter(word => word.length > 2);
-        if (queryWords.length > 0) {
-          const wordMatches = queryWords.filter(word => contentLower.includes(word));
-          if (wordMatches.length > 0) {
-            const wordScore = (wordMatches.length / queryWords.length) * 0.4;
-            if (wordScore > relevanceScore) {
-              relevanceScore = wordScore;
-              matchReason = `Content match (${wordMatches.length}/${queryWords.length} words)`;
-              snippet = extractSnippet(content, wordMatches[0]);
-            }
-          }
-        }
-      }
-    }
+/**
+ * The facets and source set in a tool input, in a stable order so cursors can compare them
+ */
+function pickArticleFilter(input: ArticleFilter): ArticleFilter {
+  return {
+    ...(input.kind ? { kind: input.kind } : {}),
+    ...(input.pattern ? { pattern: input.pattern } : {}),
+    ...(input.site ? { site: input.site } : {}),
+    ...(input.source ? { source: checkSourceName(input.source) } : {})
+  };
+}
 
-    // Include results with minimum relevance threshold
-    if (relevanceScore > 0.2) {
-      results.push({
-        title,
-        path,
-        relevanceScore,
-        matchReason,
-        snippet
-      });
-    }
+/**
+ * Check an article path against the facets and source of a filter
+ */
+function matchesArticleFilter(path: string, filter: ArticleFilter): boolean {
+  return matchesTaxonomy(classifyArticle(path), filter) && (!filter.source || articleSourceName(path) === filter.source);
+}
+
+/**
+ * Ranked full-text search for relevant accessibility articles (BM25 with fuzzy matching)
+ */
+export async function searchAccessibilityArticles(input: SearchQueryInput, options: ToolCallOptions = {}): Promise<{
+  articles: AccessibilityArticle[];
+  totalFound: number;
+  query: string;
+  offset: number;
+  nextCursor?: string;
+  timedOut?: boolean;
+  /** Articles only matched by title and path because their content could not be fetched */
+  unscannedArticles?: (ArticleFailure & { title: string })[];
+  /** Extra sources left out because their index could not be read */
+  unavailableSources?: SourceFailure[];
+  /** Synonyms added to the query before ranking */
+  expansions?: QueryExpansion[];
+}> {
+  const filter = pickArticleFilter(input);
+  const code: CodeFilter | undefined = input.codeLanguage
+    ? { language: normalizeLanguage(input.codeLanguage) }
+    : input.withCode ? {} : undefined;
+  const page = input.cursor ? decodeCursor<SearchCursor>(input.cursor, 'search') : undefined;
+  if (page && (page.query !== input.query || JSON.stringify(page.filter) !== JSON.stringify(filter) ||
+    JSON.stringify(page.code) !== JSON.stringify(code))) {
+    throw new DocsError('INVALID_INPUT', 'Cursor belongs to a different query');
+  }
+  const offset = page?.offset ?? 0;
+
+  // Finding code needs the content, so a code filter always searches it
+  let corpus: Corpus;
+  let searchIndex: SearchIndex;
+  if (input.includeContent || code) {
+    corpus = await loadCorpus(options.signal);
+    searchIndex = deriveFromCorpus(corpus, 'search', buildCorpusSearchIndex);
+  } else {
+    corpus = { index: await fetchAccessibilityIndex(options.signal), contents: new Map(), failures: [], timedOut: false };
+    searchIndex = buildCorpusSearchIndex(corpus);
+  }
+  if (filter.source) {
+    checkSourceAvailable(filter.source);
   }
 
-  // Sort by relevance score (highest first)
-  results.sort((a, b) => b.relevanceScore - a.relevanceScore);
+  const { contents, timedOut } = corpus;
+  const entries = Object.entries(corpus.index);
+  const titles = new Map(entries.map(([title, path]) => [path, title]));
+  const results: SearchResult[] = [];
+  const expansions = input.expandSynonyms === false ? [] : expandQuery(input.query, getServerConfig().search.synonyms);
+  const rankedQuery = [input.query, ...expansions.flatMap(expansion => expansion.synonyms)].join(' ');
+  const codeSummaries = code ? deriveFromCorpus(corpus, 'code-blocks', buildCodeSummaries) : undefined;
+  const hasCode = (path: string) => {
+    const summary = codeSummaries?.get(path);
+    return Boolean(summary && summary.blocks > 0 && (!code?.language || summary.languages.includes(code.language)));
+  };
+  const hits = searchIndex.search(rankedQuery)
+    .filter(hit => matchesArticleFilter(hit.id, filter) && (!code || hasCode(hit.id)));
+  const topScore = hits[0]?.score ?? 0;
+
+  for (const hit of hits) {
+    results.push({
+      title: titles.get(hit.id)!,
+      path: hit.id,
+      // Scores are relative to the best match so they stay comparable across queries
+      relevanceScore: hit.score / topScore,
+      matchReason: describeMatch(hit),
+      matchedTerms: hit.matchedTerms
+    });
+  }
 
-  // Apply limit and convert to output format
-  const limitedResults = results.slice(0, input.maxResults);
+  // Apply the page window and convert to output format
+  const limitedResults = results.slice(offset, offset + input.maxResults);
+  const nextOffset = offset + input.maxResults;
+  const source = getDocSource();
   const articles: AccessibilityArticle[] = limitedResults.map(result => ({
     title: result.title,
     path: result.path,
-    url: `https://github.com/vltansky/e11y-mcp/blob/master/${result.path}`,
+    ...classifyArticle(result.path),
+    url: source.getArticleUrl(result.path),
+    source: articleSourceName(result.path),
     relevanceScore: Math.round(result.relevanceScore * 100) / 100, // Round to 2 decimal places
     matchReason: result.matchReason,
-    snippet: result.snippet
+    ...describeSnippets(contents.get(result.path), result.matchedTerms, input.maxSnippets),
+    ...(codeSummaries ? describeCode(codeSummaries.get(result.path)!) : {})
   }));
 
   return {
     articles,
     totalFound: results.length,
-    query: input.query
+    query: input.query,
+    offset,
+    ...(nextOffset < results.length
+      ? { nextCursor: encodeCursor('search', { query: input.query, filter, ...(code ? { code } : {}), offset: nextOffset }) }
+      : {}),
+    // When the deadline hit, some articles were only matched by title and path
+    ...(timedOut ? { timedOut } : {}),
+    ...(corpus.failures.length > 0 ? { unscannedArticles: unscannedArticles(corpus) } : {}),
+    ...reportUnavailableSources(filter.source),
+    ...(expansions.length > 0 ? { expansions } : {})
   };
 }
 
-/**
- * Fetch the content of a specific accessibility article
- */
-export async function fetchAccessibilityArticle(input: FetchArticleInput): Promise<{
+// Article returned by fetchAccessibilityArticle
+export interface FetchedArticle {
   title?: string;
   path: string;
   content: string;
+  sections?: { heading: string; anchor: string; size: number }[];
+  missingSections?: string[];
+  /** A few related articles: the parent pattern, examples, then linked pages (with metadata) */
+  related?: { title: string; path: string; relation: 'pattern' | 'example' | 'link' }[];
+  pagination?: {
+    /** 1-based number of the returned chunk */
+    chunk: number;
+    totalChunks: number;
+    /** Size of the article (or selected sections) across all chunks */
+    totalSize: number;
+    offset: number;
+    nextCursor?: string;
+  };
   metadata?: {
     url?: string;
     source?: string;
@@ -253,27 +813,30 @@ export async function fetchAccessibilityArticle(input: FetchArticleInput): Promi
     contentType: string;
     size: number;
   };
-}> {
-  // Construct the raw GitHub URL
-  const rawUrl = `https://raw.githubusercontent.com/vltansky/e11y-mcp/master/${input.path}`;
+}
 
-  try {
-    const response = await fetch(rawUrl);
-    if (!response.ok) {
-      if (response.status === 404) {
-        throw new Error(`Article not found: ${input.path}`);
-      }
-      throw new Error(`Failed to fetch article: ${response.status} ${response.statusText}`);
-    }
+/**
+ * Fetch the content of a specific accessibility article
+ */
+export async function fetchAccessibilityArticle(input: FetchArticleInput, options: ToolCallOptions = {}): Promise<FetchedArticle> {
+  const source = getDocSource();
+  const articleIndex = await fetchAccessibilityIndex(options.signal);
+  const path = resolveArticlePath(selectSource(articleIndex, input.source), input.path);
+  const page = input.cursor ? decodeCursor<ArticleCursor>(input.cursor, 'article') : undefined;
+  if (page && page.path !== path) {
+    throw new DocsError('INVALID_INPUT', 'Cursor belongs to a different article');
+  }
 
-    const content = await response.text();
+  try {
+    // A cursor keeps the section selection and chunk size of the first request
+    const selectors = page ? page.sections : input.sections;
+    const maxChars = page?.maxChars ?? input.maxChars;
 
-    // Cache the content for future searches
-    contentCache.set(input.path, content);
+    const content = await readArticle(path, options.signal);
 
     // Extract title from markdown frontmatter or first heading
     let title: string | undefined;
-    const frontmatterMatch = content.match(/^---\s*\n([\s\S]*?)\n---/);
+    const frontmatterMatch = matchFrontmatter(content);
     if (frontmatterMatch) {
       const titleMatch = frontmatterMatch[1].match(/title:\s*["']?([^"'\n]+)["']?/);
       if (titleMatch) {
@@ -289,8 +852,8 @@ export async function fetchAccessibilityArticle(input: FetchArticleInput): Promi
       }
     }
 
-    const result: any = {
-      path: input.path,
+    const result: FetchedArticle = {
+      path,
       content
     };
 
@@ -298,9 +861,58 @@ export async function fetchAccessibilityArticle(input: FetchArticleInput): Promi
       result.title = title;
     }
 
+    // Narrow the content down to the requested sections
+    if (selectors && selectors.length > 0) {
+      const { sections, missing } = selectSections(content, selectors);
+      if (sections.length === 0) {
+        const available = parseSections(content).map(section => section.text).join(', ');
+        throw new DocsError('NOT_FOUND', `Section not found: ${selectors.join(', ')}. Available sections: ${available}`);
+      }
+
+      result.content = sections.map(section => content.slice(section.offset, section.end).trimEnd()).join('\n\n');
+      result.sections = sections.map(section => ({
+        heading: section.text,
+        anchor: `#${section.slug}`,
+        size: section.size
+      }));
+      if (missing.length > 0) {
+        result.missingSections = missing;
+      }
+    }
+
+    // Return one chunk of long content, with a cursor for the next
+    if (maxChars) {
+      const text = result.content;
+      const chunks = chunkMarkdown(text, maxChars);
+      const index = page?.chunk ?? 0;
+      if (page && page.size !== text.length) {
+        throw new DocsError('INVALID_INPUT', 'Article changed since the cursor was issued; fetch it again without a cursor');
+      }
+      if (index >= chunks.length) {
+        throw new DocsError('INVALID_INPUT', 'Invalid cursor');
+      }
+
+      result.content = text.slice(chunks[index].start, chunks[index].end);
+      result.pagination = {
+        chunk: index + 1,
+        totalChunks: chunks.length,
+        totalSize: text.length,
+        offset: chunks[index].start
+      };
+      if (index + 1 < chunks.length) {
+        result.pagination.nextCursor = encodeCursor('article', {
+          path,
+          ...(selectors ? { sections: selectors } : {}),
+          maxChars,
+          chunk: index + 1,
+          size: text.length
+        });
+      }
+    }
+
     if (input.includeMetadata) {
       result.metadata = {
-        url: `https://github.com/vltansky/e11y-mcp/blob/master/${input.path}`,
+        url: source.getArticleUrl(path),
         contentType: 'text/markdown',
         size: content.length
       };
@@ -317,31 +929,129 @@ export async function fetchAccessibilityArticle(input: FetchArticleInput): Promi
           result.metadata.lastUpdated = dateMatch[1].trim();
         }
       }
+
+      const related = findRelatedArticles(articleIndex, path, content);
+      if (related.length > 0) {
+        result.related = related;
+      }
     }
 
     return result;
   } catch (error) {
-    throw new Error(`Failed to fetch article content: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw wrapError(error, 'Failed to fetch article content');
   }
 }
 
 /**
- * Get all available accessibility articles from the index
+ * Get the heading outline of an article, with anchors and section sizes
  */
-export async function listAccessibilityArticles(): Promise<{
+export async function getArticleOutline(input: ArticleOutlineInput, options: ToolCallOptions = {}): Promise<{
+  path: string;
+  outline: { level: number; heading: string; anchor: string; size: number }[];
+  totalSize: number;
+}> {
+  const path = resolveArticlePath(selectSource(await fetchAccessibilityIndex(options.signal), input.source), input.path);
+  let content: string;
+  try {
+    content = await readArticle(path, options.signal);
+  } catch (error) {
+    throw wrapError(error, 'Failed to fetch article content');
+  }
+
+  return {
+    path,
+    outline: parseSections(content).map(section => ({
+      level: section.level,
+      heading: section.text,
+      anchor: `#${section.slug}`,
+      size: section.size
+    })),
+    totalSize: content.length
+  };
+}
+
+// Sort order of article kinds within a pattern group
+const KIND_ORDER: ArticleKind[] = ['pattern', 'example', 'practice', 'other'];
+
+/**
+ * Group articles under the pattern they document, the pattern page first
+ */
+function buildHierarchy(articles: AccessibilityArticle[]): {
+  pattern: string;
+  /** Path of the pattern page, when it is in the list */
+  path?: string;
+  /** Paths of the pattern's examples */
+  examples: string[];
+}[] {
+  const groups = new Map<string, { pattern: string; path?: string; examples: string[] }>();
+  for (const article of articles) {
+    if (!article.pattern) continue;
+    const group = groups.get(article.pattern) ?? { pattern: article.pattern, examples: [] };
+    if (article.kind === 'pattern') {
+      group.path = article.path;
+    } else {
+      group.examples.push(article.path);
+    }
+    groups.set(article.pattern, group);
+  }
+  return [...groups.values()];
+}
+
+/**
+ * Get all available accessibility articles from the index, optionally
+ * filtered by facet and grouped by pattern
+ */
+export async function listAccessibilityArticles(input: ListArticlesInput = {}, options: ToolCallOptions = {}): Promise<{
   articles: AccessibilityArticle[];
   totalCount: number;
+  offset: number;
+  nextCursor?: string;
+  /** Patterns on this page with their examples (with `hierarchy`) */
+  hierarchy?: ReturnType<typeof buildHierarchy>;
+  /** Extra sources left out because their index could not be read */
+  unavailableSources?: SourceFailure[];
 }> {
-  const index = await fetchAccessibilityIndex();
+  const page = input.cursor ? decodeCursor<ListCursor>(input.cursor, 'list') : undefined;
+  const offset = page?.offset ?? 0;
+  const maxResults = page?.maxResults ?? input.maxResults;
+  // A cursor keeps the filter and layout of the first request
+  const filter = page?.filter ?? pickArticleFilter(input);
+  const hierarchy = page ? page.hierarchy : input.hierarchy;
 
-  const articles: AccessibilityArticle[] = Object.entries(index).map(([title, path]) => ({
-    title,
-    path,
-    url: `https://github.com/vltansky/e11y-mcp/blob/master/${path}`
-  }));
+  const index = await fetchAccessibilityIndex(options.signal);
+  const source = getDocSource();
+  if (filter.source) {
+    checkSourceAvailable(filter.source);
+  }
+
+  const articles = Object.entries(index)
+    .map(([title, path]) => ({
+      title,
+      path,
+      ...classifyArticle(path),
+      url: source.getArticleUrl(path),
+      source: articleSourceName(path)
+    }))
+    .filter(article => matchesArticleFilter(article.path, filter));
+
+  articles.sort((a, b) => a.title.localeCompare(b.title));
+  if (hierarchy) {
+    // Keep each pattern's articles together, patterns in name order and articles without one last
+    articles.sort((a, b) =>
+      (a.pattern ?? '\uffff').localeCompare(b.pattern ?? '\uffff') ||
+      KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind));
+  }
+  const end = maxResults ? offset + maxResults : articles.length;
+  const pageArticles: AccessibilityArticle[] = articles.slice(offset, end);
 
   return {
-    articles: articles.sort((a, b) => a.title.localeCompare(b.title)),
-    totalCount: articles.length
+    articles: pageArticles,
+    totalCount: articles.length,
+    offset,
+    ...(maxResults && end < articles.length
+      ? { nextCursor: encodeCursor('list', { offset: end, maxResults, filter, ...(hierarchy ? { hierarchy } : {}) }) }
+      : {}),
+    ...(hierarchy ? { hierarchy: buildHierarchy(pageArticles) } : {}),
+    ...reportUnavailableSources(filter.source)
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,169 @@
+/*
+ * Tests for the APG pattern tools
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { getPatternSpec, resolvePatternPath } from './pattern-tools.js';
+import { parsePatternSpec } from '../utils/pattern-spec.js';
+import { useMockDocs } from '../testing/mock-docs.js';
+
+const mockIndex = {
+  "Accordion Pattern (Sections With Show/Hide Functionality)": "docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md",
+  "Breadcrumb Pattern": "docs/www.w3.org_WAI_ARIA_apg_patterns_breadcrumb.md",
+  "Tabs Pattern": "docs/www.w3.org_WAI_ARIA_apg_patterns_tabs.md",
+  "Date Picker Dialog Example": "docs/www.w3.org_WAI_ARIA_apg_patterns_dialog-modal_examples_datepicker-dialog.md"
+};
+
+const accordionContent = `---
+title: Accordion Pattern
+url: https://www.w3.org/WAI/ARIA/apg/patterns/accordion/
+date: 2025-07-20
+---
+
+# Accordion Pattern (Sections With Show/Hide Functionality)
+
+## ARIA Roles and Properties
+
+- **button**: The accordion header acts as a button
+- **aria-expanded**: Indicates if the panel is expanded
+- **aria-controls**: Associates the button with its panel
+
+## Keyboard Interaction
+
+- **Tab**: Moves focus to the next focusable element
+- **Space or Enter**: When focus is on an accordion header, toggles the display of the associated panel
+`;
+
+// Shaped like the published APG pages: prose bullets with links and nested keys
+const tabsContent = `# Tabs Pattern
+
+## Keyboard Interaction
+
+For the tab list:
+
+- Tab: When focus moves into the tab list, places focus on the active tab element.
+- When focus is on a tab element in a horizontal tab list:
+    - Left Arrow: moves focus to the previous tab.
+    - Right Arrow: moves focus to the next tab.
+- Home (Optional): Moves focus to the first tab.
+- Delete (Optional): If deletion is allowed, deletes the current tab.
+    It also moves focus to the next tab.
+
+## WAI-ARIA Roles, States, and Properties
+
+- The element that serves as the container for the set of tabs has role [tablist](https://w3c.github.io/aria/#tablist).
+- Each element that serves as a tab has role [tab](https://w3c.github.io/aria/#tab) and is contained within the element with role \`tablist\`.
+- Each element that contains the content panel for a \`tab\` has role [tabpanel](https://w3c.github.io/aria/#tabpanel).
+- Each element with role \`tab\` has the property [aria-controls](https://w3c.github.io/aria/#aria-controls) referring to its associated \`tabpanel\` element.
+- The active tab element has the state [aria-selected](https://w3c.github.io/aria/#aria-selected) set to \`true\`.
+- If the tab list has a visible label, the tablist element has [aria-labelledby](https://w3c.github.io/aria/#aria-labelledby) set to a value that refers to the labelling element.
+- Optionally, the tablist element may have aria-orientation set to vertical.
+- Authors should make the content readable.
+`;
+
+const breadcrumbContent = `# Breadcrumb Pattern
+
+## ARIA Roles
+
+- **navigation**: Applied to the breadcrumb container
+`;
+
+describe('parsePatternSpec', () => {
+  it('should parse the bold bullet structure of the accordion article', () => {
+    const spec = parsePatternSpec(accordionContent);
+
+    expect(spec.roles).toEqual([{
+      role: 'button',
+      requiredAttributes: ['aria-expanded', 'aria-controls'],
+      optionalAttributes: [],
+      guidance: [
+        'button: The accordion header acts as a button',
+        'aria-expanded: Indicates if the panel is expanded',
+        'aria-controls: Associates the button with its panel'
+      ]
+    }]);
+    expect(spec.keyboard).toEqual([
+      { keys: ['Tab'], behavior: 'Moves focus to the next focusable element', optional: false },
+      {
+        keys: ['Space', 'Enter'],
+        behavior: 'When focus is on an accordion header, toggles the display of the associated panel',
+        optional: false
+      }
+    ]);
+    expect(spec.parsedSections).toEqual([
+      { kind: 'roles', heading: 'ARIA Roles and Properties', anchor: '#aria-roles-and-properties' },
+      { kind: 'keyboard', heading: 'Keyboard Interaction', anchor: '#keyboard-interaction' }
+    ]);
+    expect(spec.unparsedSections).toEqual([]);
+  });
+
+  it('should parse prose bullets with linked roles and attributes', () => {
+    const spec = parsePatternSpec(tabsContent);
+    const byRole = Object.fromEntries(spec.roles.map(role => [role.role, role]));
+
+    expect(Object.keys(byRole)).toEqual(['tablist', 'tab', 'tabpanel']);
+    expect(byRole.tab.requiredAttributes).toEqual(['aria-controls', 'aria-selected']);
+    expect(byRole.tablist.requiredAttributes).toEqual(['aria-labelledby']);
+    expect(byRole.tablist.optionalAttributes).toEqual(['aria-orientation']);
+    expect(spec.unparsedItems).toContain('Authors should make the content readable.');
+  });
+
+  it('should handle nested keys, optional keys and continuation lines', () => {
+    const spec = parsePatternSpec(tabsContent);
+
+    expect(spec.keyboard.map(key => key.keys.join('+'))).toEqual(['Tab', 'Left Arrow', 'Right Arrow', 'Home', 'Delete']);
+    expect(spec.keyboard.find(key => key.keys[0] === 'Home')!.optional).toBe(true);
+    expect(spec.keyboard.find(key => key.keys[0] === 'Delete')!.behavior).toBe(
+      'If deletion is allowed, deletes the current tab. It also moves focus to the next tab.'
+    );
+  });
+
+  it('should report missing sections', () => {
+    const spec = parsePatternSpec(breadcrumbContent);
+
+    expect(spec.roles.map(role => role.role)).toEqual(['navigation']);
+    expect(spec.unparsedSections).toEqual([{ kind: 'keyboard', reason: 'Section not found' }]);
+  });
+});
+
+describe('resolvePatternPath', () => {
+  it('should resolve pattern names, titles and paths', () => {
+    expect(resolvePatternPath(mockIndex, 'accordion')).toBe('docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md');
+    expect(resolvePatternPath(mockIndex, 'Tabs Pattern')).toBe('docs/www.w3.org_WAI_ARIA_apg_patterns_tabs.md');
+    expect(resolvePatternPath(mockIndex, 'breadcrumb pattern')).toBe('docs/www.w3.org_WAI_ARIA_apg_patterns_breadcrumb.md');
+    expect(resolvePatternPath(mockIndex, 'docs/www.w3.org_WAI_ARIA_apg_patterns_tabs.md'))
+      .toBe('docs/www.w3.org_WAI_ARIA_apg_patterns_tabs.md');
+  });
+
+  it('should reject unknown patterns', () => {
+    expect(() => resolvePatternPath(mockIndex, 'carousel')).toThrow('Pattern not found: carousel');
+  });
+
+  it('should suggest the closest patterns for a misspelled name', () => {
+    expect(() => resolvePatternPath(mockIndex, 'tabz')).toThrow(expect.objectContaining({
+      code: 'NOT_FOUND',
+      suggestions: [{ title: 'Tabs Pattern', path: 'docs/www.w3.org_WAI_ARIA_apg_patterns_tabs.md' }]
+    }));
+  });
+
+  it('should reject an empty name instead of matching every title', () => {
+    expect(() => resolvePatternPath(mockIndex, '')).toThrow(expect.objectContaining({ code: 'INVALID_INPUT' }));
+    expect(() => resolvePatternPath(mockIndex, '  ')).toThrow('Pattern name is empty');
+    expect(() => resolvePatternPath(mockIndex, 'pattern')).toThrow('Pattern not found: pattern');
+  });
+});
+
+describe('getPatternSpec', () => {
+  beforeEach(() => {
+    useMockDocs(mockIndex, () => accordionContent);
+  });
+
+  it('should return the spec with article details', async () => {
+    const result = await getPatternSpec({ pattern: 'accordion' });
+
+    expect(result.title).toBe('Accordion Pattern (Sections With Show/Hide Functionality)');
+    expect(result.path).toBe('docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md');
+    expect(result.url).toBe('https://github.com/vltansky/e11y-mcp/blob/master/docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md');
+    expect(result.roles[0].requiredAttributes).toEqual(['aria-expanded', 'aria-controls']);
+  });
+});
@@ -0,0 +1,106 @@
+/*
+ * APG Pattern Tools
+ *
+ * Tools that work with the structure of APG pattern articles rather than their
+ * raw markdown.
+ */
+
+import { z } from 'zod';
+import {
+  fetchAccessibilityIndex,
+  getArticleContent,
+  getDocSource,
+  selectSource,
+  sourceFilterShape,
+  suggestArticles,
+  type AccessibilityIndex,
+  type ToolCallOptions
+} from './e11y-tools.js';
+import { DocsError, wrapError } from '../utils/errors.js';
+import { parsePatternSpec, type PatternSpec } from '../utils/pattern-spec.js';
+import { normalizePatternName } from '../utils/taxonomy.js';
+
+const patternSpecSchema = z.object({
+  pattern: z.string().min(1).describe('Pattern name (e.g., "accordion", "tabs") or article path'),
+  ...sourceFilterShape
+});
+
+export type PatternSpecInput = z.infer<typeof patternSpecSchema>;
+
+// Path of a pattern page, capturing the pattern name
+const PATTERN_PAGE = /_patterns_([a-z0-9-]+)\.md$/i;
+
+/**
+ * Find the article for a pattern name such as "accordion" or "Dialog (Modal)"
+ */
+export function resolvePatternPath(index: AccessibilityIndex, pattern: string): string {
+  const trimmed = pattern.trim();
+  if (!trimmed) {
+    throw new DocsError('INVALID_INPUT', 'Pattern name is empty');
+  }
+
+  const entries = Object.entries(index);
+  if (entries.some(([, path]) => path === trimmed)) {
+    return trimmed;
+  }
+
+  // Pattern pages follow the "..._apg_patterns_<name>.md" convention
+  const slug = normalizePatternName(trimmed);
+  const byPath = entries.find(([, path]) => path.toLowerCase().endsWith(`_patterns_${slug}.md`));
+  if (byPath) {
+    return byPath[1];
+  }
+
+  // Fall back to the shortest pattern title containing the name
+  const name = trimmed.toLowerCase().replace(/\s*pattern$/, '');
+  const byTitle = entries
+    .filter(([title]) => name && title.toLowerCase().includes(name) && /pattern/i.test(title))
+    .sort(([a], [b]) => a.length - b.length)[0];
+  if (byTitle) {
+    return byTitle[1];
+  }
+
+  const patternPages = Object.fromEntries(entries.filter(([, path]) => PATTERN_PAGE.test(path)));
+  throw new DocsError('NOT_FOUND', `Pattern not found: ${pattern}`, {
+    suggestions: suggestArticles(patternPages, trimmed)
+  });
+}
+
+/**
+ * Names of the pattern pages in the index, e.g. "accordion", "dialog-modal"
+ */
+export function listPatternNames(index: AccessibilityIndex): string[] {
+  const names = Object.values(index)
+    .map(path => path.match(PATTERN_PAGE)?.[1].toLowerCase())
+    .filter((name): name is string => Boolean(name));
+  return [...new Set(names)].sort();
+}
+
+/**
+ * Extract roles, attributes and keyboard interactions from a pattern article
+ */
+export async function getPatternSpec(input: PatternSpecInput, options: ToolCallOptions = {}): Promise<PatternSpec & {
+  pattern: string;
+  title: string;
+  path: string;
+  url: string;
+}> {
+  const index = selectSource(await fetchAccessibilityIndex(options.signal), input.source);
+  const path = resolvePatternPath(index, input.pattern);
+  const title = Object.entries(index).find(([, entryPath]) => entryPath === path)![0];
+
+  let content: string;
+  try {
+    content = await getArticleContent(path, options.signal);
+  } catch (error) {
+    throw wrapError(error, 'Failed to fetch article content');
+  }
+
+  return {
+    pattern: input.pattern,
+    title,
+    path,
+    url: getDocSource().getArticleUrl(path),
+    ...parsePatternSpec(content)
+  };
+}
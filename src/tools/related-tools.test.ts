@@ -0,0 +1,66 @@
+/*
+ * Tests for the related article tools
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { getRelatedArticles } from './related-tools.js';
+import { useMockDocs } from '../testing/mock-docs.js';
+
+const mockIndex = {
+  'Dialog (Modal) Pattern': 'docs/www.w3.org_WAI_ARIA_apg_patterns_dialog-modal.md',
+  'Modal Dialog Example': 'docs/www.w3.org_WAI_ARIA_apg_patterns_dialog-modal_examples_dialog.md',
+  'Date Picker Dialog Example': 'docs/www.w3.org_WAI_ARIA_apg_patterns_dialog-modal_examples_datepicker-dialog.md',
+  'Developing a Keyboard Interface': 'docs/www.w3.org_WAI_ARIA_apg_practices_keyboard-interface.md'
+};
+
+const articles: Record<string, string> = {
+  [mockIndex['Dialog (Modal) Pattern']]: `---
+url: https://www.w3.org/WAI/ARIA/apg/patterns/dialog-modal/
+---
+
+# Dialog (Modal) Pattern
+
+See the [modal dialog example](examples/dialog/) and [keyboard guidance](../../practices/keyboard-interface/).
+`,
+  [mockIndex['Modal Dialog Example']]: '# Modal Dialog Example\n\nImplements the [dialog pattern](../../).\n',
+  [mockIndex['Date Picker Dialog Example']]: '# Date Picker Dialog Example\n\nA date picker.\n',
+  [mockIndex['Developing a Keyboard Interface']]: '# Developing a Keyboard Interface\n\nFocus management.\n'
+};
+
+describe('getRelatedArticles', () => {
+  beforeEach(() => {
+    useMockDocs(mockIndex, articles);
+  });
+
+  it('should return a pattern\'s examples and its links in both directions', async () => {
+    const result = await getRelatedArticles({ path: 'dialog-modal', maxResults: 20 });
+
+    expect(result).toMatchObject({ title: 'Dialog (Modal) Pattern', kind: 'pattern', pattern: 'dialog-modal' });
+    expect(result.parentPattern).toBeUndefined();
+    expect(result.examples.map(article => article.title)).toEqual(['Date Picker Dialog Example', 'Modal Dialog Example']);
+    expect(result.linksTo.map(article => article.title)).toEqual(['Modal Dialog Example', 'Developing a Keyboard Interface']);
+    expect(result.linkedFrom.map(article => article.title)).toEqual(['Modal Dialog Example']);
+  });
+
+  it('should return an example\'s pattern and sibling examples', async () => {
+    const result = await getRelatedArticles({ path: 'Date Picker Dialog Example', maxResults: 20 });
+
+    expect(result.parentPattern).toMatchObject({ title: 'Dialog (Modal) Pattern', kind: 'pattern' });
+    expect(result.examples.map(article => article.title)).toEqual(['Modal Dialog Example']);
+    expect(result.linksTo).toEqual([]);
+    expect(result.linkedFrom).toEqual([]);
+  });
+
+  it('should report pages linking to a practice guide', async () => {
+    const result = await getRelatedArticles({ path: 'docs/www.w3.org_WAI_ARIA_apg_practices_keyboard-interface.md', maxResults: 1 });
+
+    expect(result.kind).toBe('practice');
+    expect(result.examples).toEqual([]);
+    expect(result.linkedFrom).toEqual([{
+      title: 'Dialog (Modal) Pattern',
+      path: 'docs/www.w3.org_WAI_ARIA_apg_patterns_dialog-modal.md',
+      url: 'https://github.com/vltansky/e11y-mcp/blob/master/docs/www.w3.org_WAI_ARIA_apg_patterns_dialog-modal.md',
+      kind: 'pattern'
+    }]);
+  });
+});
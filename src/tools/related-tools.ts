@@ -0,0 +1,90 @@
+/*
+ * Related Article Tools
+ *
+ * Navigate between articles: a pattern and its examples (from the path
+ * conventions) and the cross-links between articles (from their content).
+ */
+
+import { z } from 'zod';
+import {
+  deriveFromCorpus,
+  getDocSource,
+  loadCorpus,
+  resolveArticlePath,
+  selectSource,
+  sourceFilterShape,
+  reportUnavailableSources,
+  unscannedArticles,
+  type ArticleFailure,
+  type SourceFailure,
+  type ToolCallOptions
+} from './e11y-tools.js';
+import { buildLinkGraph } from '../utils/link-graph.js';
+import { classifyArticle, findPatternFamily, type ArticleKind } from '../utils/taxonomy.js';
+
+const relatedArticlesSchema = z.object({
+  path: z.string().describe('Path, title or file slug of the article'),
+  maxResults: z.number().min(1).max(100).optional().default(20).describe('Maximum number of articles per relation (1-100)'),
+  ...sourceFilterShape
+});
+
+export type RelatedArticlesInput = z.infer<typeof relatedArticlesSchema>;
+
+export interface RelatedArticle {
+  title: string;
+  path: string;
+  url: string;
+  kind: ArticleKind;
+}
+
+/**
+ * Find a pattern's examples, the articles a page links to and the articles linking to it
+ */
+export async function getRelatedArticles(input: RelatedArticlesInput, options: ToolCallOptions = {}): Promise<{
+  title: string;
+  path: string;
+  kind: ArticleKind;
+  pattern?: string;
+  /** Pattern page of an example */
+  parentPattern?: RelatedArticle;
+  /** Examples of the pattern (other examples, for an example) */
+  examples: RelatedArticle[];
+  linksTo: RelatedArticle[];
+  linkedFrom: RelatedArticle[];
+  /** True when some articles could not be scanned for links in time */
+  timedOut?: boolean;
+  unscannedArticles?: (ArticleFailure & { title: string })[];
+  /** Extra sources left out because their index could not be read */
+  unavailableSources?: SourceFailure[];
+}> {
+  const corpus = await loadCorpus(options.signal);
+  const path = resolveArticlePath(selectSource(corpus.index, input.source), input.path);
+  const graph = deriveFromCorpus(corpus, 'links', ({ index, contents }) => buildLinkGraph(index, contents));
+
+  const source = getDocSource();
+  const titles = new Map(Object.entries(corpus.index).map(([title, entryPath]) => [entryPath, title]));
+  const describe = (articlePath: string): RelatedArticle => ({
+    title: titles.get(articlePath) ?? articlePath,
+    path: articlePath,
+    url: source.getArticleUrl(articlePath),
+    kind: classifyArticle(articlePath).kind
+  });
+  const limit = (paths: string[]) => paths.slice(0, input.maxResults).map(describe);
+
+  const { kind, pattern } = classifyArticle(path);
+  const family = findPatternFamily([...titles.keys()], path);
+
+  return {
+    title: titles.get(path)!,
+    path,
+    kind,
+    ...(pattern ? { pattern } : {}),
+    ...(family.patternPath ? { parentPattern: describe(family.patternPath) } : {}),
+    examples: limit(family.examples.sort((a, b) => titles.get(a)!.localeCompare(titles.get(b)!))),
+    linksTo: limit(graph.outgoing.get(path) ?? []),
+    linkedFrom: limit(graph.incoming.get(path) ?? []),
+    ...(corpus.timedOut ? { timedOut: true } : {}),
+    ...(corpus.failures.length > 0 ? { unscannedArticles: unscannedArticles(corpus) } : {}),
+    ...reportUnavailableSources(input.source)
+  };
+}
@@ -0,0 +1,183 @@
+/*
+ * Tests for the markdown renderers
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  renderArticle,
+  renderArticleList,
+  renderAudit,
+  renderOutline,
+  renderSearchResults
+} from './renderers.js';
+import { formatResponse } from '../utils/formatter.js';
+
+describe('formatResponse', () => {
+  it('should use the markdown renderer when one is given', () => {
+    expect(formatResponse({ a: 1 }, 'markdown', data => `a is ${data.a}`)).toBe('a is 1');
+  });
+
+  it('should fall back to a JSON block without a renderer', () => {
+    expect(formatResponse({ a: 1 }, 'markdown')).toBe('```json\n{\n  "a": 1\n}\n```');
+  });
+});
+
+describe('markdown renderers', () => {
+  it('should render search results as a ranked list with snippets', () => {
+    const markdown = renderSearchResults({
+      query: 'keyboard',
+      totalFound: 3,
+      offset: 0,
+      articles: [
+        {
+          title: 'Tabs Pattern',
+          path: 'docs/tabs.md',
+          relevanceScore: 1,
+          matchReason: 'Heading match',
+          snippet: '...## Keyboard Interaction\n- Tab: moves focus...'
+        },
+        { title: 'Menu Pattern', path: 'docs/menu.md', relevanceScore: 0.5, matchReason: 'Content match' }
+      ]
+    });
+
+    expect(markdown).toBe([
+      '# Search results for "keyboard"',
+      '',
+      'Showing 1-2 of 3 matching articles.',
+      '',
+      '1. **Tabs Pattern** (`docs/tabs.md`)',
+      '   Heading match, relevance 1.00',
+      '',
+      '   > ...## Keyboard Interaction',
+      '   > - Tab: moves focus...',
+      '',
+      '2. **Menu Pattern** (`docs/menu.md`)',
+      '   Content match, relevance 0.50'
+    ].join('\n'));
+  });
+
+  it('should render each snippet under its heading with the matched words in bold', () => {
+    const markdown = renderSearchResults({
+      query: 'focus',
+      totalFound: 1,
+      offset: 0,
+      articles: [{
+        title: 'Tabs Pattern',
+        path: 'docs/tabs.md',
+        relevanceScore: 1,
+        matchReason: 'Content match',
+        snippets: [
+          { heading: 'Keyboard Interaction', text: '- **Tab**: moves focus\n- Focus stays', matches: [{ start: 17, end: 22, term: 'focus' }, { start: 25, end: 30, term: 'focus' }] },
+          { text: 'Intro about **focus**...', matches: [{ start: 14, end: 19, term: 'focus' }] }
+        ]
+      }]
+    });
+
+    expect(markdown).toContain([
+      '   Content match, relevance 1.00',
+      '',
+      '   _Keyboard Interaction_',
+      '   > - **Tab**: moves **focus**',
+      '   > - **Focus** stays',
+      '',
+      '   > Intro about **focus**...'
+    ].join('\n'));
+  });
+
+  it('should render the raw article below a metadata header', () => {
+    const markdown = renderArticle({
+      title: 'Tabs Pattern',
+      path: 'docs/tabs.md',
+      content: '# Tabs Pattern\n\nContent with "quotes"\n',
+      metadata: { url: 'https://example.com/tabs', contentType: 'text/markdown', size: 38 }
+    });
+
+    expect(markdown).toBe([
+      '> **Tabs Pattern**',
+      '> Path: `docs/tabs.md`',
+      '> URL: https://example.com/tabs',
+      '> Size: 38 characters',
+      '',
+      '---',
+      '',
+      '# Tabs Pattern',
+      '',
+      'Content with "quotes"'
+    ].join('\n'));
+  });
+
+  it('should group the article list into tables', () => {
+    const markdown = renderArticleList({
+      totalCount: 3,
+      offset: 0,
+      articles: [
+        { title: 'Accordion Pattern', path: 'docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md' },
+        { title: 'Date Picker | Dialog Example', path: 'docs/www.w3.org_WAI_ARIA_apg_patterns_dialog-modal_examples_datepicker-dialog.md' },
+        { title: 'Getting Started', path: 'docs/getting-started.md' }
+      ]
+    });
+
+    expect(markdown).toContain('## Patterns (1)\n\n| Title | Path |\n| --- | --- |\n| Accordion Pattern |');
+    expect(markdown).toContain('## Examples (1)');
+    expect(markdown).toContain('| Date Picker \\| Dialog Example |');
+    expect(markdown.indexOf('## Other')).toBeGreaterThan(markdown.indexOf('## Examples'));
+  });
+
+  it('should nest examples under their pattern in the hierarchy view', () => {
+    const markdown = renderArticleList({
+      totalCount: 3,
+      offset: 0,
+      articles: [
+        { title: 'Dialog (Modal) Pattern', path: 'docs/dialog.md', kind: 'pattern', pattern: 'dialog-modal' },
+        { title: 'Date Picker Dialog Example', path: 'docs/datepicker.md', kind: 'example', pattern: 'dialog-modal' },
+        { title: 'Keyboard Interface', path: 'docs/keyboard.md', kind: 'practice' }
+      ],
+      hierarchy: [{ pattern: 'dialog-modal', path: 'docs/dialog.md', examples: ['docs/datepicker.md'] }]
+    });
+
+    expect(markdown).toContain([
+      '## Patterns (1)',
+      '',
+      '- **Dialog (Modal) Pattern** (`docs/dialog.md`)',
+      '  - Date Picker Dialog Example (`docs/datepicker.md`)'
+    ].join('\n'));
+    expect(markdown).toContain('## Practice Guides (1)');
+    expect(markdown).not.toContain('## Examples');
+  });
+
+  it('should indent the outline by heading level', () => {
+    const markdown = renderOutline({
+      path: 'docs/tabs.md',
+      totalSize: 100,
+      outline: [
+        { level: 1, heading: 'Tabs', anchor: '#tabs', size: 100 },
+        { level: 2, heading: 'Keyboard', anchor: '#keyboard', size: 40 }
+      ]
+    });
+
+    expect(markdown).toContain('- Tabs (`#tabs`, 100 characters)\n  - Keyboard (`#keyboard`, 40 characters)');
+  });
+
+  it('should render audit findings with citations and a keyboard checklist', () => {
+    const markdown = renderAudit({
+      pattern: 'accordion',
+      title: 'Accordion Pattern',
+      path: 'docs/accordion.md',
+      url: 'https://example.com/accordion',
+      elementsChecked: 2,
+      summary: { errors: 1, warnings: 0 },
+      findings: [{
+        severity: 'error',
+        rule: 'missing-attribute',
+        message: 'Element with role "button" is missing aria-controls',
+        element: { tag: 'button', line: 1, source: '<button>' },
+        citation: { path: 'docs/accordion.md', section: 'Roles', anchor: '#roles', url: 'https://example.com/accordion#roles' }
+      }],
+      keyboardChecks: ['Enter / Space: toggles the panel']
+    });
+
+    expect(markdown).toContain('- **error** `missing-attribute`: Element with role "button" is missing aria-controls (line 1, `<button>`)');
+    expect(markdown).toContain('  See [Roles](https://example.com/accordion#roles)');
+    expect(markdown).toContain('- [ ] Enter / Space: toggles the panel');
+  });
+});
@@ -0,0 +1,467 @@
+/*
+ * Markdown Renderers
+ *
+ * Render each tool's result as markdown for the "markdown" output mode, so
+ * article bodies and snippets are not escaped inside JSON strings.
+ */
+
+import type {
+  AccessibilityArticle,
+  SourceFailure,
+  fetchAccessibilityArticle,
+  getArticleOutline,
+  listAccessibilityArticles,
+  searchAccessibilityArticles
+} from './e11y-tools.js';
+import type { lookupAriaTerm } from './aria-tools.js';
+import type { auditMarkup } from './audit-tools.js';
+import type { getPatternSpec } from './pattern-tools.js';
+import type { getRelatedArticles, RelatedArticle } from './related-tools.js';
+import type { lookupWcagCriterion } from './wcag-tools.js';
+import type { compareCorpusVersions } from './version-tools.js';
+import type { getServerStatus } from './status-tools.js';
+import type { getCodeExamples } from './code-tools.js';
+import { PRIMARY_SOURCE_NAME } from '../config.js';
+import type { ErrorCode, Suggestion } from '../utils/errors.js';
+import type { Snippet } from '../utils/snippets.js';
+import { classifyArticle, type ArticleKind } from '../utils/taxonomy.js';
+
+type ResultOf<F extends (...args: never[]) => Promise<unknown>> = Awaited<ReturnType<F>>;
+
+/**
+ * Make text safe for a table cell
+ */
+function cell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+function table(headers: string[], rows: string[][]): string {
+  return [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(cell).join(' | ')} |`)
+  ].join('\n');
+}
+
+/**
+ * Articles from extra sources are labeled; the primary source is the default
+ */
+function isExtraSource(article: AccessibilityArticle): boolean {
+  return article.source !== undefined && article.source !== PRIMARY_SOURCE_NAME;
+}
+
+function quote(text: string): string {
+  return text.split('\n').map(line => `> ${line}`).join('\n');
+}
+
+/**
+ * Bold the matched words of a snippet, leaving words that are already emphasized alone
+ */
+function highlight(snippet: Snippet): string {
+  let text = snippet.text;
+  for (const match of [...snippet.matches].reverse()) {
+    if (text[match.start - 1] !== '*' && text[match.end] !== '*') {
+      text = `${text.slice(0, match.start)}**${text.slice(match.start, match.end)}**${text.slice(match.end)}`;
+    }
+  }
+  return text;
+}
+
+// Section heading for each kind of article, in display order
+const KIND_HEADINGS: Record<ArticleKind, string> = {
+  pattern: 'Patterns',
+  example: 'Examples',
+  practice: 'Practice Guides',
+  other: 'Other'
+};
+
+/**
+ * List articles whose content could not be fetched, with the reason
+ */
+function unscannedList(articles: { title: string; path: string; code: ErrorCode; message: string }[]): string[] {
+  return articles.map(article => `- ${article.title} (\`${article.path}\`): ${article.code}, ${article.message}`);
+}
+
+/**
+ * Note the extra sources a result is missing because their index could not be read
+ */
+function unavailableNote(sources: SourceFailure[]): string[] {
+  return [`Sources not searched (${sources.length}):`, '', ...sources.map(source => `- ${source.source}: ${source.code}, ${source.message}`)];
+}
+
+/**
+ * Render a result followed by the version of the docs it came from
+ */
+export function renderWithVersion<T>(render: (result: T) => string): (result: T & { corpusVersion: string }) => string {
+  return result => `${render(result)}\n\n_Corpus version: ${result.corpusVersion}_`;
+}
+
+export function renderError(result: { error: { code: ErrorCode; message: string; suggestions?: Suggestion[] } }): string {
+  const { code, message, suggestions } = result.error;
+  const lines = [`**Error (${code})**: ${message}`];
+  if (suggestions && suggestions.length > 0) {
+    lines.push('', 'Did you mean:', '', ...suggestions.map(suggestion => `- ${suggestion.title} (\`${suggestion.path}\`)`));
+  }
+  return lines.join('\n');
+}
+
+export function renderSearchResults(result: ResultOf<typeof searchAccessibilityArticles>): string {
+  const lines = [`# Search results for "${result.query}"`, ''];
+  if (result.expansions) {
+    const expanded = result.expansions.map(expansion => `"${expansion.term}" -> ${expansion.synonyms.join(', ')}`);
+    lines.push(`Also searched for: ${expanded.join('; ')}`, '');
+  }
+
+  if (result.articles.length === 0) {
+    lines.push('No matching articles.');
+  } else {
+    const first = result.offset + 1;
+    lines.push(`Showing ${first}-${result.offset + result.articles.length} of ${result.totalFound} matching articles.`, '');
+    result.articles.forEach((article, i) => {
+      lines.push(`${first + i}. **${article.title}** (\`${article.path}\`)`);
+      const from = isExtraSource(article) ? `, from ${article.source}` : '';
+      const code = article.codeBlocks !== undefined
+        ? `, ${article.codeBlocks} code blocks${article.codeLanguages?.length ? ` (${article.codeLanguages.join(', ')})` : ''}`
+        : '';
+      lines.push(`   ${article.matchReason}, relevance ${article.relevanceScore?.toFixed(2)}${from}${code}`);
+      if (article.snippets) {
+        for (const snippet of article.snippets) {
+          const section = snippet.heading ? `_${snippet.heading}_\n` : '';
+          lines.push('', `${section}${quote(highlight(snippet))}`.replace(/^/gm, '   '));
+        }
+      } else if (article.snippet) {
+        lines.push('', quote(article.snippet).replace(/^/gm, '   '));
+      }
+      lines.push('');
+    });
+  }
+
+  if (result.nextCursor) {
+    lines.push(`More results: pass cursor \`${result.nextCursor}\``, '');
+  }
+  if (result.timedOut) {
+    lines.push('_Search timed out before every article was scanned; some results may be missing._', '');
+  }
+  if (result.unscannedArticles) {
+    lines.push(`Content of ${result.unscannedArticles.length} articles could not be searched:`, '', ...unscannedList(result.unscannedArticles));
+  }
+  if (result.unavailableSources) {
+    lines.push('', ...unavailableNote(result.unavailableSources));
+  }
+  return lines.join('\n').trimEnd();
+}
+
+export function renderArticle(result: ResultOf<typeof fetchAccessibilityArticle>): string {
+  const header = [`**${result.title ?? result.path}**`, `Path: \`${result.path}\``];
+  if (result.metadata) {
+    const { url, source, lastUpdated, size } = result.metadata;
+    if (url) header.push(`URL: ${url}`);
+    if (source) header.push(`Source: ${source}`);
+    if (lastUpdated) header.push(`Last updated: ${lastUpdated}`);
+    header.push(`Size: ${size} characters`);
+  }
+  if (result.sections) {
+    header.push(`Sections: ${result.sections.map(section => section.heading).join(', ')}`);
+  }
+  if (result.missingSections) {
+    header.push(`Sections not found: ${result.missingSections.join(', ')}`);
+  }
+  if (result.related) {
+    header.push(`Related: ${result.related.map(article => `${article.title} (\`${article.path}\`)`).join(', ')}`);
+  }
+  if (result.pagination) {
+    const { chunk, totalChunks, totalSize, nextCursor } = result.pagination;
+    header.push(`Chunk ${chunk} of ${totalChunks} (${totalSize} characters in total)`);
+    if (nextCursor) header.push(`Next chunk: pass cursor \`${nextCursor}\``);
+  }
+
+  return [quote(header.join('\n')), '', '---', '', result.content.trim()].join('\n');
+}
+
+/**
+ * Tables of articles, one per kind
+ */
+function kindTables(articles: AccessibilityArticle[]): string[] {
+  const groups = new Map<ArticleKind, AccessibilityArticle[]>();
+  for (const article of articles) {
+    const kind = article.kind ?? classifyArticle(article.path).kind;
+    groups.set(kind, [...(groups.get(kind) ?? []), article]);
+  }
+
+  const lines: string[] = [];
+  const labelSources = articles.some(isExtraSource);
+  for (const [kind, heading] of Object.entries(KIND_HEADINGS) as [ArticleKind, string][]) {
+    const group = groups.get(kind);
+    if (!group) continue;
+    lines.push('', `## ${heading} (${group.length})`, '', table(
+      labelSources ? ['Title', 'Source', 'Path'] : ['Title', 'Path'],
+      group.map(article => labelSources
+        ? [article.title, article.source ?? PRIMARY_SOURCE_NAME, `\`${article.path}\``]
+        : [article.title, `\`${article.path}\``])
+    ));
+  }
+  return lines;
+}
+
+export function renderArticleList(result: ResultOf<typeof listAccessibilityArticles>): string {
+  const lines = [`# Accessibility articles (${result.totalCount})`];
+  if (result.offset > 0 || result.nextCursor) {
+    lines.push('', `Showing ${result.offset + 1}-${result.offset + result.articles.length}.`);
+  }
+
+  if (result.hierarchy) {
+    const titles = new Map(result.articles.map(article => [article.path, article.title]));
+    if (result.hierarchy.length > 0) {
+      lines.push('', `## Patterns (${result.hierarchy.length})`, '');
+      for (const group of result.hierarchy) {
+        lines.push(group.path
+          ? `- **${titles.get(group.path)}** (\`${group.path}\`)`
+          : `- **${group.pattern}** (pattern page not on this page)`);
+        group.examples.forEach(path => lines.push(`  - ${titles.get(path)} (\`${path}\`)`));
+      }
+    }
+    lines.push(...kindTables(result.articles.filter(article => !article.pattern)));
+  } else {
+    lines.push(...kindTables(result.articles));
+  }
+
+  if (result.nextCursor) {
+    lines.push('', `More articles: pass cursor \`${result.nextCursor}\``);
+  }
+  if (result.unavailableSources) {
+    lines.push('', ...unavailableNote(result.unavailableSources));
+  }
+  return lines.join('\n');
+}
+
+export function renderOutline(result: ResultOf<typeof getArticleOutline>): string {
+  const minLevel = Math.min(...result.outline.map(entry => entry.level));
+  return [
+    `# Outline of \`${result.path}\``,
+    '',
+    `Total size: ${result.totalSize} characters`,
+    '',
+    ...result.outline.map(entry =>
+      `${'  '.repeat(entry.level - minLevel)}- ${entry.heading} (\`${entry.anchor}\`, ${entry.size} characters)`)
+  ].join('\n');
+}
+
+export function renderPatternSpec(result: ResultOf<typeof getPatternSpec>): string {
+  const lines = [`# ${result.title}`, '', `Path: \`${result.path}\``, `URL: ${result.url}`];
+
+  if (result.roles.length > 0) {
+    lines.push('', '## Roles, States and Properties', '', table(
+      ['Role', 'Required attributes', 'Optional attributes'],
+      result.roles.map(role => [
+        `\`${role.role}\``,
+        role.requiredAttributes.map(name => `\`${name}\``).join(', ') || '-',
+        role.optionalAttributes.map(name => `\`${name}\``).join(', ') || '-'
+      ])
+    ));
+  }
+
+  if (result.keyboard.length > 0) {
+    lines.push('', '## Keyboard Interaction', '', table(
+      ['Keys', 'Behavior'],
+      result.keyboard.map(key => [
+        `${key.keys.join(' / ')}${key.optional ? ' (optional)' : ''}`,
+        key.context ? `${key.context}: ${key.behavior}` : key.behavior
+      ])
+    ));
+  }
+
+  if (result.unparsedSections.length > 0 || result.unparsedItems.length > 0) {
+    lines.push('', '## Not Parsed', '');
+    result.unparsedSections.forEach(section => lines.push(`- ${section.kind} section: ${section.reason}`));
+    result.unparsedItems.forEach(item => lines.push(`- ${item}`));
+  }
+  return lines.join('\n');
+}
+
+export function renderAriaLookup(result: ResultOf<typeof lookupAriaTerm>): string {
+  const lines = [
+    `# \`${result.term}\` (${result.kind})`,
+    '',
+    `${result.totalMentions} mentions in ${result.totalArticles} articles.`
+  ];
+
+  for (const article of result.articles) {
+    lines.push('', `## ${article.title}`, '', `Path: \`${article.path}\``, '');
+    for (const section of article.sections) {
+      const heading = section.section ? `[${section.section}](${article.url}${section.anchor})` : 'Introduction';
+      lines.push(`- ${heading} (${section.occurrences}x): ${section.excerpt}`);
+    }
+  }
+
+  if (result.suggestions && result.suggestions.length > 0) {
+    lines.push('', `Did you mean: ${result.suggestions.map(term => `\`${term}\``).join(', ')}?`);
+  }
+  if (result.timedOut) {
+    lines.push('', '_Some articles could not be scanned before the deadline._');
+  }
+  if (result.unscannedArticles) {
+    lines.push('', `Not scanned (${result.unscannedArticles.length}):`, '', ...unscannedList(result.unscannedArticles));
+  }
+  if (result.unavailableSources) {
+    lines.push('', ...unavailableNote(result.unavailableSources));
+  }
+  return lines.join('\n');
+}
+
+export function renderWcagCriterion(result: ResultOf<typeof lookupWcagCriterion>): string {
+  const { criterion } = result;
+  const lines = [
+    `# ${criterion.id} ${criterion.name} (Level ${criterion.level})`,
+    '',
+    criterion.description,
+    '',
+    `Added in WCAG ${criterion.version}${criterion.obsolete ? ', obsolete in WCAG 2.2' : ''}. [Understanding ${criterion.id}](${criterion.url})`,
+    '',
+    result.totalArticles > 0 ? `Addressed in ${result.totalArticles} articles.` : 'No articles address this criterion.'
+  ];
+
+  for (const article of result.articles) {
+    lines.push('', `## ${article.title}`, '', `Path: \`${article.path}\``, '');
+    for (const section of article.sections) {
+      const heading = section.section ? `[${section.section}](${article.url}${section.anchor})` : 'Introduction';
+      const reason = section.match === 'reference' ? 'cites the criterion' : section.rule;
+      lines.push(`- ${heading} (${reason}): ${section.excerpt}`);
+    }
+  }
+
+  if (result.timedOut) {
+    lines.push('', '_Some articles could not be scanned before the deadline._');
+  }
+  if (result.unscannedArticles) {
+    lines.push('', `Not scanned (${result.unscannedArticles.length}):`, '', ...unscannedList(result.unscannedArticles));
+  }
+  if (result.unavailableSources) {
+    lines.push('', ...unavailableNote(result.unavailableSources));
+  }
+  return lines.join('\n');
+}
+
+export function renderAudit(result: ResultOf<typeof auditMarkup>): string {
+  const { errors, warnings } = result.summary;
+  const lines = [
+    `# Audit against ${result.title}`,
+    '',
+    `${result.elementsChecked} elements checked: ${errors} errors, ${warnings} warnings.`
+  ];
+
+  if (result.findings.length > 0) {
+    lines.push('', '## Findings', '');
+    for (const finding of result.findings) {
+      const location = finding.element ? ` (line ${finding.element.line}, \`${finding.element.source}\`)` : '';
+      lines.push(`- **${finding.severity}** \`${finding.rule}\`: ${finding.message}${location}`);
+      lines.push(`  See [${finding.citation.section}](${finding.citation.url})${finding.citation.guidance ? `: "${finding.citation.guidance}"` : ''}`);
+    }
+  }
+
+  if (result.keyboardChecks.length > 0) {
+    lines.push('', '## Keyboard Checks (manual)', '', ...result.keyboardChecks.map(check => `- [ ] ${check}`));
+  }
+  return lines.join('\n');
+}
+
+export function renderRelatedArticles(result: ResultOf<typeof getRelatedArticles>): string {
+  const lines = [`# Related to ${result.title}`, '', `Path: \`${result.path}\``];
+  const section = (heading: string, articles: RelatedArticle[]) => {
+    if (articles.length === 0) return;
+    lines.push('', `## ${heading} (${articles.length})`, '', ...articles.map(article => `- ${article.title} (\`${article.path}\`)`));
+  };
+
+  section('Pattern', result.parentPattern ? [result.parentPattern] : []);
+  section(result.kind === 'example' ? 'Other Examples' : 'Examples', result.examples);
+  section('Links To', result.linksTo);
+  section('Linked From', result.linkedFrom);
+
+  if (result.unscannedArticles) {
+    lines.push('', `Not scanned for links (${result.unscannedArticles.length}):`, '', ...unscannedList(result.unscannedArticles));
+  }
+  if (result.unavailableSources) {
+    lines.push('', ...unavailableNote(result.unavailableSources));
+  }
+  return lines.join('\n');
+}
+
+export function renderVersionComparison(result: ResultOf<typeof compareCorpusVersions>): string {
+  const { added, changed, removed } = result.summary;
+  const lines = [
+    `# Changes from ${result.from.ref} to ${result.to.ref}`,
+    '',
+    `Commits \`${result.from.commit.slice(0, 12)}\` to \`${result.to.commit.slice(0, 12)}\`: ${added} added, ${changed} changed, ${removed} removed.`
+  ];
+
+  const headings = { added: 'Added', changed: 'Changed', removed: 'Removed' } as const;
+  for (const status of ['added', 'changed', 'removed'] as const) {
+    const articles = result.articles.filter(article => article.status === status);
+    if (articles.length === 0) continue;
+    lines.push('', `## ${headings[status]} (${articles.length})`, '');
+    for (const article of articles) {
+      const renamed = article.previousPath ? `, renamed from \`${article.previousPath}\`` : '';
+      const size = status === 'changed' ? ` +${article.additions} -${article.deletions}` : '';
+      lines.push(`- [${article.title}](${article.url}) (\`${article.path}\`${renamed})${size}`);
+    }
+  }
+
+  if (result.truncated) {
+    lines.push('', '_GitHub lists a limited number of changed files; more articles may have changed._');
+  }
+  return lines.join('\n');
+}
+
+export function renderServerStatus(result: ResultOf<typeof getServerStatus>): string {
+  const { source, index, contentCache, httpCache } = result;
+  const lines = [
+    '# Server Status',
+    '',
+    `- Uptime: ${result.uptimeSeconds}s`,
+    `- Source: ${source.kind} \`${source.version}\``,
+    ...(source.members ?? []).map(member => `  - ${member.name}: ${member.kind} \`${member.version}\``),
+    index
+      ? `- Index: ${index.articles} articles, fetched ${index.fetchedAt} (${index.ageSeconds}s ago) in ${index.durationMs}ms`
+      : '- Index: not fetched yet',
+    `- Content cache: ${contentCache.entries} articles (${contentCache.characters} characters), ` +
+      `${contentCache.hits} hits, ${contentCache.misses} misses (hit rate ${Math.round(contentCache.hitRate * 100)}%)`,
+    `- HTTP cache: ${httpCache.dir ? `\`${httpCache.dir}\`` : 'in memory'}, revalidated after ${httpCache.ttlSeconds}s`
+  ];
+
+  if (result.tools.length > 0) {
+    lines.push('', '## Tool Calls', '', table(
+      ['Tool', 'Calls', 'Errors', 'p50 (ms)', 'p90 (ms)', 'p99 (ms)', 'Max (ms)'],
+      result.tools.map(({ tool, calls, errors, latencyMs }) =>
+        [tool, calls, errors, latencyMs.p50, latencyMs.p90, latencyMs.p99, latencyMs.max].map(String))
+    ));
+  }
+
+  if (result.recentFailures.length > 0) {
+    lines.push('', '## Recent Failures', '', ...result.recentFailures.map(failure =>
+      `- ${failure.time} ${failure.operation}${failure.path ? ` \`${failure.path}\`` : ''}: **${failure.code}** ${failure.message}`));
+  }
+  return lines.join('\n');
+}
+
+export function renderCodeExamples(result: ResultOf<typeof getCodeExamples>): string {
+  const counts = Object.entries(result.languages).map(([language, count]) => `${count} ${language}`);
+  const lines = [
+    `# Code in ${result.title}`,
+    '',
+    `Path: \`${result.path}\``,
+    '',
+    counts.length > 0 ? `Code blocks: ${counts.join(', ')}.` : 'The article has no code blocks.'
+  ];
+
+  result.blocks.forEach(block => {
+    const heading = block.heading ? `[${block.heading}](${result.url}${block.anchor})` : 'Introduction';
+    const language = block.language ? `${block.language}${block.languageGuessed ? ', guessed' : ''}` : 'unknown language';
+    // A fence longer than any backtick run in the code keeps it intact
+    const fence = '`'.repeat(Math.max(3, ...(block.code.match(/`+/g) ?? []).map(run => run.length + 1)));
+    lines.push('', `## Block ${block.index + 1}: ${heading} (${language}, line ${block.line})`, '', `${fence}${block.language ?? ''}`, block.code, fence);
+  });
+
+  if (result.blocks.length < result.totalBlocks) {
+    lines.push('', `_Showing ${result.blocks.length} of ${result.totalBlocks} blocks._`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,48 @@
+/*
+ * Tests for the server status tool
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { getServerStatus } from './status-tools.js';
+import { fetchAccessibilityArticle, searchAccessibilityArticles, setDocSource, setServerConfig } from './e11y-tools.js';
+import { resetDiagnostics } from '../utils/diagnostics.js';
+import { mockFetch, resetTools, serveDocs } from '../testing/mock-docs.js';
+
+const mockIndex = {
+  'Accordion Pattern': 'docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md',
+  'Tabs Pattern': 'docs/www.w3.org_WAI_ARIA_apg_patterns_tabs.md'
+};
+
+describe('getServerStatus', () => {
+  beforeEach(() => {
+    resetDiagnostics();
+    resetTools({ E11Y_DOCS_CACHE_DIR: 'off' });
+    const serve = serveDocs(mockIndex, () => '# Accordion Pattern\n\nEnter expands the panel.');
+    mockFetch.mockImplementation(async (url: string) => url.endsWith('_tabs.md')
+      ? { ok: false, status: 500, statusText: 'Internal Server Error' }
+      : serve(url));
+  });
+
+  it('should describe the source before the index is read', async () => {
+    const status = await getServerStatus();
+
+    expect(status.source).toEqual({ kind: 'github', location: 'vltansky/e11y-mcp@master', ref: 'master', version: 'vltansky/e11y-mcp@master' });
+    expect(status.index).toBeUndefined();
+    expect(status.httpCache).toEqual({ ttlSeconds: 3600 });
+  });
+
+  it('should report the index, content cache usage and fetch failures', async () => {
+    await searchAccessibilityArticles({ query: 'enter', maxResults: 5, includeContent: true });
+    await searchAccessibilityArticles({ query: 'enter', maxResults: 5, includeContent: true });
+    await fetchAccessibilityArticle({ path: 'accordion', includeMetadata: false });
+
+    const status = await getServerStatus();
+
+    expect(status.index).toMatchObject({ articles: 2, version: 'vltansky/e11y-mcp@master' });
+    expect(status.contentCache).toMatchObject({ entries: 1, hits: 1, misses: 3, hitRate: 0.25 });
+    expect(status.recentFailures.map(({ operation, path, code }) => ({ operation, path, code }))).toEqual([
+      { operation: 'article', path: 'docs/www.w3.org_WAI_ARIA_apg_patterns_tabs.md', code: 'NETWORK' },
+      { operation: 'article', path: 'docs/www.w3.org_WAI_ARIA_apg_patterns_tabs.md', code: 'NETWORK' }
+    ]);
+  });
+});
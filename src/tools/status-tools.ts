@@ -0,0 +1,58 @@
+/*
+ * Server Status Tool
+ *
+ * Report what the server reads and how it performs, to tell whether slow or
+ * wrong answers come from the documentation source, the cache or the tools.
+ */
+
+import { getCorpusStatus, getDocSource, getServerConfig, type DocSource, type IndexRead } from './e11y-tools.js';
+import { getRecentFailures, getToolStats, type FetchFailure, type ToolStats } from '../utils/diagnostics.js';
+
+export interface SourceStatus {
+  kind: string;
+  location: string;
+  ref?: string;
+  /** Version of the docs last read, as reported in corpusVersion */
+  version: string;
+}
+
+/**
+ * Describe the documentation source, index, cache, tool latencies and recent failures
+ */
+export async function getServerStatus(): Promise<{
+  uptimeSeconds: number;
+  source: SourceStatus & { members?: (SourceStatus & { name: string })[] };
+  /** Last successful index read; absent until a tool has read the index */
+  index?: IndexRead & { ageSeconds: number };
+  contentCache: { entries: number; characters: number; hits: number; misses: number; hitRate: number };
+  httpCache: { dir?: string; ttlSeconds: number };
+  tools: ToolStats[];
+  recentFailures: FetchFailure[];
+}> {
+  const config = getServerConfig();
+  const source = getDocSource();
+  const { index, contentCache } = getCorpusStatus();
+  const lookups = contentCache.hits + contentCache.misses;
+
+  return {
+    uptimeSeconds: Math.round(process.uptime()),
+    source: {
+      ...describeSource(source),
+      ...(source.members ? { members: source.members.map(({ name, source }) => ({ name, ...describeSource(source) })) } : {})
+    },
+    ...(index ? { index: { ...index, ageSeconds: Math.round((Date.now() - Date.parse(index.fetchedAt)) / 1000) } } : {}),
+    contentCache: { ...contentCache, hitRate: lookups > 0 ? Math.round((contentCache.hits / lookups) * 100) / 100 : 0 },
+    httpCache: { ...(config.cache.dir ? { dir: config.cache.dir } : {}), ttlSeconds: config.cache.ttlMs / 1000 },
+    tools: getToolStats(),
+    recentFailures: getRecentFailures()
+  };
+}
+
+function describeSource(source: DocSource): SourceStatus {
+  return {
+    kind: source.kind,
+    location: source.location,
+    ...(source.ref ? { ref: source.ref } : {}),
+    version: source.getVersion()
+  };
+}
@@ -0,0 +1,88 @@
+/*
+ * Tests for comparing versions of the documentation
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { compareCorpusVersions } from './version-tools.js';
+import { setDocSource } from './e11y-tools.js';
+import { createLocalSource } from '../sources/local-source.js';
+import { mockFetch, resetTools } from '../testing/mock-docs.js';
+
+const OLD_COMMIT = '1'.repeat(40);
+const NEW_COMMIT = '2'.repeat(40);
+
+const indexes: Record<string, Record<string, string>> = {
+  [OLD_COMMIT]: {
+    'Accordion Pattern': 'docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md',
+    'Carousel Pattern': 'docs/www.w3.org_WAI_ARIA_apg_patterns_carousel.md',
+    'Menu Button': 'docs/www.w3.org_WAI_ARIA_apg_patterns_menubutton.md'
+  },
+  [NEW_COMMIT]: {
+    'Accordion Pattern': 'docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md',
+    'Menu Button Pattern': 'docs/www.w3.org_WAI_ARIA_apg_patterns_menu-button.md',
+    'Tabs Pattern': 'docs/www.w3.org_WAI_ARIA_apg_patterns_tabs.md'
+  }
+};
+
+const comparison = {
+  files: [
+    { filename: 'docs/www.w3.org_WAI_ARIA_apg_patterns_tabs.md', status: 'added', additions: 40, deletions: 0 },
+    { filename: 'docs/www.w3.org_WAI_ARIA_apg_patterns_carousel.md', status: 'removed', additions: 0, deletions: 55 },
+    { filename: 'docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md', status: 'modified', additions: 3, deletions: 1 },
+    {
+      filename: 'docs/www.w3.org_WAI_ARIA_apg_patterns_menu-button.md',
+      previous_filename: 'docs/www.w3.org_WAI_ARIA_apg_patterns_menubutton.md',
+      status: 'renamed',
+      additions: 0,
+      deletions: 0
+    },
+    { filename: 'docs/index.json', status: 'modified', additions: 2, deletions: 2 },
+    { filename: 'README.md', status: 'modified', additions: 1, deletions: 1 }
+  ]
+};
+
+describe('compareCorpusVersions', () => {
+  beforeEach(() => {
+    resetTools();
+    mockFetch.mockImplementation(async (url: string) => {
+      const api = 'https://api.github.com/repos/vltansky/e11y-mcp/';
+      if (url === `${api}commits/v1.0`) return { ok: true, text: () => Promise.resolve(OLD_COMMIT) };
+      if (url === `${api}commits/master`) return { ok: true, text: () => Promise.resolve(NEW_COMMIT) };
+      if (url === `${api}compare/${OLD_COMMIT}...${NEW_COMMIT}`) return { ok: true, json: () => Promise.resolve(comparison) };
+      const commit = Object.keys(indexes).find(sha => url === `https://raw.githubusercontent.com/vltansky/e11y-mcp/${sha}/docs/index.json`);
+      return commit
+        ? { ok: true, json: () => Promise.resolve(indexes[commit]) }
+        : { ok: false, status: 404, statusText: 'Not Found' };
+    });
+  });
+
+  it('should list added, changed and removed articles with their titles', async () => {
+    const result = await compareCorpusVersions({ from: 'v1.0' });
+
+    expect(result.from).toEqual({ ref: 'v1.0', commit: OLD_COMMIT });
+    expect(result.to).toEqual({ ref: 'master', commit: NEW_COMMIT });
+    expect(result.summary).toEqual({ added: 1, changed: 2, removed: 1 });
+    expect(result.articles.map(({ status, title }) => [status, title])).toEqual([
+      ['added', 'Tabs Pattern'],
+      ['changed', 'Accordion Pattern'],
+      ['changed', 'Menu Button Pattern'],
+      ['removed', 'Carousel Pattern']
+    ]);
+    expect(result.articles[2].previousPath).toBe('docs/www.w3.org_WAI_ARIA_apg_patterns_menubutton.md');
+    expect(result.articles[3].url)
+      .toBe(`https://github.com/vltansky/e11y-mcp/blob/${OLD_COMMIT}/docs/www.w3.org_WAI_ARIA_apg_patterns_carousel.md`);
+  });
+
+  it('should report unknown refs as not found', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 422, statusText: 'Unprocessable Entity' });
+
+    await expect(compareCorpusVersions({ from: 'v0.9', to: NEW_COMMIT }))
+      .rejects.toMatchObject({ code: 'NOT_FOUND', message: expect.stringContaining('Unknown ref "v0.9"') });
+  });
+
+  it('should reject sources without versions', async () => {
+    setDocSource(createLocalSource({ dir: '/tmp/e11y-docs' }));
+
+    await expect(compareCorpusVersions({ from: 'v1.0' })).rejects.toMatchObject({ code: 'INVALID_INPUT' });
+  });
+});
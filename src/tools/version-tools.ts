@@ -0,0 +1,102 @@
+/*
+ * Corpus Version Tools
+ *
+ * Compare two versions of the documentation, e.g. the commit recorded in last
+ * month's review against the current branch, to see which articles changed.
+ */
+
+import { z } from 'zod';
+import { PRIMARY_SOURCE_NAME } from '../config.js';
+import type { AccessibilityIndex, RefComparison } from '../sources/doc-source.js';
+import { getNamedSource, getServerConfig, sourceFilterShape, type ToolCallOptions } from './e11y-tools.js';
+import { linkSignals } from '../utils/concurrency.js';
+import { DocsError, wrapError } from '../utils/errors.js';
+
+const compareVersionsSchema = z.object({
+  from: z.string().min(1).describe('Older branch, tag or commit SHA, e.g. the commit of a corpusVersion from an earlier response'),
+  to: z.string().min(1).optional().describe('Newer branch, tag or commit SHA (default: the ref the server reads)'),
+  ...sourceFilterShape
+});
+
+export type CompareVersionsInput = z.infer<typeof compareVersionsSchema>;
+
+export type ArticleChangeStatus = 'added' | 'removed' | 'changed';
+
+export interface ArticleChange {
+  status: ArticleChangeStatus;
+  title: string;
+  path: string;
+  /** Path before the article was renamed */
+  previousPath?: string;
+  additions: number;
+  deletions: number;
+  url: string;
+}
+
+// Listing order of the change kinds
+const STATUS_ORDER: ArticleChangeStatus[] = ['added', 'changed', 'removed'];
+
+/**
+ * List the articles added, removed or changed between two refs of a source
+ */
+export async function compareCorpusVersions(input: CompareVersionsInput, options: ToolCallOptions = {}): Promise<{
+  source: string;
+  from: { ref: string; commit: string };
+  to: { ref: string; commit: string };
+  summary: Record<ArticleChangeStatus, number>;
+  articles: ArticleChange[];
+  /** GitHub lists a limited number of changed files; more articles may have changed */
+  truncated?: boolean;
+}> {
+  const { name, source } = getNamedSource(input.source);
+  const to = input.to ?? source.ref;
+  if (!source.compareRefs || !to) {
+    throw new DocsError('INVALID_INPUT', `Source "${name}" (${source.kind}) has no versions to compare; only GitHub sources do`);
+  }
+
+  const timeout = linkSignals([options.signal], getServerConfig().fetch.requestTimeoutMs);
+  let comparison: RefComparison;
+  try {
+    comparison = await source.compareRefs(input.from, to, { signal: timeout.signal });
+  } catch (error) {
+    throw wrapError(error, `Failed to compare ${input.from} with ${to}`);
+  } finally {
+    timeout.dispose();
+  }
+
+  // Paths of extra sources carry the source name, as everywhere else
+  const qualify = (path: string) => name === PRIMARY_SOURCE_NAME ? path : `${name}:${path}`;
+  const baseTitles = titlesByPath(comparison.base.index);
+  const headTitles = titlesByPath(comparison.head.index);
+
+  const articles = comparison.files
+    .map((file): ArticleChange => ({
+      status: file.status,
+      title: (file.status === 'removed' ? baseTitles : headTitles).get(file.path) ??
+        (file.previousPath ? baseTitles.get(file.previousPath) : undefined) ?? file.path,
+      path: qualify(file.path),
+      ...(file.previousPath ? { previousPath: qualify(file.previousPath) } : {}),
+      additions: file.additions,
+      deletions: file.deletions,
+      url: file.url
+    }))
+    .sort((a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) || a.title.localeCompare(b.title));
+
+  const summary = { added: 0, changed: 0, removed: 0 };
+  for (const article of articles) {
+    summary[article.status]++;
+  }
+
+  return {
+    source: name,
+    from: { ref: comparison.base.ref, commit: comparison.base.commit },
+    to: { ref: comparison.head.ref, commit: comparison.head.commit },
+    summary,
+    articles,
+    ...(comparison.truncated ? { truncated: true } : {})
+  };
+}
+
+function titlesByPath(index: AccessibilityIndex): Map<string, string> {
+  return new Map(Object.entries(index).map(([title, path]) => [path, title]));
+}
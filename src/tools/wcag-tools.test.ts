@@ -0,0 +1,108 @@
+/*
+ * Tests for the WCAG lookup tools
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { lookupWcagCriterion } from './wcag-tools.js';
+import { findCriterion } from '../utils/wcag.js';
+import { buildWcagIndex, findCriterionReferences } from '../utils/wcag-index.js';
+import { useMockDocs } from '../testing/mock-docs.js';
+
+const mockIndex = {
+  'Tabs Pattern': 'docs/www.w3.org_WAI_ARIA_apg_patterns_tabs.md',
+  'Developing a Keyboard Interface': 'docs/www.w3.org_WAI_ARIA_apg_practices_keyboard-interface.md',
+  'Breadcrumb Pattern': 'docs/www.w3.org_WAI_ARIA_apg_patterns_breadcrumb.md'
+};
+
+const articles: Record<string, string> = {
+  'docs/www.w3.org_WAI_ARIA_apg_patterns_tabs.md': `# Tabs Pattern
+
+## Keyboard Interaction
+
+- Tab: When focus moves into the tab list, places focus on the active tab element.
+
+## WAI-ARIA Roles, States, and Properties
+
+- The element that serves as a container for the set of tabs has role tablist.
+`,
+  'docs/www.w3.org_WAI_ARIA_apg_practices_keyboard-interface.md': `# Developing a Keyboard Interface
+
+## Fundamental Keyboard Navigation Conventions
+
+Every widget must be operable with the keyboard, as required by [Success Criterion 2.1.1](https://www.w3.org/WAI/WCAG22/Understanding/keyboard).
+`,
+  'docs/www.w3.org_WAI_ARIA_apg_patterns_breadcrumb.md': `# Breadcrumb Pattern
+
+Version 1.2.1 of the example. The trail is a list of links.
+`
+};
+
+describe('findCriterion', () => {
+  it('should find criteria by number, name or both', () => {
+    expect(findCriterion('2.1.1')?.name).toBe('Keyboard');
+    expect(findCriterion('SC 4.1.2')?.name).toBe('Name, Role, Value');
+    expect(findCriterion('name role value')?.id).toBe('4.1.2');
+    expect(findCriterion('4.1.2 Name, Role, Value')?.level).toBe('A');
+    expect(findCriterion('9.9.9')).toBeUndefined();
+  });
+});
+
+describe('findCriterionReferences', () => {
+  it('should only count criterion numbers given with context', () => {
+    const text = 'Fails WCAG 2.4.7 and 1.4.3 Contrast (Minimum). See /Understanding/name-role-value.html. Released 2.1.1 of the library.';
+
+    expect(findCriterionReferences(text).map(reference => reference.id)).toEqual(['2.4.7', '1.4.3', '4.1.2']);
+  });
+});
+
+describe('buildWcagIndex', () => {
+  it('should map sections by explicit references and mapping rules', () => {
+    const index = buildWcagIndex(new Map(Object.entries(articles)));
+
+    expect(index.get('2.1.1')).toEqual([
+      {
+        path: 'docs/www.w3.org_WAI_ARIA_apg_patterns_tabs.md',
+        section: 'Keyboard Interaction',
+        anchor: '#keyboard-interaction',
+        excerpt: 'Tab: When focus moves into the tab list, places focus on the active tab element.',
+        match: 'rule',
+        rule: 'Keyboard interaction section'
+      },
+      {
+        path: 'docs/www.w3.org_WAI_ARIA_apg_practices_keyboard-interface.md',
+        section: 'Fundamental Keyboard Navigation Conventions',
+        anchor: '#fundamental-keyboard-navigation-conventions',
+        excerpt: 'Every widget must be operable with the keyboard, as required by Success Criterion 2.1.1.',
+        match: 'reference'
+      }
+    ]);
+    expect(index.get('4.1.2')?.map(mention => mention.section)).toEqual(['WAI-ARIA Roles, States, and Properties']);
+    expect(index.has('1.2.1')).toBe(false);
+  });
+});
+
+describe('lookupWcagCriterion', () => {
+  beforeEach(() => {
+    useMockDocs(mockIndex, articles);
+  });
+
+  it('should describe the criterion and list citing articles first', async () => {
+    const result = await lookupWcagCriterion({ criterion: 'keyboard', maxArticles: 10 });
+
+    expect(result.criterion).toEqual({
+      id: '2.1.1',
+      name: 'Keyboard',
+      level: 'A',
+      version: '2.0',
+      description: 'All functionality is operable through a keyboard interface without specific timings.',
+      url: 'https://www.w3.org/WAI/WCAG22/Understanding/keyboard'
+    });
+    expect(result.totalArticles).toBe(2);
+    expect(result.articles.map(article => article.title)).toEqual(['Developing a Keyboard Interface', 'Tabs Pattern']);
+  });
+
+  it('should reject unknown criteria with close names', async () => {
+    await expect(lookupWcagCriterion({ criterion: 'focus visibel', maxArticles: 10 }))
+      .rejects.toMatchObject({ code: 'NOT_FOUND', message: expect.stringContaining('Did you mean: 2.4.7 Focus Visible') });
+  });
+});
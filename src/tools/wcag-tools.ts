@@ -0,0 +1,114 @@
+/*
+ * WCAG Lookup Tools
+ *
+ * Translate between WCAG success criteria, as reviewers cite them ("fails
+ * 2.1.1", "4.1.2 Name, Role, Value"), and the articles that address them.
+ */
+
+import { z } from 'zod';
+import {
+  deriveFromCorpus,
+  getDocSource,
+  loadCorpus,
+  selectSource,
+  sourceFilterShape,
+  reportUnavailableSources,
+  unscannedArticles,
+  type ArticleFailure,
+  type SourceFailure,
+  type ToolCallOptions
+} from './e11y-tools.js';
+import { DocsError } from '../utils/errors.js';
+import { findCriterion, suggestCriteria, understandingUrl, type WcagLevel } from '../utils/wcag.js';
+import { buildWcagIndex } from '../utils/wcag-index.js';
+
+const wcagLookupSchema = z.object({
+  criterion: z.string().describe('Success criterion number or name, e.g. "2.1.1", "SC 4.1.2" or "Name, Role, Value"'),
+  maxArticles: z.number().min(1).max(50).optional().default(10).describe('Maximum number of articles to return (1-50)'),
+  ...sourceFilterShape
+});
+
+export type WcagLookupInput = z.infer<typeof wcagLookupSchema>;
+
+/**
+ * Describe a WCAG success criterion and find the article sections that address it
+ */
+export async function lookupWcagCriterion(input: WcagLookupInput, options: ToolCallOptions = {}): Promise<{
+  criterion: {
+    id: string;
+    name: string;
+    level: WcagLevel;
+    version: string;
+    description: string;
+    url: string;
+    obsolete?: boolean;
+  };
+  totalArticles: number;
+  articles: {
+    title: string;
+    path: string;
+    url: string;
+    sections: { section: string; anchor: string; excerpt: string; match: 'reference' | 'rule'; rule?: string }[];
+  }[];
+  timedOut?: boolean;
+  /** Articles that could not be scanned for the criterion */
+  unscannedArticles?: (ArticleFailure & { title: string })[];
+  /** Extra sources left out because their index could not be read */
+  unavailableSources?: SourceFailure[];
+}> {
+  const criterion = findCriterion(input.criterion);
+  if (!criterion) {
+    const close = suggestCriteria(input.criterion).map(suggestion => `${suggestion.id} ${suggestion.name}`);
+    throw new DocsError('NOT_FOUND', `Unknown WCAG success criterion: ${input.criterion}` +
+      (close.length > 0 ? `. Did you mean: ${close.join(', ')}?` : ''));
+  }
+
+  const corpus = await loadCorpus(options.signal);
+  const criterionIndex = deriveFromCorpus(corpus, 'wcag-criteria', ({ contents }) => buildWcagIndex(contents));
+  const paths = new Set(Object.values(selectSource(corpus.index, input.source)));
+  const mentions = (criterionIndex.get(criterion.id) ?? []).filter(mention => paths.has(mention.path));
+
+  const titles = new Map(Object.entries(corpus.index).map(([title, path]) => [path, title]));
+  const byPath = new Map<string, typeof mentions>();
+  for (const mention of mentions) {
+    byPath.set(mention.path, [...(byPath.get(mention.path) ?? []), mention]);
+  }
+
+  // Articles that cite the criterion come first, then those with the most matching sections
+  const source = getDocSource();
+  const cites = (sections: typeof mentions) => sections.some(section => section.match === 'reference') ? 1 : 0;
+  const articles = [...byPath.entries()]
+    .sort(([a, aSections], [b, bSections]) =>
+      cites(bSections) - cites(aSections) ||
+      bSections.length - aSections.length ||
+      (titles.get(a) ?? a).localeCompare(titles.get(b) ?? b))
+    .map(([path, sections]) => ({
+      title: titles.get(path) ?? path,
+      path,
+      url: source.getArticleUrl(path),
+      sections: sections.map(({ section, anchor, excerpt, match, rule }) => ({
+        section,
+        anchor,
+        excerpt,
+        match,
+        ...(rule ? { rule } : {})
+      }))
+    }));
+
+  return {
+    criterion: {
+      id: criterion.id,
+      name: criterion.name,
+      level: criterion.level,
+      version: criterion.version,
+      description: criterion.description,
+      url: understandingUrl(criterion),
+      ...(criterion.obsolete ? { obsolete: true } : {})
+    },
+    totalArticles: articles.length,
+    articles: articles.slice(0, input.maxArticles),
+    ...(corpus.timedOut ? { timedOut: true } : {}),
+    ...(corpus.failures.length > 0 ? { unscannedArticles: unscannedArticles(corpus) } : {}),
+    ...reportUnavailableSources(input.source)
+  };
+}
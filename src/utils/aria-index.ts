@@ -0,0 +1,98 @@
+/*
+ * ARIA Term Index
+ *
+ * Maps every ARIA role and attribute mentioned in the corpus to the article
+ * sections that mention it, with a short excerpt of the surrounding guidance.
+ * Built once per corpus so lookups are a map access.
+ */
+
+import { isAriaAttribute, isAriaRole } from './aria.js';
+import { excerptAround, splitHeadingBlocks } from './markdown.js';
+
+export interface TermMention {
+  path: string;
+  section: string;
+  anchor: string;
+  excerpt: string;
+  occurrences: number;
+}
+
+export type AriaTermIndex = Map<string, TermMention[]>;
+
+// Role mentions need context, otherwise every "button" or "link" in prose would count
+const ROLE_PATTERNS = [
+  /\brole\s*=\s*["']([a-z]+)["']/gi,
+  /\brole\s+(?:of\s+)?["'`]?([a-z]+)/gi,
+  /`([a-z]+)`\s+role\b/gi,
+  /\b([a-z]+)\s+role\b/gi,
+  /`([a-z]+)`/gi
+];
+
+/**
+ * Find the ARIA terms in a block of text, with the position of each occurrence
+ */
+export function findAriaTerms(text: string): { term: string; index: number }[] {
+  const found: { term: string; index: number }[] = [];
+
+  for (const match of text.matchAll(/\baria-[a-z]+\b/gi)) {
+    if (isAriaAttribute(match[0])) {
+      found.push({ term: match[0].toLowerCase(), index: match.index! });
+    }
+  }
+
+  const seen = new Set<number>();
+  for (const pattern of ROLE_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const index = match.index! + match[0].indexOf(match[1]);
+      if (isAriaRole(match[1]) && !seen.has(index)) {
+        seen.add(index);
+        found.push({ term: match[1].toLowerCase(), index });
+      }
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Build the term index over article contents keyed by path
+ */
+export function buildAriaTermIndex(contents: Map<string, string>): AriaTermIndex {
+  const index: AriaTermIndex = new Map();
+
+  for (const [path, content] of contents) {
+    for (const block of splitHeadingBlocks(content)) {
+      // Link targets are dropped so URLs like ".../#aria-expanded" are not counted
+      const text = content
+        .slice(block.start, block.end)
+        .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1');
+      const mentions = new Map<string, TermMention>();
+
+      for (const { term, index: position } of findAriaTerms(text)) {
+        const mention = mentions.get(term);
+        if (mention) {
+          mention.occurrences++;
+          continue;
+        }
+        mentions.set(term, {
+          path,
+          section: block.heading?.text ?? '',
+          anchor: block.heading ? `#${block.heading.slug}` : '',
+          excerpt: excerptAround(text, position),
+          occurrences: 1
+        });
+      }
+
+      for (const [term, mention] of mentions) {
+        let list = index.get(term);
+        if (!list) {
+          list = [];
+          index.set(term, list);
+        }
+        list.push(mention);
+      }
+    }
+  }
+
+  return index;
+}
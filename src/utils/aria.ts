@@ -0,0 +1,64 @@
+/*
+ * WAI-ARIA Vocabulary
+ *
+ * Role and attribute names from WAI-ARIA 1.2, used to recognize ARIA terms in
+ * the documentation and in markup.
+ */
+
+export const ARIA_ROLES = new Set([
+  'alert', 'alertdialog', 'application', 'article', 'banner', 'blockquote', 'button', 'caption',
+  'cell', 'checkbox', 'code', 'columnheader', 'combobox', 'complementary', 'contentinfo',
+  'definition', 'deletion', 'dialog', 'directory', 'document', 'emphasis', 'feed', 'figure',
+  'form', 'generic', 'grid', 'gridcell', 'group', 'heading', 'img', 'insertion', 'link', 'list',
+  'listbox', 'listitem', 'log', 'main', 'marquee', 'math', 'menu', 'menubar', 'menuitem',
+  'menuitemcheckbox', 'menuitemradio', 'meter', 'navigation', 'none', 'note', 'option',
+  'paragraph', 'presentation', 'progressbar', 'radio', 'radiogroup', 'region', 'row',
+  'rowgroup', 'rowheader', 'scrollbar', 'search', 'searchbox', 'separator', 'slider',
+  'spinbutton', 'status', 'strong', 'subscript', 'superscript', 'switch', 'tab', 'table',
+  'tablist', 'tabpanel', 'term', 'textbox', 'time', 'timer', 'toolbar', 'tooltip', 'tree',
+  'treegrid', 'treeitem'
+]);
+
+export const ARIA_ATTRIBUTES = new Set([
+  'aria-activedescendant', 'aria-atomic', 'aria-autocomplete', 'aria-braillelabel',
+  'aria-brailleroledescription', 'aria-busy', 'aria-checked', 'aria-colcount', 'aria-colindex',
+  'aria-colindextext', 'aria-colspan', 'aria-controls', 'aria-current', 'aria-describedby',
+  'aria-description', 'aria-details', 'aria-disabled', 'aria-dropeffect', 'aria-errormessage',
+  'aria-expanded', 'aria-flowto', 'aria-grabbed', 'aria-haspopup', 'aria-hidden',
+  'aria-invalid', 'aria-keyshortcuts', 'aria-label', 'aria-labelledby', 'aria-level',
+  'aria-live', 'aria-modal', 'aria-multiline', 'aria-multiselectable', 'aria-orientation',
+  'aria-owns', 'aria-placeholder', 'aria-posinset', 'aria-pressed', 'aria-readonly',
+  'aria-relevant', 'aria-required', 'aria-roledescription', 'aria-rowcount', 'aria-rowindex',
+  'aria-rowindextext', 'aria-rowspan', 'aria-selected', 'aria-setsize', 'aria-sort',
+  'aria-valuemax', 'aria-valuemin', 'aria-valuenow', 'aria-valuetext'
+]);
+
+/**
+ * Check whether a term is an ARIA role
+ */
+export function isAriaRole(term: string): boolean {
+  return ARIA_ROLES.has(term.toLowerCase());
+}
+
+/**
+ * Check whether a term is an ARIA state or property
+ */
+export function isAriaAttribute(term: string): boolean {
+  return ARIA_ATTRIBUTES.has(term.toLowerCase());
+}
+
+// States and properties WAI-ARIA 1.2 allows on every role, including the deprecated globals
+export const GLOBAL_ARIA_ATTRIBUTES = new Set([
+  'aria-atomic', 'aria-braillelabel', 'aria-brailleroledescription', 'aria-busy', 'aria-controls',
+  'aria-current', 'aria-describedby', 'aria-description', 'aria-details', 'aria-disabled',
+  'aria-dropeffect', 'aria-errormessage', 'aria-flowto', 'aria-grabbed', 'aria-haspopup',
+  'aria-hidden', 'aria-invalid', 'aria-keyshortcuts', 'aria-label', 'aria-labelledby',
+  'aria-live', 'aria-owns', 'aria-relevant', 'aria-roledescription'
+]);
+
+/**
+ * Check whether an ARIA state or property is allowed on every role
+ */
+export function isGlobalAriaAttribute(term: string): boolean {
+  return GLOBAL_ARIA_ATTRIBUTES.has(term.toLowerCase());
+}
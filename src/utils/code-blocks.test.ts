@@ -0,0 +1,54 @@
+/*
+ * Tests for code block extraction
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractCodeBlocks, normalizeLanguage } from './code-blocks.js';
+
+const article = `# Date Picker Dialog Example
+
+## Example
+
+\`\`\`HTML
+<button type="button" aria-label="Choose Date">📅</button>
+\`\`\`
+
+### JavaScript
+
+~~~js
+const button = document.querySelector('button');
+~~~
+
+\`\`\`
+.dialog { display: none; }
+\`\`\`
+
+## Notes
+
+  \`\`\`\`markdown
+  \`\`\`html
+  <p>nested</p>
+  \`\`\`
+  \`\`\`\`
+`;
+
+describe('extractCodeBlocks', () => {
+  it('should return each block with its language, heading and line', () => {
+    const blocks = extractCodeBlocks(article);
+
+    expect(blocks.map(({ language, languageGuessed, heading, line }) => ({ language, languageGuessed, heading: heading?.text, line }))).toEqual([
+      { language: 'html', languageGuessed: undefined, heading: 'Example', line: 5 },
+      { language: 'javascript', languageGuessed: undefined, heading: 'JavaScript', line: 11 },
+      { language: 'css', languageGuessed: true, heading: 'JavaScript', line: 15 },
+      { language: 'markdown', languageGuessed: undefined, heading: 'Notes', line: 21 }
+    ]);
+    expect(blocks[1].code).toBe("const button = document.querySelector('button');");
+    expect(blocks[3].code).toBe('```html\n<p>nested</p>\n```');
+  });
+
+  it('should normalize language aliases', () => {
+    expect(normalizeLanguage('JS')).toBe('javascript');
+    expect(normalizeLanguage('language-ts')).toBe('typescript');
+    expect(normalizeLanguage('css')).toBe('css');
+  });
+});
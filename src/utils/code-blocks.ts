@@ -0,0 +1,114 @@
+/*
+ * Code Blocks
+ *
+ * Extract the fenced code blocks of an article (the HTML, CSS and JavaScript of
+ * APG examples) with their language and the heading they appear under.
+ */
+
+import { parseHeadings, type MarkdownHeading } from './markdown.js';
+
+export interface CodeBlock {
+  /** Normalized language, e.g. "javascript" for a ```js fence; absent when unknown */
+  language?: string;
+  /** The fence had no language and it was guessed from the code */
+  languageGuessed?: boolean;
+  code: string;
+  /** Line of the opening fence, starting at 1 */
+  line: number;
+  /** Character offset of the opening fence */
+  offset: number;
+  /** Closest heading above the block */
+  heading?: MarkdownHeading;
+}
+
+// Fence info strings that name the same language
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  node: 'javascript',
+  ts: 'typescript',
+  htm: 'html',
+  xhtml: 'html',
+  markup: 'html',
+  sh: 'shell',
+  bash: 'shell',
+  zsh: 'shell',
+  console: 'shell',
+  md: 'markdown',
+  yml: 'yaml'
+};
+
+/**
+ * Normalize a language name or fence info string, e.g. "JS" to "javascript"
+ */
+export function normalizeLanguage(language: string): string {
+  const name = language.trim().toLowerCase().replace(/^language-/, '');
+  return LANGUAGE_ALIASES[name] ?? name;
+}
+
+/**
+ * Guess the language of an unlabeled block from its content
+ */
+function guessLanguage(code: string): string | undefined {
+  const text = code.trim();
+  if (/^<(!doctype|[a-z][\w-]*[\s>/])/i.test(text)) {
+    return 'html';
+  }
+  if (/\b(function|const|let|var|addEventListener)\b|document\.|=>/.test(text)) {
+    return 'javascript';
+  }
+  if (/^[^{};]+\{\s*[\w-]+\s*:[^;{}]+;?/.test(text)) {
+    return 'css';
+  }
+  return undefined;
+}
+
+/**
+ * Find every fenced code block of an article, in document order
+ */
+export function extractCodeBlocks(content: string): CodeBlock[] {
+  const headings = parseHeadings(content);
+  const blocks: CodeBlock[] = [];
+  const lines = content.split('\n');
+  let offset = 0;
+  let open: { fence: string; indent: number; info: string; line: number; offset: number; code: string[] } | undefined;
+
+  lines.forEach((line, i) => {
+    if (!open) {
+      const match = line.match(/^( {0,3})(`{3,}|~{3,})\s*([^`\s]*)/);
+      if (match) {
+        open = { fence: match[2], indent: match[1].length, info: match[3], line: i + 1, offset, code: [] };
+      }
+    } else if (new RegExp(`^ {0,3}${open.fence[0]}{${open.fence.length},}\\s*$`).test(line)) {
+      blocks.push(toCodeBlock(open, headings));
+      open = undefined;
+    } else {
+      // Content lines lose the indentation of the opening fence
+      open.code.push(line.replace(new RegExp(`^ {0,${open.indent}}`), ''));
+    }
+    offset += line.length + 1;
+  });
+
+  // An unclosed fence runs to the end of the article
+  if (open) {
+    blocks.push(toCodeBlock(open, headings));
+  }
+  return blocks;
+}
+
+function toCodeBlock(
+  fence: { info: string; line: number; offset: number; code: string[] },
+  headings: MarkdownHeading[]
+): CodeBlock {
+  const code = fence.code.join('\n');
+  const guessed = fence.info ? undefined : guessLanguage(code);
+  const heading = headings.filter(candidate => candidate.offset < fence.offset).pop();
+  return {
+    ...(fence.info ? { language: normalizeLanguage(fence.info) } : guessed ? { language: guessed, languageGuessed: true } : {}),
+    code,
+    line: fence.line,
+    offset: fence.offset,
+    ...(heading ? { heading } : {})
+  };
+}
@@ -0,0 +1,70 @@
+/*
+ * Tests for the concurrency utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import { linkSignals, mapWithConcurrency } from './concurrency.js';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('mapWithConcurrency', () => {
+  it('should keep at most `limit` calls in flight and preserve order', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const results = await mapWithConcurrency([1, 2, 3, 4, 5], 2, async item => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await delay(5);
+      inFlight--;
+      return item * 10;
+    });
+
+    expect(results).toEqual([10, 20, 30, 40, 50]);
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('should stop starting new work once the signal aborts', async () => {
+    const controller = new AbortController();
+    const started: number[] = [];
+
+    const run = mapWithConcurrency([1, 2, 3, 4], 1, async item => {
+      started.push(item);
+      if (item === 2) controller.abort(new Error('cancelled'));
+      return item;
+    }, controller.signal);
+
+    await expect(run).rejects.toThrow('cancelled');
+    expect(started).toEqual([1, 2]);
+  });
+});
+
+describe('linkSignals', () => {
+  it('should abort when a parent aborts', () => {
+    const parent = new AbortController();
+    const linked = linkSignals([parent.signal, undefined]);
+
+    parent.abort(new Error('stop'));
+
+    expect(linked.signal.aborted).toBe(true);
+    expect(linked.signal.reason).toEqual(new Error('stop'));
+  });
+
+  it('should abort with a TimeoutError after the timeout', async () => {
+    const linked = linkSignals([], 5);
+
+    await delay(20);
+
+    expect(linked.signal.aborted).toBe(true);
+    expect(linked.signal.reason.name).toBe('TimeoutError');
+  });
+
+  it('should not fire after being disposed', async () => {
+    const linked = linkSignals([], 5);
+    linked.dispose();
+
+    await delay(20);
+
+    expect(linked.signal.aborted).toBe(false);
+  });
+});
@@ -0,0 +1,70 @@
+/*
+ * Concurrency Utilities
+ *
+ * Helpers for running many fetches in parallel with a bounded pool, and for
+ * combining abort signals with timeouts (AbortSignal.any is not available on
+ * every Node version we support).
+ */
+
+export interface LinkedSignal {
+  signal: AbortSignal;
+  /** Release the timer and listeners once the guarded work is done */
+  dispose(): void;
+}
+
+/**
+ * Create a signal that aborts when any parent aborts or the timeout elapses
+ */
+export function linkSignals(parents: (AbortSignal | undefined)[], timeoutMs?: number): LinkedSignal {
+  const controller = new AbortController();
+  const cleanups: (() => void)[] = [];
+
+  for (const parent of parents) {
+    if (!parent) continue;
+    if (parent.aborted) {
+      controller.abort(parent.reason);
+      break;
+    }
+    const onAbort = () => controller.abort(parent.reason);
+    parent.addEventListener('abort', onAbort, { once: true });
+    cleanups.push(() => parent.removeEventListener('abort', onAbort));
+  }
+
+  if (timeoutMs !== undefined && !controller.signal.aborted) {
+    const timer = setTimeout(() => {
+      controller.abort(new DOMException(`Timed out after ${timeoutMs}ms`, 'TimeoutError'));
+    }, timeoutMs);
+    cleanups.push(() => clearTimeout(timer));
+  }
+
+  return {
+    signal: controller.signal,
+    dispose: () => cleanups.forEach(cleanup => cleanup())
+  };
+}
+
+/**
+ * Map over items with at most `limit` calls in flight. Stops starting new
+ * work once the signal aborts and rejects with the abort reason.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      signal?.throwIfAborted();
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
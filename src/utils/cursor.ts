@@ -0,0 +1,32 @@
+/*
+ * Pagination Cursors
+ *
+ * Cursors are opaque to clients: base64url-encoded JSON holding whatever state
+ * a tool needs to continue, tagged with the kind of listing they belong to.
+ */
+
+import { DocsError } from './errors.js';
+
+/**
+ * Encode pagination state as an opaque cursor
+ */
+export function encodeCursor(kind: string, state: Record<string, unknown>): string {
+  return Buffer.from(JSON.stringify({ ...state, kind })).toString('base64url');
+}
+
+/**
+ * Decode a cursor issued by `encodeCursor` for the same kind of listing
+ */
+export function decodeCursor<T extends object>(cursor: string, kind: string): T {
+  let state: unknown;
+  try {
+    state = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+  } catch {
+    throw new DocsError('INVALID_INPUT', 'Invalid cursor');
+  }
+
+  if (typeof state !== 'object' || state === null || (state as { kind?: unknown }).kind !== kind) {
+    throw new DocsError('INVALID_INPUT', 'Invalid cursor');
+  }
+  return state as T;
+}
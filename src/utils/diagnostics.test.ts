@@ -0,0 +1,67 @@
+/*
+ * Tests for diagnostics logging and metrics
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { loadConfig } from '../config.js';
+import { getRecentFailures, getToolStats, logEvent, recordFetchFailure, recordToolCall, resetDiagnostics, setLogLevel } from './diagnostics.js';
+
+describe('diagnostics', () => {
+  const stderr = vi.spyOn(process.stderr, 'write').mockReturnValue(true);
+
+  beforeEach(() => {
+    stderr.mockClear();
+    resetDiagnostics();
+    setLogLevel('info');
+  });
+
+  afterEach(() => {
+    setLogLevel('info');
+  });
+
+  it('should write events at or above the log level as JSON lines', () => {
+    setLogLevel('warn');
+    logEvent('info', 'tool_call', { tool: 'search_accessibility_articles' });
+    logEvent('warn', 'fetch_failure', { code: 'NETWORK' });
+
+    expect(stderr).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(String(stderr.mock.calls[0][0]))).toMatchObject({ level: 'warn', event: 'fetch_failure', code: 'NETWORK' });
+
+    setLogLevel('off');
+    logEvent('warn', 'fetch_failure');
+    expect(stderr).toHaveBeenCalledTimes(1);
+  });
+
+  it('should read the log level from the environment and reject unknown levels as a configuration error', () => {
+    expect(loadConfig({ E11Y_DOCS_LOG_LEVEL: ' WARN ' }).log.level).toBe('warn');
+    expect(() => loadConfig({ E11Y_DOCS_LOG_LEVEL: 'loud' })).toThrow(expect.objectContaining({
+      code: 'INVALID_CONFIG',
+      message: 'Invalid E11Y_DOCS_LOG_LEVEL "loud" (expected debug, info, warn, off)'
+    }));
+  });
+
+  it('should report call counts and latency percentiles per tool', () => {
+    setLogLevel('off');
+    for (let ms = 1; ms <= 100; ms++) {
+      recordToolCall('search_accessibility_articles', ms, ms !== 50);
+    }
+    recordToolCall('get_article_outline', 12.4, true);
+
+    expect(getToolStats()).toEqual([
+      { tool: 'search_accessibility_articles', calls: 100, errors: 1, latencyMs: { p50: 50, p90: 90, p99: 99, max: 100 } },
+      { tool: 'get_article_outline', calls: 1, errors: 0, latencyMs: { p50: 12, p90: 12, p99: 12, max: 12 } }
+    ]);
+  });
+
+  it('should keep the most recent fetch failures, newest first', () => {
+    setLogLevel('off');
+    for (let i = 0; i < 25; i++) {
+      recordFetchFailure({ operation: 'article', path: `docs/${i}.md`, code: 'NOT_FOUND', message: 'Article not found' });
+    }
+
+    const failures = getRecentFailures();
+    expect(failures).toHaveLength(20);
+    expect(failures[0].path).toBe('docs/24.md');
+    expect(failures[19].path).toBe('docs/5.md');
+  });
+});
@@ -0,0 +1,122 @@
+/*
+ * Diagnostics
+ *
+ * Structured logging to stderr (stdout carries the MCP protocol in stdio mode)
+ * and in-process metrics for the server_status tool: tool call latencies and
+ * recent fetch failures. Metrics are shared by every session of the process.
+ */
+
+import type { ErrorCode } from './errors.js';
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'off'] as const;
+
+export type LogLevel = typeof LOG_LEVELS[number];
+
+// Latency samples kept per tool, and failures kept in total
+const MAX_LATENCY_SAMPLES = 1000;
+const MAX_RECENT_FAILURES = 20;
+
+export interface FetchFailure {
+  /** ISO timestamp */
+  time: string;
+  operation: 'index' | 'article';
+  path?: string;
+  code: ErrorCode;
+  message: string;
+}
+
+export interface ToolStats {
+  tool: string;
+  calls: number;
+  errors: number;
+  /** Percentiles over the most recent calls */
+  latencyMs: { p50: number; p90: number; p99: number; max: number };
+}
+
+let logLevel: LogLevel = 'info';
+const toolCalls = new Map<string, { calls: number; errors: number; durations: number[] }>();
+const recentFailures: FetchFailure[] = [];
+
+/**
+ * Only log events at this level and above
+ */
+export function setLogLevel(level: LogLevel): void {
+  logLevel = level;
+}
+
+/**
+ * Write an event as one JSON line to stderr
+ */
+export function logEvent(level: Exclude<LogLevel, 'off'>, event: string, fields: Record<string, unknown> = {}): void {
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(logLevel)) {
+    return;
+  }
+  process.stderr.write(`${JSON.stringify({ time: new Date().toISOString(), level, event, ...fields })}\n`);
+}
+
+/**
+ * Count a tool call and its duration
+ */
+export function recordToolCall(tool: string, durationMs: number, ok: boolean): void {
+  const stats = toolCalls.get(tool) ?? { calls: 0, errors: 0, durations: [] };
+  stats.calls++;
+  if (!ok) stats.errors++;
+  stats.durations.push(durationMs);
+  if (stats.durations.length > MAX_LATENCY_SAMPLES) stats.durations.shift();
+  toolCalls.set(tool, stats);
+
+  logEvent(ok ? 'info' : 'warn', 'tool_call', { tool, durationMs: Math.round(durationMs), ok });
+}
+
+/**
+ * Remember a failed index or article read
+ */
+export function recordFetchFailure(failure: Omit<FetchFailure, 'time'>): void {
+  recentFailures.unshift({ time: new Date().toISOString(), ...failure });
+  recentFailures.length = Math.min(recentFailures.length, MAX_RECENT_FAILURES);
+
+  logEvent('warn', 'fetch_failure', { ...failure });
+}
+
+/**
+ * Call counts and latency percentiles of every tool called so far
+ */
+export function getToolStats(): ToolStats[] {
+  return [...toolCalls.entries()]
+    .map(([tool, { calls, errors, durations }]) => {
+      const sorted = [...durations].sort((a, b) => a - b);
+      return {
+        tool,
+        calls,
+        errors,
+        latencyMs: {
+          p50: percentile(sorted, 50),
+          p90: percentile(sorted, 90),
+          p99: percentile(sorted, 99),
+          max: Math.round(sorted[sorted.length - 1] ?? 0)
+        }
+      };
+    })
+    .sort((a, b) => b.calls - a.calls || a.tool.localeCompare(b.tool));
+}
+
+/**
+ * Failed reads, newest first
+ */
+export function getRecentFailures(): FetchFailure[] {
+  return [...recentFailures];
+}
+
+/**
+ * Forget all metrics
+ */
+export function resetDiagnostics(): void {
+  toolCalls.clear();
+  recentFailures.length = 0;
+}
+
+// Nearest-rank percentile of sorted samples
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return Math.round(sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)]);
+}
@@ -0,0 +1,35 @@
+/*
+ * Tests for the error model
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DocsError, errorCodeForResponse, toDocsError, wrapError } from './errors.js';
+
+describe('toDocsError', () => {
+  it('should classify timeouts, cancellations and system errors', () => {
+    expect(toDocsError(new DOMException('Timed out after 10ms', 'TimeoutError')).code).toBe('TIMEOUT');
+    expect(toDocsError(new DOMException('This operation was aborted', 'AbortError')).code).toBe('CANCELLED');
+    expect(toDocsError(Object.assign(new Error('no such file'), { code: 'ENOENT' })).code).toBe('NOT_FOUND');
+    expect(toDocsError(Object.assign(new Error('refused'), { code: 'ECONNREFUSED' })).code).toBe('NETWORK');
+    expect(toDocsError('oops')).toMatchObject({ code: 'INTERNAL', message: 'Unknown error' });
+  });
+
+  it('should keep the code when adding context', () => {
+    const error = wrapError(new DocsError('RATE_LIMITED', 'Slow down'), 'Failed to fetch index');
+
+    expect(error).toMatchObject({ code: 'RATE_LIMITED', message: 'Failed to fetch index: Slow down' });
+  });
+});
+
+describe('errorCodeForResponse', () => {
+  it('should recognize missing articles and exhausted rate limits', () => {
+    const response = (status: number, remaining?: string) =>
+      ({ status, headers: new Headers(remaining ? { 'x-ratelimit-remaining': remaining } : {}) }) as Response;
+
+    expect(errorCodeForResponse(response(404))).toBe('NOT_FOUND');
+    expect(errorCodeForResponse(response(429))).toBe('RATE_LIMITED');
+    expect(errorCodeForResponse(response(403, '0'))).toBe('RATE_LIMITED');
+    expect(errorCodeForResponse(response(403, '12'))).toBe('NETWORK');
+    expect(errorCodeForResponse(response(502))).toBe('NETWORK');
+  });
+});
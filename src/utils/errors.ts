@@ -0,0 +1,94 @@
+/*
+ * Error Model
+ *
+ * Errors carry a code so clients can tell a wrong path from a rate limit or an
+ * outage and react accordingly: fix the input, back off, or retry.
+ */
+
+export type ErrorCode =
+  | 'NOT_FOUND'
+  | 'INVALID_PATH'
+  | 'INVALID_INPUT'
+  | 'INVALID_CONFIG'
+  | 'RATE_LIMITED'
+  | 'NETWORK'
+  | 'SOURCE_UNAVAILABLE'
+  | 'TIMEOUT'
+  | 'CANCELLED'
+  | 'INTERNAL';
+
+// Index entries offered instead of a reference that matched nothing
+export interface Suggestion {
+  title: string;
+  path: string;
+}
+
+export interface DocsErrorOptions extends ErrorOptions {
+  suggestions?: Suggestion[];
+}
+
+export class DocsError extends Error {
+  readonly code: ErrorCode;
+  readonly suggestions?: Suggestion[];
+
+  constructor(code: ErrorCode, message: string, options: DocsErrorOptions = {}) {
+    super(message, options);
+    this.name = 'DocsError';
+    this.code = code;
+    if (options.suggestions) {
+      this.suggestions = options.suggestions;
+    }
+  }
+}
+
+// System error codes of failed connections
+const NETWORK_ERROR_CODES = new Set(['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EAI_AGAIN', 'ETIMEDOUT', 'EPIPE']);
+
+/**
+ * Classify any thrown value as a DocsError
+ */
+export function toDocsError(error: unknown): DocsError {
+  if (error instanceof DocsError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  const name = error instanceof Error || error instanceof DOMException ? error.name : undefined;
+  const systemCode = (error as NodeJS.ErrnoException | undefined)?.code;
+
+  if (name === 'TimeoutError') {
+    return new DocsError('TIMEOUT', message, { cause: error });
+  }
+  if (name === 'AbortError') {
+    return new DocsError('CANCELLED', 'Request was cancelled', { cause: error });
+  }
+  if (systemCode === 'ENOENT') {
+    return new DocsError('NOT_FOUND', message, { cause: error });
+  }
+  if (systemCode && NETWORK_ERROR_CODES.has(systemCode)) {
+    return new DocsError('NETWORK', message, { cause: error });
+  }
+  return new DocsError('INTERNAL', message, { cause: error });
+}
+
+/**
+ * Add context to an error message while keeping its code
+ */
+export function wrapError(error: unknown, context: string): DocsError {
+  const { code, message, suggestions } = toDocsError(error);
+  return new DocsError(code, `${context}: ${message}`, { cause: error, suggestions });
+}
+
+/**
+ * Error code for an unsuccessful HTTP response
+ */
+export function errorCodeForResponse(response: Response): ErrorCode {
+  if (response.status === 404) {
+    return 'NOT_FOUND';
+  }
+  // GitHub signals exhausted rate limits with 429, or 403 and no remaining requests
+  if (response.status === 429 || (response.status === 403 && response.headers?.get('x-ratelimit-remaining') === '0')) {
+    return 'RATE_LIMITED';
+  }
+  return 'NETWORK';
+}
@@ -1,10 +1,17 @@
-export type OutputFormat = 'json' | 'compact-json';
+export const OUTPUT_FORMATS = ['json', 'compact-json', 'markdown'] as const;
 
-export function formatResponse(data: any, format?: OutputFormat): string {
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+export function formatResponse<T>(data: T, format?: OutputFormat, renderMarkdown?: (data: T) => string): string {
   try {
     switch (format) {
       case 'compact-json':
         return JSON.stringify(data);
+      case 'markdown':
+        // Results without a renderer are shown as a JSON block
+        return renderMarkdown
+          ? renderMarkdown(data)
+          : ['```json', JSON.stringify(data, null, 2), '```'].join('\n');
       case 'json':
       default:
         return JSON.stringify(data, null, 2);
@@ -13,4 +20,4 @@ export function formatResponse(data: any, format?: OutputFormat): string {
     console.error('Formatting failed, falling back to JSON:', error);
     return JSON.stringify(data, null, 2);
   }
-}
\ No newline at end of file
+}
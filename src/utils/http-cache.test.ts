@@ -0,0 +1,105 @@
+/*
+ * Tests for the persistent HTTP cache
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createHttpCache } from './http-cache.js';
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+const URL = 'https://raw.githubusercontent.com/vltansky/e11y-mcp/master/docs/index.json';
+
+describe('createHttpCache', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    mockFetch.mockReset();
+    dir = await mkdtemp(join(tmpdir(), 'e11y-cache-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should serve fresh entries without hitting the network', async () => {
+    mockFetch.mockResolvedValueOnce(new Response('{"a":"b"}', { headers: { etag: '"v1"' } }));
+    const cache = createHttpCache({ dir, ttlMs: 60_000 });
+
+    await cache.fetch(URL);
+    const response = await cache.fetch(URL);
+
+    expect(await response.json()).toEqual({ a: 'b' });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should persist entries across cache instances', async () => {
+    mockFetch.mockResolvedValueOnce(new Response('persisted'));
+    await createHttpCache({ dir, ttlMs: 60_000 }).fetch(URL);
+
+    const response = await createHttpCache({ dir, ttlMs: 60_000 }).fetch(URL);
+
+    expect(await response.text()).toBe('persisted');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect((await readdir(dir)).filter(file => file.endsWith('.json'))).toHaveLength(1);
+  });
+
+  it('should revalidate stale entries with conditional headers', async () => {
+    mockFetch
+      .mockResolvedValueOnce(new Response('v1', {
+        headers: { etag: '"v1"', 'last-modified': 'Sun, 20 Jul 2025 10:00:00 GMT' }
+      }))
+      .mockResolvedValueOnce(new Response(null, { status: 304 }));
+    const cache = createHttpCache({ dir, ttlMs: 0 });
+
+    await cache.fetch(URL);
+    const response = await cache.fetch(URL);
+
+    expect(await response.text()).toBe('v1');
+    expect(mockFetch).toHaveBeenLastCalledWith(URL, {
+      headers: {
+        'If-None-Match': '"v1"',
+        'If-Modified-Since': 'Sun, 20 Jul 2025 10:00:00 GMT'
+      },
+      signal: undefined
+    });
+  });
+
+  it('should replace stale entries when the content changed', async () => {
+    mockFetch
+      .mockResolvedValueOnce(new Response('v1', { headers: { etag: '"v1"' } }))
+      .mockResolvedValueOnce(new Response('v2', { headers: { etag: '"v2"' } }));
+    const cache = createHttpCache({ dir, ttlMs: 0 });
+
+    await cache.fetch(URL);
+    const response = await cache.fetch(URL);
+
+    expect(await response.text()).toBe('v2');
+  });
+
+  it('should serve stale content when the network is unavailable', async () => {
+    mockFetch
+      .mockResolvedValueOnce(new Response('offline copy'))
+      .mockRejectedValueOnce(new Error('getaddrinfo ENOTFOUND'))
+      .mockResolvedValueOnce(new Response('rate limited', { status: 429 }));
+    const cache = createHttpCache({ dir, ttlMs: 0 });
+
+    await cache.fetch(URL);
+
+    expect(await (await cache.fetch(URL)).text()).toBe('offline copy');
+    expect(await (await cache.fetch(URL)).text()).toBe('offline copy');
+  });
+
+  it('should pass through errors when nothing is cached', async () => {
+    mockFetch
+      .mockRejectedValueOnce(new Error('getaddrinfo ENOTFOUND'))
+      .mockResolvedValueOnce(new Response('missing', { status: 404 }));
+    const cache = createHttpCache({ ttlMs: 60_000 });
+
+    await expect(cache.fetch(URL)).rejects.toThrow('ENOTFOUND');
+    expect((await cache.fetch(URL)).status).toBe(404);
+  });
+});
@@ -0,0 +1,132 @@
+/*
+ * Persistent HTTP Cache
+ *
+ * Caches GET responses in memory and on disk so the index and articles survive
+ * server restarts. Entries are fresh for a configurable TTL; after that they are
+ * revalidated with If-None-Match / If-Modified-Since, and served stale when the
+ * network is unavailable.
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+export interface HttpCacheOptions {
+  /** Directory for cache files; omit to keep entries in memory only */
+  dir?: string;
+  /** How long an entry is served without revalidation */
+  ttlMs: number;
+}
+
+interface CacheEntry {
+  url: string;
+  body: string;
+  etag?: string;
+  lastModified?: string;
+  fetchedAt: number;
+}
+
+export interface HttpCacheRequest {
+  signal?: AbortSignal;
+  /** Extra request headers, e.g. Accept for API calls */
+  headers?: Record<string, string>;
+}
+
+export interface HttpCache {
+  /** Fetch a URL through the cache; cached bodies are returned as synthetic 200 responses */
+  fetch(url: string, init?: HttpCacheRequest): Promise<Response>;
+}
+
+/**
+ * Create a cache that wraps the global fetch
+ */
+export function createHttpCache(options: HttpCacheOptions): HttpCache {
+  const memory = new Map<string, CacheEntry>();
+
+  const entryFile = (url: string): string =>
+    join(options.dir!, `${createHash('sha256').update(url).digest('hex')}.json`);
+
+  const readEntry = async (url: string): Promise<CacheEntry | undefined> => {
+    const cached = memory.get(url);
+    if (cached || !options.dir) {
+      return cached;
+    }
+
+    try {
+      const entry: CacheEntry = JSON.parse(await readFile(entryFile(url), 'utf8'));
+      if (entry.url === url && typeof entry.body === 'string') {
+        memory.set(url, entry);
+        return entry;
+      }
+    } catch {
+      // Missing or corrupt cache file, treat as a miss
+    }
+    return undefined;
+  };
+
+  const writeEntry = async (entry: CacheEntry): Promise<void> => {
+    memory.set(entry.url, entry);
+    if (!options.dir) {
+      return;
+    }
+
+    // The cache is best effort: a read-only or full disk must not fail requests
+    try {
+      await mkdir(options.dir, { recursive: true });
+      const file = entryFile(entry.url);
+      const tempFile = `${file}.${process.pid}.tmp`;
+      await writeFile(tempFile, JSON.stringify(entry));
+      await rename(tempFile, file);
+    } catch {
+      // Ignore write failures
+    }
+  };
+
+  const toResponse = (entry: CacheEntry): Response =>
+    new Response(entry.body, { status: 200, statusText: 'OK' });
+
+  return {
+    async fetch(url: string, init: HttpCacheRequest = {}): Promise<Response> {
+      const entry = await readEntry(url);
+      if (entry && Date.now() - entry.fetchedAt < options.ttlMs) {
+        return toResponse(entry);
+      }
+
+      const headers: Record<string, string> = { ...init.headers };
+      if (entry?.etag) headers['If-None-Match'] = entry.etag;
+      if (entry?.lastModified) headers['If-Modified-Since'] = entry.lastModified;
+
+      let response: Response;
+      try {
+        response = await fetch(url, { headers, signal: init.signal });
+      } catch (error) {
+        // Offline: fall back to whatever we have (unless the caller gave up)
+        if (entry && !init.signal?.aborted) return toResponse(entry);
+        throw error;
+      }
+
+      if (response.status === 304 && entry) {
+        await writeEntry({ ...entry, fetchedAt: Date.now() });
+        return toResponse(entry);
+      }
+
+      if (response.ok) {
+        const body = await response.text();
+        await writeEntry({
+          url,
+          body,
+          etag: response.headers.get('etag') ?? undefined,
+          lastModified: response.headers.get('last-modified') ?? undefined,
+          fetchedAt: Date.now()
+        });
+        return new Response(body, { status: response.status, statusText: response.statusText });
+      }
+
+      // Rate limits and server errors are transient, keep serving the stale copy
+      if (entry && (response.status === 429 || response.status >= 500)) {
+        return toResponse(entry);
+      }
+      return response;
+    }
+  };
+}
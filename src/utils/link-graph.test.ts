@@ -0,0 +1,63 @@
+/*
+ * Tests for the article link graph
+ */
+
+import { describe, it, expect } from 'vitest';
+import { articleSourceUrl, buildLinkGraph, createLinkResolver, extractLinks } from './link-graph.js';
+
+const index = {
+  'Accordion Pattern': 'docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md',
+  'Accordion Example': 'docs/www.w3.org_WAI_ARIA_apg_patterns_accordion_examples_accordion.md',
+  'Keyboard Interface': 'docs/www.w3.org_WAI_ARIA_apg_practices_keyboard-interface.md'
+};
+
+describe('extractLinks', () => {
+  it('should find link targets and skip images', () => {
+    expect(extractLinks('See [the example](examples/accordion/ "Example") and ![diagram](img/a.png), [spec](<https://w3c.github.io/aria/#button>).'))
+      .toEqual(['examples/accordion/', 'https://w3c.github.io/aria/#button']);
+  });
+});
+
+describe('createLinkResolver', () => {
+  const resolve = createLinkResolver(index);
+  const base = 'https://www.w3.org/WAI/ARIA/apg/patterns/accordion/';
+
+  it('should map absolute and relative URLs to index paths', () => {
+    expect(resolve('https://www.w3.org/WAI/ARIA/apg/patterns/accordion/#keyboard-interaction'))
+      .toBe('docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md');
+    expect(resolve('examples/accordion/index.html', base))
+      .toBe('docs/www.w3.org_WAI_ARIA_apg_patterns_accordion_examples_accordion.md');
+    expect(resolve('../../practices/keyboard-interface/', base))
+      .toBe('docs/www.w3.org_WAI_ARIA_apg_practices_keyboard-interface.md');
+  });
+
+  it('should ignore links outside the index', () => {
+    expect(resolve('https://w3c.github.io/aria/#button', base)).toBeUndefined();
+    expect(resolve('mailto:someone@example.com', base)).toBeUndefined();
+    expect(resolve('examples/accordion/')).toBeUndefined();
+  });
+});
+
+describe('articleSourceUrl', () => {
+  it('should prefer the frontmatter url over one derived from the path', () => {
+    expect(articleSourceUrl('docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md', '---\nurl: https://example.com/a/\n---\n'))
+      .toBe('https://example.com/a/');
+    expect(articleSourceUrl('docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md', '# Accordion'))
+      .toBe('https://www.w3.org/WAI/ARIA/apg/patterns/accordion/');
+    expect(articleSourceUrl('docs/getting-started.md')).toBeUndefined();
+  });
+});
+
+describe('buildLinkGraph', () => {
+  it('should record outgoing and incoming links once per article', () => {
+    const graph = buildLinkGraph(index, new Map([
+      [index['Accordion Pattern'], '[Example](examples/accordion/) [again](examples/accordion/) [self](#top)'],
+      [index['Accordion Example'], '[Pattern](../../) [Keyboard](../../../../practices/keyboard-interface/)']
+    ]));
+
+    expect(graph.outgoing.get(index['Accordion Pattern'])).toEqual([index['Accordion Example']]);
+    expect(graph.outgoing.get(index['Accordion Example'])).toEqual([index['Accordion Pattern'], index['Keyboard Interface']]);
+    expect(graph.incoming.get(index['Accordion Pattern'])).toEqual([index['Accordion Example']]);
+    expect(graph.incoming.get(index['Keyboard Interface'])).toEqual([index['Accordion Example']]);
+  });
+});
@@ -0,0 +1,116 @@
+/*
+ * Article Link Graph
+ *
+ * Maps the markdown links in each article to other articles of the index.
+ * Index paths are derived from page URLs ("www.w3.org_WAI_ARIA_apg_patterns_
+ * accordion.md" is https://www.w3.org/WAI/ARIA/apg/patterns/accordion/), so a
+ * link resolves to an article when its URL maps back to an index path.
+ */
+
+import type { AccessibilityIndex } from '../sources/doc-source.js';
+import { matchFrontmatter } from './markdown.js';
+
+export interface LinkGraph {
+  /** Articles each article links to, in order of first appearance */
+  outgoing: Map<string, string[]>;
+  /** Articles linking to each article */
+  incoming: Map<string, string[]>;
+}
+
+/**
+ * File name of an index path without directory and extension
+ */
+function pathStem(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1).replace(/\.md$/i, '');
+}
+
+/**
+ * URL of the page an article was taken from: the frontmatter "url", else one
+ * derived from the path
+ */
+export function articleSourceUrl(path: string, content?: string): string | undefined {
+  const frontmatterUrl = content && matchFrontmatter(content)?.[1].match(/^url:\s*["']?([^"'\n]+)["']?/m)?.[1].trim();
+  if (frontmatterUrl) {
+    return frontmatterUrl;
+  }
+
+  const [host, ...segments] = pathStem(path).split('_');
+  return host.includes('.') && segments.length > 0 ? `https://${host}/${segments.join('/')}/` : undefined;
+}
+
+/**
+ * Index key of a page URL: host and path segments joined by underscores
+ */
+function urlStem(url: URL): string {
+  const segments = url.pathname
+    .replace(/\/index\.html?$/i, '')
+    .replace(/\.html?$/i, '')
+    .split('/')
+    .filter(Boolean);
+  return [url.hostname, ...segments].join('_').toLowerCase();
+}
+
+/**
+ * Find the targets of the markdown links in an article, skipping images
+ */
+export function extractLinks(content: string): string[] {
+  const links: string[] = [];
+  for (const match of content.matchAll(/(!?)\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g)) {
+    if (!match[1]) links.push(match[2]);
+  }
+  return links;
+}
+
+/**
+ * Build a lookup from link target to index path
+ */
+export function createLinkResolver(index: AccessibilityIndex): (href: string, baseUrl?: string) => string | undefined {
+  const byStem = new Map(Object.values(index).map(path => [pathStem(path).toLowerCase(), path]));
+
+  return (href, baseUrl) => {
+    let url: URL;
+    try {
+      url = new URL(href, baseUrl);
+    } catch {
+      return undefined; // Relative link without a base
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return undefined;
+    }
+    return byStem.get(urlStem(url));
+  };
+}
+
+function linkTargets(resolve: ReturnType<typeof createLinkResolver>, path: string, content: string): string[] {
+  const baseUrl = articleSourceUrl(path, content);
+  const targets = extractLinks(content)
+    .map(href => resolve(href, baseUrl))
+    .filter((target): target is string => target !== undefined && target !== path);
+  return [...new Set(targets)];
+}
+
+/**
+ * Articles an article links to, resolved against the index
+ */
+export function findLinkedArticles(index: AccessibilityIndex, path: string, content: string): string[] {
+  return linkTargets(createLinkResolver(index), path, content);
+}
+
+/**
+ * Build the link graph of every article with loaded content
+ */
+export function buildLinkGraph(index: AccessibilityIndex, contents: Map<string, string>): LinkGraph {
+  const outgoing = new Map<string, string[]>();
+  const incoming = new Map<string, string[]>();
+  const resolve = createLinkResolver(index);
+
+  for (const [path, content] of contents) {
+    const targets = linkTargets(resolve, path, content);
+    outgoing.set(path, targets);
+    for (const target of targets) {
+      incoming.set(target, [...(incoming.get(target) ?? []), path]);
+    }
+  }
+
+  return { outgoing, incoming };
+}
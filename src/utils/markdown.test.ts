@@ -0,0 +1,147 @@
+/*
+ * Tests for the markdown utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import { chunkMarkdown, parseHeadings, parseSections, selectSections, slugify, splitMarkdown } from './markdown.js';
+
+const article = `---
+title: Tabs Pattern
+---
+
+# Tabs Pattern
+
+Intro text.
+
+## Keyboard Interaction
+
+- **Tab**: Moves focus into the tab list.
+
+### Vertical Tabs
+
+- **Down Arrow**: Moves focus to the next tab.
+
+## WAI-ARIA Roles, States, and Properties
+
+\`\`\`html
+# not a heading
+\`\`\`
+
+## Examples
+
+## Examples
+`;
+
+describe('slugify', () => {
+  it('should create GitHub-style anchors', () => {
+    expect(slugify('WAI-ARIA Roles, States, and Properties')).toBe('wai-aria-roles-states-and-properties');
+    expect(slugify('Keyboard Interaction')).toBe('keyboard-interaction');
+  });
+});
+
+describe('parseHeadings', () => {
+  it('should skip frontmatter and fenced code and number duplicate slugs', () => {
+    const headings = parseHeadings(article);
+
+    expect(headings.map(heading => heading.slug)).toEqual([
+      'tabs-pattern',
+      'keyboard-interaction',
+      'vertical-tabs',
+      'wai-aria-roles-states-and-properties',
+      'examples',
+      'examples-1'
+    ]);
+    expect(article.slice(headings[1].offset)).toMatch(/^## Keyboard Interaction/);
+  });
+});
+
+describe('parseSections', () => {
+  it('should include subsections in a section', () => {
+    const sections = parseSections(article);
+    const keyboard = sections.find(section => section.slug === 'keyboard-interaction')!;
+    const text = article.slice(keyboard.offset, keyboard.end);
+
+    expect(text).toContain('Down Arrow');
+    expect(text).not.toContain('WAI-ARIA Roles');
+    expect(keyboard.size).toBe(text.length);
+  });
+});
+
+describe('selectSections', () => {
+  it('should select by heading text or slug and report misses', () => {
+    const { sections, missing } = selectSections(article, ['keyboard interaction', '#wai-aria-roles-states-and-properties', 'Styling']);
+
+    expect(sections.map(section => section.text)).toEqual(['Keyboard Interaction', 'WAI-ARIA Roles, States, and Properties']);
+    expect(missing).toEqual(['Styling']);
+  });
+
+  it('should not return a subsection twice when its parent is selected', () => {
+    const { sections } = selectSections(article, ['Vertical Tabs', 'Keyboard Interaction']);
+
+    expect(sections.map(section => section.text)).toEqual(['Keyboard Interaction']);
+  });
+});
+
+describe('splitMarkdown', () => {
+  it('should separate headings from body text and skip code fences', () => {
+    const { headings, body } = splitMarkdown('---\ntitle: X\n---\n# Title\nText\n```\n# not a heading\n```\n## Section\n');
+
+    expect(headings).toEqual(['Title', 'Section']);
+    expect(body).toContain('# not a heading');
+    expect(body).not.toContain('title: X');
+  });
+});
+
+describe('chunkMarkdown', () => {
+  const paragraph = (label: string) => `${label} ${'word '.repeat(30).trim()}.`;
+  const content = [
+    '# Title',
+    '',
+    paragraph('One'),
+    '',
+    paragraph('Two'),
+    '',
+    '## Section',
+    '',
+    paragraph('Three'),
+    '',
+    '```html',
+    '<div>',
+    '',
+    '</div>',
+    '```',
+    ''
+  ].join('\n');
+
+  it('should cover the content without gaps', () => {
+    const chunks = chunkMarkdown(content, 200);
+
+    expect(chunks[0].start).toBe(0);
+    expect(chunks[chunks.length - 1].end).toBe(content.length);
+    chunks.slice(1).forEach((chunk, i) => expect(chunk.start).toBe(chunks[i].end));
+    chunks.forEach(chunk => expect(chunk.end - chunk.start).toBeLessThanOrEqual(200));
+  });
+
+  it('should prefer heading, then paragraph boundaries', () => {
+    const [first, second] = chunkMarkdown(content, 400).map(({ start, end }) => content.slice(start, end));
+
+    expect(first.endsWith(`${paragraph('Two')}\n\n`)).toBe(true);
+    expect(second.startsWith('## Section')).toBe(true);
+
+    const [small] = chunkMarkdown(content, 200).map(({ start, end }) => content.slice(start, end));
+    expect(small).toBe(`# Title\n\n${paragraph('One')}\n\n`);
+  });
+
+  it('should not split fenced code at blank lines', () => {
+    const intro = `${paragraph('One')}\n\n`;
+    const chunks = chunkMarkdown(`${intro}\`\`\`\n<a>\n\n<b>\n\`\`\`\n`, intro.length + 9);
+
+    // The blank line inside the fence would fit, but the cut is made before the fence
+    expect(chunks[1].start).toBe(intro.length);
+  });
+
+  it('should return a single chunk for short content', () => {
+    expect(chunkMarkdown('short', 500)).toEqual([{ start: 0, end: 5 }]);
+    expect(chunkMarkdown('', 500)).toEqual([{ start: 0, end: 0 }]);
+  });
+});
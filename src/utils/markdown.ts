@@ -0,0 +1,230 @@
+/*
+ * Markdown Utilities
+ *
+ * Lightweight parsing of the markdown articles: frontmatter, headings and the
+ * sections they delimit. Headings inside fenced code blocks are ignored.
+ */
+
+export interface MarkdownHeading {
+  level: number;
+  text: string;
+  /** GitHub-style anchor slug, unique within the article */
+  slug: string;
+  /** Character offset of the heading line */
+  offset: number;
+}
+
+export interface MarkdownSection extends MarkdownHeading {
+  /** Character offset where the section (including subsections) ends */
+  end: number;
+  /** Size of the section in characters, including the heading line */
+  size: number;
+}
+
+/**
+ * Match the frontmatter block at the start of an article
+ */
+export function matchFrontmatter(content: string): RegExpMatchArray | null {
+  return content.match(/^---\s*\n([\s\S]*?)\n---/);
+}
+
+/**
+ * Create a GitHub-style anchor slug for a heading
+ */
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .trim()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .replace(/\s/g, '-');
+}
+
+/**
+ * Find all headings in an article, skipping frontmatter and fenced code
+ */
+export function parseHeadings(content: string): MarkdownHeading[] {
+  const headings: MarkdownHeading[] = [];
+  const slugCounts = new Map<string, number>();
+  const frontmatter = matchFrontmatter(content);
+  let offset = frontmatter ? frontmatter[0].length : 0;
+  let inFence = false;
+
+  for (const line of content.slice(offset).split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    } else if (!inFence) {
+      const match = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+      if (match) {
+        const text = match[2];
+        const baseSlug = slugify(text);
+        const count = slugCounts.get(baseSlug) ?? 0;
+        slugCounts.set(baseSlug, count + 1);
+        headings.push({
+          level: match[1].length,
+          text,
+          slug: count === 0 ? baseSlug : `${baseSlug}-${count}`,
+          offset
+        });
+      }
+    }
+    offset += line.length + 1;
+  }
+
+  return headings;
+}
+
+/**
+ * Split an article into sections. Each section runs until the next heading of
+ * the same or a higher level, so it includes its subsections.
+ */
+export function parseSections(content: string): MarkdownSection[] {
+  const headings = parseHeadings(content);
+
+  return headings.map((heading, i) => {
+    const next = headings.slice(i + 1).find(other => other.level <= heading.level);
+    const end = next ? next.offset : content.length;
+    return { ...heading, end, size: end - heading.offset };
+  });
+}
+
+/**
+ * Split an article into blocks that each run from a heading to the next
+ * heading of any level, so text is attributed to its closest heading. Text
+ * before the first heading is a block without a heading.
+ */
+export function splitHeadingBlocks(content: string): { heading?: MarkdownHeading; start: number; end: number }[] {
+  const headings = parseHeadings(content);
+  const starts: { heading?: MarkdownHeading; start: number }[] = headings.length > 0 && headings[0].offset > 0
+    ? [{ start: 0 }, ...headings.map(heading => ({ heading, start: heading.offset }))]
+    : headings.map(heading => ({ heading, start: heading.offset }));
+  if (starts.length === 0) {
+    starts.push({ start: 0 });
+  }
+  return starts.map((block, i) => ({ ...block, end: starts[i + 1]?.start ?? content.length }));
+}
+
+/**
+ * Cut the sentence or list item around a position down to an excerpt
+ */
+export function excerptAround(text: string, index: number, maxLength: number = 240): string {
+  const before = text.slice(0, index);
+  const start = Math.max(before.lastIndexOf('\n'), before.search(/[.!?]\s[^.!?]*$/) + 1, 0);
+  const newline = text.indexOf('\n', index);
+  const sentenceEnd = text.slice(index).search(/[.!?](\s|$)/);
+  const end = Math.min(
+    newline === -1 ? text.length : newline,
+    sentenceEnd === -1 ? text.length : index + sentenceEnd + 1
+  );
+
+  let excerpt = text.slice(start, end)
+    .replace(/^\s*(?:[-*+]|\d+\.)\s+/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (excerpt.length > maxLength) {
+    excerpt = excerpt.slice(0, maxLength - 3) + '...';
+  }
+  return excerpt;
+}
+
+/**
+ * Select sections by heading text or slug (case-insensitive). Returns the
+ * matched sections in document order and the selectors that matched nothing.
+ */
+export function selectSections(content: string, selectors: string[]): {
+  sections: MarkdownSection[];
+  missing: string[];
+} {
+  const sections = parseSections(content);
+  const selected = new Set<MarkdownSection>();
+  const missing: string[] = [];
+
+  for (const selector of selectors) {
+    const wanted = slugify(selector.replace(/^#/, ''));
+    const matches = sections.filter(section => section.slug === wanted || slugify(section.text) === wanted);
+    if (matches.length === 0) {
+      missing.push(selector);
+    }
+    matches.forEach(section => selected.add(section));
+  }
+
+  // Drop sections already contained in another selected section
+  const ordered = [...selected].sort((a, b) => a.offset - b.offset);
+  const result = ordered.filter(section =>
+    !ordered.some(other => other !== section && other.offset <= section.offset && section.end <= other.end));
+
+  return { sections: result, missing };
+}
+
+/**
+ * Separate headings from the remaining body text (for indexing)
+ */
+export function splitMarkdown(content: string): { headings: string[]; body: string } {
+  const headings = parseHeadings(content);
+  const frontmatter = matchFrontmatter(content);
+  const bodyParts: string[] = [];
+  let position = frontmatter ? frontmatter[0].length : 0;
+
+  for (const heading of headings) {
+    bodyParts.push(content.slice(position, heading.offset));
+    const lineEnd = content.indexOf('\n', heading.offset);
+    position = lineEnd === -1 ? content.length : lineEnd + 1;
+  }
+  bodyParts.push(content.slice(position));
+
+  return { headings: headings.map(heading => heading.text), body: bodyParts.join('') };
+}
+
+/**
+ * Split content into chunks of at most `maxChars`. Chunks end before a heading
+ * when one falls in the second half of the chunk, else at a paragraph break,
+ * else at a line break; only unbroken lines are cut mid-text.
+ */
+export function chunkMarkdown(content: string, maxChars: number): { start: number; end: number }[] {
+  const headingStarts = parseHeadings(content).map(heading => heading.offset);
+  const paragraphStarts: number[] = [];
+  const lineStarts: number[] = [];
+  let offset = 0;
+  let inFence = false;
+  let previousBlank = false;
+
+  for (const line of content.split('\n')) {
+    if (offset > 0) {
+      lineStarts.push(offset);
+      // Paragraph breaks inside fenced code would split an example
+      if (!inFence && previousBlank && line.trim()) paragraphStarts.push(offset);
+    }
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    previousBlank = !line.trim();
+    offset += line.length + 1;
+  }
+
+  const chunks: { start: number; end: number }[] = [];
+  let start = 0;
+  while (start < content.length) {
+    const limit = start + maxChars;
+    if (limit >= content.length) {
+      chunks.push({ start, end: content.length });
+      break;
+    }
+
+    // The last boundary after `min` that still fits in the chunk
+    const lastBoundary = (positions: number[], min: number) => {
+      for (let i = positions.length - 1; i >= 0; i--) {
+        if (positions[i] <= limit) return positions[i] > min ? positions[i] : undefined;
+      }
+      return undefined;
+    };
+    const half = start + Math.floor(maxChars / 2);
+    const end = lastBoundary(headingStarts, half)
+      ?? lastBoundary(paragraphStarts, half)
+      ?? lastBoundary(headingStarts, start)
+      ?? lastBoundary(paragraphStarts, start)
+      ?? lastBoundary(lineStarts, start)
+      ?? limit;
+
+    chunks.push({ start, end });
+    start = end;
+  }
+
+  return chunks.length > 0 ? chunks : [{ start: 0, end: 0 }];
+}
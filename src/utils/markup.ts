@@ -0,0 +1,254 @@
+/*
+ * HTML/JSX Markup Parsing
+ *
+ * A small, tolerant parser for component snippets. It only extracts what the
+ * accessibility audit needs: elements, their attributes, nesting and roles.
+ * JSX specifics are normalized (className -> class, expression values kept as
+ * "{...}", spread attributes ignored).
+ */
+
+export interface MarkupElement {
+  tag: string;
+  /** Attribute names are lowercased; valueless attributes have the value "" */
+  attributes: Record<string, string>;
+  /** Index of the enclosing element, if any */
+  parent?: number;
+  line: number;
+  /** The start tag as written, for reporting */
+  source: string;
+}
+
+const VOID_ELEMENTS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'
+]);
+
+const JSX_ATTRIBUTE_NAMES: Record<string, string> = {
+  classname: 'class',
+  htmlfor: 'for'
+};
+
+const INPUT_ROLES: Record<string, string> = {
+  button: 'button',
+  checkbox: 'checkbox',
+  email: 'textbox',
+  image: 'button',
+  number: 'spinbutton',
+  radio: 'radio',
+  range: 'slider',
+  reset: 'button',
+  search: 'searchbox',
+  submit: 'button',
+  tel: 'textbox',
+  text: 'textbox',
+  url: 'textbox'
+};
+
+const IMPLICIT_ROLES: Record<string, string> = {
+  article: 'article',
+  aside: 'complementary',
+  button: 'button',
+  dialog: 'dialog',
+  footer: 'contentinfo',
+  form: 'form',
+  h1: 'heading',
+  h2: 'heading',
+  h3: 'heading',
+  h4: 'heading',
+  h5: 'heading',
+  h6: 'heading',
+  header: 'banner',
+  hr: 'separator',
+  img: 'img',
+  li: 'listitem',
+  main: 'main',
+  nav: 'navigation',
+  ol: 'list',
+  option: 'option',
+  progress: 'progressbar',
+  section: 'region',
+  select: 'combobox',
+  table: 'table',
+  tbody: 'rowgroup',
+  td: 'cell',
+  textarea: 'textbox',
+  th: 'columnheader',
+  thead: 'rowgroup',
+  tr: 'row',
+  ul: 'list'
+};
+
+// ARIA states and properties the browser derives from an element's native semantics
+const IMPLIED_ATTRIBUTES: Record<string, string[]> = {
+  dialog: ['aria-modal'],
+  h1: ['aria-level'],
+  h2: ['aria-level'],
+  h3: ['aria-level'],
+  h4: ['aria-level'],
+  h5: ['aria-level'],
+  h6: ['aria-level'],
+  li: ['aria-posinset', 'aria-setsize'],
+  option: ['aria-selected'],
+  progress: ['aria-valuemax', 'aria-valuemin', 'aria-valuenow'],
+  select: ['aria-expanded'],
+  textarea: ['aria-multiline']
+};
+
+const INPUT_IMPLIED_ATTRIBUTES: Record<string, string[]> = {
+  checkbox: ['aria-checked'],
+  number: ['aria-valuemax', 'aria-valuemin', 'aria-valuenow'],
+  radio: ['aria-checked'],
+  range: ['aria-valuemax', 'aria-valuemin', 'aria-valuenow']
+};
+
+/**
+ * Read a `{...}` expression starting at `start`, returning the index after it
+ */
+function skipBraces(text: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '{') depth++;
+    else if (text[i] === '}' && --depth === 0) return i + 1;
+  }
+  return text.length;
+}
+
+/**
+ * Parse the start tags of a snippet into a flat list of elements
+ */
+export function parseMarkup(markup: string): MarkupElement[] {
+  const elements: MarkupElement[] = [];
+  const stack: number[] = [];
+  let position = 0;
+
+  const lineAt = (index: number): number => markup.slice(0, index).split('\n').length;
+
+  while (position < markup.length) {
+    const open = markup.indexOf('<', position);
+    if (open === -1) break;
+
+    if (markup.startsWith('<!--', open)) {
+      const close = markup.indexOf('-->', open);
+      position = close === -1 ? markup.length : close + 3;
+      continue;
+    }
+
+    const endTag = markup.slice(open).match(/^<\/\s*([A-Za-z][\w.:-]*)?\s*>/);
+    if (endTag) {
+      const tag = endTag[1]?.toLowerCase();
+      const match = [...stack].reverse().findIndex(index => !tag || elements[index].tag === tag);
+      if (match !== -1) stack.splice(stack.length - 1 - match);
+      position = open + endTag[0].length;
+      continue;
+    }
+
+    const name = markup.slice(open + 1).match(/^[A-Za-z][\w.:-]*/);
+    if (!name) {
+      position = open + 1;
+      continue;
+    }
+
+    // Read attributes up to the end of the start tag
+    const attributes: Record<string, string> = {};
+    let i = open + 1 + name[0].length;
+    let selfClosing = false;
+    while (i < markup.length) {
+      while (/\s/.test(markup[i] ?? '')) i++;
+      if (markup[i] === '>') { i++; break; }
+      if (markup.startsWith('/>', i)) { i += 2; selfClosing = true; break; }
+      if (markup[i] === '{') { i = skipBraces(markup, i); continue; }
+
+      const attributeName = markup.slice(i).match(/^[^\s=>/{]+/);
+      if (!attributeName) { i++; continue; }
+      i += attributeName[0].length;
+      const key = attributeName[0].toLowerCase();
+
+      let value = '';
+      const equals = markup.slice(i).match(/^\s*=\s*/);
+      if (equals) {
+        i += equals[0].length;
+        const quote = markup[i];
+        if (quote === '"' || quote === "'") {
+          const close = markup.indexOf(quote, i + 1);
+          const end = close === -1 ? markup.length : close;
+          value = markup.slice(i + 1, end);
+          i = end + 1;
+        } else if (quote === '{') {
+          const end = skipBraces(markup, i);
+          value = markup.slice(i, end);
+          i = end;
+        } else {
+          const unquoted = markup.slice(i).match(/^[^\s>]+/);
+          value = unquoted ? unquoted[0] : '';
+          i += value.length;
+        }
+      }
+      attributes[JSX_ATTRIBUTE_NAMES[key] ?? key] = normalizeValue(value);
+    }
+
+    const tag = name[0].toLowerCase();
+    const index = elements.length;
+    elements.push({
+      tag,
+      attributes,
+      parent: stack[stack.length - 1],
+      line: lineAt(open),
+      source: markup.slice(open, i).replace(/\s+/g, ' ')
+    });
+    if (!selfClosing && !VOID_ELEMENTS.has(tag)) {
+      stack.push(index);
+    }
+    position = i;
+  }
+
+  return elements;
+}
+
+/**
+ * Unwrap JSX literal expressions: {"x"} -> x, {true} -> true
+ */
+function normalizeValue(value: string): string {
+  const literal = value.match(/^\{\s*(?:(["'`])(.*)\1|(true|false|-?\d+(?:\.\d+)?))\s*\}$/s);
+  if (literal) {
+    return literal[2] ?? literal[3];
+  }
+  return value;
+}
+
+/**
+ * True when an attribute value is a JSX expression evaluated at runtime
+ */
+export function isDynamicValue(value: string): boolean {
+  return value.startsWith('{');
+}
+
+/**
+ * The ARIA role of an element: its explicit role, else the implicit role of the tag
+ */
+export function getRole(element: MarkupElement): string | undefined {
+  const explicit = element.attributes.role?.trim().split(/\s+/)[0];
+  if (explicit && !isDynamicValue(explicit)) {
+    return explicit.toLowerCase();
+  }
+
+  if (element.tag === 'a' || element.tag === 'area') {
+    return 'href' in element.attributes ? 'link' : undefined;
+  }
+  if (element.tag === 'input') {
+    return INPUT_ROLES[(element.attributes.type ?? 'text').toLowerCase()];
+  }
+  return IMPLICIT_ROLES[element.tag];
+}
+
+/**
+ * ARIA attributes the tag already provides, as long as the element keeps its native role
+ */
+export function getImpliedAttributes(element: MarkupElement): string[] {
+  const nativeRole = getRole({ ...element, attributes: { ...element.attributes, role: '' } });
+  if (!nativeRole || getRole(element) !== nativeRole) {
+    return [];
+  }
+  if (element.tag === 'input') {
+    return INPUT_IMPLIED_ATTRIBUTES[(element.attributes.type ?? 'text').toLowerCase()] ?? [];
+  }
+  return IMPLIED_ATTRIBUTES[element.tag] ?? [];
+}
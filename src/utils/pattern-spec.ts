@@ -0,0 +1,263 @@
+/*
+ * APG Pattern Spec Extraction
+ *
+ * Parses the "WAI-ARIA Roles, States, and Properties" and "Keyboard Interaction"
+ * sections of an APG pattern article into structured data. The articles are
+ * prose bullet lists, so parsing is heuristic: anything that cannot be
+ * classified is reported back instead of being dropped silently.
+ */
+
+import { isAriaAttribute, isAriaRole } from './aria.js';
+import { parseSections, type MarkdownSection } from './markdown.js';
+
+export interface RoleSpec {
+  role: string;
+  requiredAttributes: string[];
+  optionalAttributes: string[];
+  /** The documentation bullets this role was extracted from */
+  guidance: string[];
+}
+
+export interface KeySpec {
+  /** Individual keys, e.g. ["Space", "Enter"] */
+  keys: string[];
+  behavior: string;
+  optional: boolean;
+  /** Sub-heading the key is documented under, e.g. "Vertical Tabs" */
+  context?: string;
+}
+
+export type SpecSectionKind = 'roles' | 'keyboard';
+
+export interface SpecSection {
+  kind: SpecSectionKind;
+  heading: string;
+  anchor: string;
+}
+
+export interface PatternSpec {
+  roles: RoleSpec[];
+  keyboard: KeySpec[];
+  parsedSections: SpecSection[];
+  unparsedSections: { kind: SpecSectionKind; reason: string }[];
+  /** Bullets inside the parsed sections that could not be classified */
+  unparsedItems: string[];
+}
+
+interface ListItem {
+  text: string;
+  indent: number;
+  context?: string;
+}
+
+const SECTION_MATCHERS: Record<SpecSectionKind, RegExp> = {
+  roles: /\broles?\b/i,
+  keyboard: /\bkeyboard\b/i
+};
+
+const OPTIONAL_MARKER = /\b(optional|optionally|may)\b/i;
+
+/**
+ * Replace markdown links with their text, keeping emphasis so bold role names can be found
+ */
+function stripLinks(text: string): string {
+  return text.replace(/\[([^\]]*)\]\([^)]*\)/g, '$1');
+}
+
+/**
+ * Reduce inline markdown to plain text
+ */
+function plainText(text: string): string {
+  return stripLinks(text).replace(/\*\*|__|`/g, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Collect the bullet list items of a section. Continuation lines are joined to
+ * their item; sub-headings become the context of the items below them.
+ */
+function collectListItems(content: string, section: MarkdownSection): ListItem[] {
+  const items: ListItem[] = [];
+  let context: string | undefined;
+
+  for (const line of content.slice(section.offset, section.end).split('\n').slice(1)) {
+    const heading = line.match(/^#{1,6}\s+(.+?)\s*#*\s*$/);
+    const bullet = line.match(/^(\s*)(?:[-*+]|\d+\.)\s+(.*)$/);
+    if (heading) {
+      context = heading[1];
+    } else if (bullet) {
+      items.push({ text: bullet[2], indent: bullet[1].length, context });
+    } else if (line.trim() && items.length > 0 && /^\s/.test(line)) {
+      items[items.length - 1].text += ` ${line.trim()}`;
+    }
+  }
+  return items;
+}
+
+/**
+ * Find roles mentioned in a bullet, with their positions. Explicit mentions
+ * ("has role tablist") mark the role the bullet is about.
+ */
+function findRoles(text: string): { role: string; index: number; end: number; explicit: boolean }[] {
+  const found: { role: string; index: number; end: number; explicit: boolean }[] = [];
+  const patterns: [RegExp, boolean][] = [
+    [/\brole\s+(?:of\s+)?["'`]?([a-z]+)/gi, true],
+    [/\brole=["']([a-z]+)["']/gi, true],
+    [/\*\*([a-z]+)\*\*/gi, false],
+    [/`([a-z]+)`/gi, false],
+    [/\b([a-z]+)`?\s+element\b/gi, false]
+  ];
+
+  for (const [pattern, explicit] of patterns) {
+    for (const match of text.matchAll(pattern)) {
+      const index = match.index!;
+      const end = index + match[0].length;
+      // The same word can match several patterns ("role `tab`"), keep the first
+      if (isAriaRole(match[1]) && !found.some(mention => index < mention.end && mention.index < end)) {
+        found.push({ role: match[1].toLowerCase(), index, end, explicit });
+      }
+    }
+  }
+  return found.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Find ARIA states and properties mentioned in a bullet, with their positions
+ */
+function findAttributes(text: string): { attribute: string; index: number }[] {
+  return [...text.matchAll(/\baria-[a-z]+\b/gi)]
+    .filter(match => isAriaAttribute(match[0]))
+    .map(match => ({ attribute: match[0].toLowerCase(), index: match.index! }));
+}
+
+/**
+ * Group role bullets into roles with required and optional attributes
+ */
+function parseRoles(items: ListItem[], unparsed: string[]): RoleSpec[] {
+  const roles = new Map<string, RoleSpec>();
+  let contextRole: string | undefined;
+
+  const getRole = (role: string): RoleSpec => {
+    let spec = roles.get(role);
+    if (!spec) {
+      spec = { role, requiredAttributes: [], optionalAttributes: [], guidance: [] };
+      roles.set(role, spec);
+    }
+    return spec;
+  };
+
+  for (const item of items) {
+    const text = stripLinks(item.text);
+    const mentionedRoles = findRoles(text);
+    const attributes = findAttributes(text);
+    const guidance = plainText(item.text);
+
+    if (mentionedRoles.length === 0 && (attributes.length === 0 || !contextRole)) {
+      unparsed.push(guidance);
+      continue;
+    }
+
+    const optional = OPTIONAL_MARKER.test(text);
+    for (const { role } of mentionedRoles) {
+      const spec = getRole(role);
+      if (!spec.guidance.includes(guidance)) spec.guidance.push(guidance);
+    }
+
+    for (const { attribute, index } of attributes) {
+      // Attributes belong to the closest role mentioned before them
+      const owner = [...mentionedRoles].reverse().find(mention => mention.index < index)?.role
+        ?? mentionedRoles[0]?.role
+        ?? contextRole!;
+      const spec = getRole(owner);
+      if (!spec.guidance.includes(guidance)) spec.guidance.push(guidance);
+
+      if (!optional && !spec.requiredAttributes.includes(attribute)) {
+        spec.requiredAttributes.push(attribute);
+        spec.optionalAttributes = spec.optionalAttributes.filter(name => name !== attribute);
+      } else if (optional && !spec.requiredAttributes.includes(attribute) && !spec.optionalAttributes.includes(attribute)) {
+        spec.optionalAttributes.push(attribute);
+      }
+    }
+
+    // Following bullets without a role usually continue about the same subject
+    if (mentionedRoles.length > 0) {
+      contextRole = (mentionedRoles.find(mention => mention.explicit) ?? mentionedRoles[0]).role;
+    }
+  }
+
+  return [...roles.values()];
+}
+
+/**
+ * Turn "Key: behavior" bullets into key specs
+ */
+function parseKeyboard(items: ListItem[], unparsed: string[]): KeySpec[] {
+  const keys: KeySpec[] = [];
+  let lastKey: { spec: KeySpec; indent: number } | undefined;
+
+  for (const item of items) {
+    const text = plainText(item.text);
+    const match = text.match(/^([^:]{1,60}):\s*(.*)$/);
+    const label = match?.[1].trim();
+
+    // Key labels are short, e.g. "Space or Enter", "Shift + Tab", "Down Arrow (Optional)"
+    if (match && label && label.split(/\s+/).length <= 8 && /^[A-Z]/.test(label)) {
+      const optional = /\(optional\)/i.test(label);
+      const spec: KeySpec = {
+        keys: label
+          .replace(/\(optional\)/i, '')
+          .split(/\s+or\s+|\s*,\s*|\s+and\s+/i)
+          .map(key => key.trim())
+          .filter(Boolean),
+        behavior: match[2],
+        optional
+      };
+      if (item.context) spec.context = item.context;
+      keys.push(spec);
+      lastKey = { spec, indent: item.indent };
+    } else if (lastKey && item.indent > lastKey.indent) {
+      // Nested bullets describe the behavior of the key above
+      lastKey.spec.behavior = [lastKey.spec.behavior, text].filter(Boolean).join(' ');
+    } else {
+      unparsed.push(text);
+    }
+  }
+  return keys;
+}
+
+/**
+ * Extract the structured spec of an APG pattern article
+ */
+export function parsePatternSpec(content: string): PatternSpec {
+  const sections = parseSections(content).filter(section => section.level > 1);
+  const spec: PatternSpec = {
+    roles: [],
+    keyboard: [],
+    parsedSections: [],
+    unparsedSections: [],
+    unparsedItems: []
+  };
+
+  for (const kind of Object.keys(SECTION_MATCHERS) as SpecSectionKind[]) {
+    const section = sections.find(candidate => SECTION_MATCHERS[kind].test(candidate.text));
+    if (!section) {
+      spec.unparsedSections.push({ kind, reason: 'Section not found' });
+      continue;
+    }
+
+    const items = collectListItems(content, section);
+    const parsed = kind === 'roles'
+      ? (spec.roles = parseRoles(items, spec.unparsedItems)).length
+      : (spec.keyboard = parseKeyboard(items, spec.unparsedItems)).length;
+
+    if (parsed === 0) {
+      spec.unparsedSections.push({
+        kind,
+        reason: `No ${kind === 'roles' ? 'roles or attributes' : 'keys'} found in "${section.text}"`
+      });
+    } else {
+      spec.parsedSections.push({ kind, heading: section.text, anchor: `#${section.slug}` });
+    }
+  }
+
+  return spec;
+}
@@ -0,0 +1,56 @@
+/*
+ * Tests for the full-text search index
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildSearchIndex, editDistance, tokenize } from './search-index.js';
+
+describe('tokenize', () => {
+  it('should keep hyphenated ARIA attributes and their parts', () => {
+    expect(tokenize('Set aria-expanded on the button')).toEqual(['set', 'aria-expanded', 'aria', 'expanded', 'button']);
+  });
+
+  it('should reduce plurals to a common form', () => {
+    expect(tokenize('Patterns, properties and tabs')).toEqual(['pattern', 'property', 'tab']);
+  });
+});
+
+describe('editDistance', () => {
+  it('should count insertions, deletions and substitutions', () => {
+    expect(editDistance('acordion', 'accordion')).toBe(1);
+    expect(editDistance('tabz', 'tabs')).toBe(1);
+    expect(editDistance('menu', 'nume')).toBe(4);
+  });
+
+  it('should stop early once the limit is exceeded', () => {
+    expect(editDistance('combobox', 'breadcrumb', 2)).toBe(3);
+  });
+});
+
+describe('buildSearchIndex', () => {
+  const index = buildSearchIndex([
+    { id: 'tabs', title: 'Tabs Pattern', headings: ['Keyboard Interaction'], body: 'Arrow keys move focus between tabs.' },
+    { id: 'menu', title: 'Menu Button Pattern', headings: ['Tabs'], body: 'A menu button opens a menu.' },
+    { id: 'grid', title: 'Grid Pattern', body: 'Tabs are not used here, but tabs are mentioned twice.' }
+  ]);
+
+  it('should boost title matches over heading and body matches', () => {
+    expect(index.search('tabs').map(hit => hit.id)).toEqual(['tabs', 'menu', 'grid']);
+    expect(index.search('tabs')[0].bestField).toBe('title');
+    expect(index.search('tabs')[1].bestField).toBe('headings');
+  });
+
+  it('should weight rare terms higher than common ones', () => {
+    const hits = index.search('pattern arrow');
+
+    expect(hits[0].id).toBe('tabs');
+    expect(hits[0].matchedTerms).toEqual(['pattern', 'arrow']);
+  });
+
+  it('should match typos within the allowed edit distance', () => {
+    const hits = index.search('mneu');
+
+    expect(hits).toHaveLength(0);
+    expect(index.search('keybord')[0].fuzzyMatches).toEqual(['keybord -> keyboard']);
+  });
+});
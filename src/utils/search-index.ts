@@ -0,0 +1,258 @@
+/*
+ * Full-Text Search Index
+ *
+ * An inverted index over article titles, headings, paths and body text, ranked
+ * with BM25 per field and combined with field boosts (BM25F-style). Query terms
+ * that are not in the vocabulary are matched against similar terms by edit
+ * distance, so typos like "acordion" still find "accordion".
+ */
+
+export type SearchField = 'title' | 'headings' | 'path' | 'body';
+
+export interface IndexedDocument {
+  id: string;
+  title: string;
+  path?: string;
+  headings?: string[];
+  body?: string;
+}
+
+export interface SearchHit {
+  id: string;
+  score: number;
+  /** Field that contributed most to the score */
+  bestField: SearchField;
+  /** Document terms that matched the query */
+  matchedTerms: string[];
+  /** Query terms that only matched through fuzzy matching, as "query -> term" */
+  fuzzyMatches: string[];
+}
+
+export interface SearchIndex {
+  readonly documentCount: number;
+  search(query: string): SearchHit[];
+}
+
+const FIELD_BOOSTS: Record<SearchField, number> = {
+  title: 3.0,
+  headings: 2.0,
+  path: 0.5,
+  body: 1.0
+};
+
+const FIELDS = Object.keys(FIELD_BOOSTS) as SearchField[];
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Weight of a fuzzy or prefix match relative to an exact term match
+const FUZZY_PENALTY_PER_EDIT = 0.3;
+const PREFIX_WEIGHT = 0.6;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'with'
+]);
+
+interface Posting {
+  docIndex: number;
+  field: SearchField;
+  frequency: number;
+}
+
+/**
+ * Reduce a word to a simple singular form so "patterns" matches "pattern"
+ */
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return word.slice(0, -3) + 'y';
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') && !word.endsWith('us')) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+/**
+ * Split text into normalized search terms. Hyphenated words such as
+ * "aria-expanded" yield both the compound term and its parts.
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  const words = text.toLowerCase().match(/[a-z0-9]+(?:-[a-z0-9]+)*/g) ?? [];
+
+  for (const word of words) {
+    if (word.includes('-')) {
+      terms.push(word);
+      for (const part of word.split('-')) {
+        if (!STOP_WORDS.has(part)) terms.push(stem(part));
+      }
+    } else if (!STOP_WORDS.has(word)) {
+      terms.push(stem(word));
+    }
+  }
+  return terms;
+}
+
+/**
+ * Levenshtein distance, giving up once the distance exceeds maxDistance
+ */
+export function editDistance(a: string, b: string, maxDistance: number = Infinity): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Number of typos tolerated for a query term of the given length
+ */
+function allowedEdits(term: string): number {
+  if (term.length < 4) return 0;
+  if (term.length < 8) return 1;
+  return 2;
+}
+
+/**
+ * Tokenize a path such as "docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md"
+ */
+function tokenizePath(path: string): string[] {
+  return tokenize(path.replace(/\.md$/i, '').replace(/[_./]/g, ' '));
+}
+
+/**
+ * Build a search index over the given documents
+ */
+export function buildSearchIndex(documents: IndexedDocument[]): SearchIndex {
+  const postings = new Map<string, Posting[]>();
+  const fieldLengths: Record<SearchField, number>[] = [];
+  const totalFieldLengths: Record<SearchField, number> = { title: 0, headings: 0, path: 0, body: 0 };
+
+  documents.forEach((doc, docIndex) => {
+    const fieldTerms: Record<SearchField, string[]> = {
+      title: tokenize(doc.title),
+      headings: tokenize((doc.headings ?? []).join('\n')),
+      path: doc.path ? tokenizePath(doc.path) : [],
+      body: tokenize(doc.body ?? '')
+    };
+
+    const lengths = { title: 0, headings: 0, path: 0, body: 0 };
+    for (const field of FIELDS) {
+      const counts = new Map<string, number>();
+      for (const term of fieldTerms[field]) {
+        counts.set(term, (counts.get(term) ?? 0) + 1);
+      }
+      for (const [term, frequency] of counts) {
+        let list = postings.get(term);
+        if (!list) {
+          list = [];
+          postings.set(term, list);
+        }
+        list.push({ docIndex, field, frequency });
+      }
+      lengths[field] = fieldTerms[field].length;
+      totalFieldLengths[field] += lengths[field];
+    }
+    fieldLengths.push(lengths);
+  });
+
+  const documentCount = documents.length;
+  const averageLengths = Object.fromEntries(
+    FIELDS.map(field => [field, documentCount ? totalFieldLengths[field] / documentCount : 0])
+  ) as Record<SearchField, number>;
+
+  const documentFrequency = (term: string): number =>
+    new Set(postings.get(term)!.map(posting => posting.docIndex)).size;
+
+  const idf = (term: string): number => {
+    const df = documentFrequency(term);
+    return Math.log(1 + (documentCount - df + 0.5) / (df + 0.5));
+  };
+
+  /**
+   * Find vocabulary terms matching a query term, with a weight per match
+   */
+  const expandTerm = (queryTerm: string): { term: string; weight: number; fuzzy: boolean }[] => {
+    if (postings.has(queryTerm)) {
+      return [{ term: queryTerm, weight: 1, fuzzy: false }];
+    }
+
+    const maxEdits = allowedEdits(queryTerm);
+    const expansions: { term: string; weight: number; fuzzy: boolean }[] = [];
+    for (const term of postings.keys()) {
+      if (queryTerm.length >= 3 && term.startsWith(queryTerm)) {
+        expansions.push({ term, weight: PREFIX_WEIGHT, fuzzy: true });
+        continue;
+      }
+      if (maxEdits === 0) continue;
+      const distance = editDistance(queryTerm, term, maxEdits);
+      if (distance <= maxEdits) {
+        expansions.push({ term, weight: 1 - FUZZY_PENALTY_PER_EDIT * distance, fuzzy: true });
+      }
+    }
+    return expansions;
+  };
+
+  return {
+    documentCount,
+
+    search(query: string): SearchHit[] {
+      const queryTerms = [...new Set(tokenize(query))];
+      const scores = new Map<number, {
+        score: number;
+        fieldScores: Record<SearchField, number>;
+        matchedTerms: Set<string>;
+        fuzzyMatches: Set<string>;
+      }>();
+
+      for (const queryTerm of queryTerms) {
+        for (const { term, weight, fuzzy } of expandTerm(queryTerm)) {
+          const termIdf = idf(term);
+          for (const posting of postings.get(term)!) {
+            const length = fieldLengths[posting.docIndex][posting.field];
+            const averageLength = averageLengths[posting.field] || 1;
+            const tf = posting.frequency;
+            const bm25 = termIdf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * length / averageLength));
+            const contribution = bm25 * FIELD_BOOSTS[posting.field] * weight;
+
+            let entry = scores.get(posting.docIndex);
+            if (!entry) {
+              entry = {
+                score: 0,
+                fieldScores: { title: 0, headings: 0, path: 0, body: 0 },
+                matchedTerms: new Set(),
+                fuzzyMatches: new Set()
+              };
+              scores.set(posting.docIndex, entry);
+            }
+            entry.score += contribution;
+            entry.fieldScores[posting.field] += contribution;
+            entry.matchedTerms.add(term);
+            if (fuzzy) entry.fuzzyMatches.add(`${queryTerm} -> ${term}`);
+          }
+        }
+      }
+
+      const hits: SearchHit[] = [...scores.entries()].map(([docIndex, entry]) => ({
+        id: documents[docIndex].id,
+        score: entry.score,
+        bestField: FIELDS.reduce((best, field) =>
+          entry.fieldScores[field] > entry.fieldScores[best] ? field : best),
+        matchedTerms: [...entry.matchedTerms],
+        fuzzyMatches: [...entry.fuzzyMatches]
+      }));
+
+      return hits.sort((a, b) => b.score - a.score);
+    }
+  };
+}
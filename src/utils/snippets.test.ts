@@ -0,0 +1,53 @@
+/*
+ * Tests for search snippet extraction
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractSnippets } from './snippets.js';
+import { tokenize } from './search-index.js';
+
+const article = `---
+title: Menu Button Pattern
+---
+
+# Menu Button Pattern
+
+A menu button is a button that opens a menu.
+
+## Keyboard Interaction
+
+- **Enter**: Opens the menu and places focus on the first menu item.
+- **Down Arrow**: Opens the menu and moves focus to the first menu item.
+
+## Notes
+
+${'Focus management is described in the keyboard interface practice. '.repeat(6)}
+`;
+
+describe('extractSnippets', () => {
+  it('should return one snippet per matching section, best match first, with match offsets', () => {
+    const snippets = extractSnippets(article, tokenize('keyboard focus'));
+
+    expect(snippets.map(snippet => snippet.heading)).toEqual(['Keyboard Interaction', 'Notes']);
+    expect(snippets[0].anchor).toBe('#keyboard-interaction');
+    expect(snippets[0].text).toBe(
+      '- **Enter**: Opens the menu and places focus on the first menu item.\n' +
+      '- **Down Arrow**: Opens the menu and moves focus to the first menu item.'
+    );
+    expect(snippets[0].matches.map(match => snippets[0].text.slice(match.start, match.end))).toEqual(['focus', 'focus']);
+  });
+
+  it('should cut long sections at word boundaries and keep offsets on the cut text', () => {
+    const [, notes] = extractSnippets(article, tokenize('keyboard focus'), { maxLength: 80 });
+
+    expect(notes.text).toBe('Focus management is described in the keyboard interface practice. Focus...');
+    expect(notes.matches.map(match => notes.text.slice(match.start, match.end))).toEqual(['Focus', 'keyboard', 'Focus']);
+  });
+
+  it('should limit the number of snippets and skip the frontmatter', () => {
+    expect(extractSnippets(article, tokenize('menu'), { maxSnippets: 1 })).toEqual([
+      expect.objectContaining({ heading: 'Menu Button Pattern', text: 'A menu button is a button that opens a menu.' })
+    ]);
+    expect(extractSnippets(article, tokenize('title'))).toEqual([]);
+  });
+});
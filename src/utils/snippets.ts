@@ -0,0 +1,140 @@
+/*
+ * Search Snippets
+ *
+ * Pick the passages of an article that explain why it matched a search: the
+ * heading sections with the most matched terms, each cut to a window around its
+ * densest cluster of matches without crossing into the next section.
+ */
+
+import { matchFrontmatter, splitHeadingBlocks } from './markdown.js';
+import { tokenize } from './search-index.js';
+
+export interface SnippetMatch {
+  /** Character offsets of the matched word in the snippet text */
+  start: number;
+  end: number;
+  /** Search term the word matched */
+  term: string;
+}
+
+export interface Snippet {
+  /** Heading of the section the snippet comes from; absent for text before the first heading */
+  heading?: string;
+  anchor?: string;
+  text: string;
+  matches: SnippetMatch[];
+}
+
+export interface SnippetOptions {
+  maxSnippets?: number;
+  /** Maximum characters of each snippet's text, not counting ellipses */
+  maxLength?: number;
+}
+
+// Context kept before the first match of a window
+const LEAD_CHARS = 40;
+
+// Words as the search index tokenizes them, including hyphenated compounds
+const WORD_PATTERN = /[a-z0-9]+(?:-[a-z0-9]+)*/gi;
+
+/**
+ * Find the words of a text that match any of the search terms
+ */
+export function findTermMatches(text: string, terms: ReadonlySet<string>): SnippetMatch[] {
+  const matches: SnippetMatch[] = [];
+  for (const word of text.matchAll(WORD_PATTERN)) {
+    const term = tokenize(word[0]).find(token => terms.has(token));
+    if (term) {
+      matches.push({ start: word.index!, end: word.index! + word[0].length, term });
+    }
+  }
+  return matches;
+}
+
+/**
+ * Extract up to maxSnippets snippets for the matched search terms, most relevant first
+ */
+export function extractSnippets(content: string, terms: string[], options: SnippetOptions = {}): Snippet[] {
+  const maxSnippets = options.maxSnippets ?? 3;
+  const maxLength = options.maxLength ?? 200;
+  const wanted = new Set(terms);
+  if (wanted.size === 0) {
+    return [];
+  }
+
+  const frontmatter = matchFrontmatter(content);
+  const contentStart = frontmatter ? frontmatter[0].length : 0;
+
+  const candidates = splitHeadingBlocks(content).flatMap(block => {
+    // The snippet text is the section body; the heading is reported separately
+    const headingEnd = block.heading ? content.indexOf('\n', block.heading.offset) : -1;
+    const start = block.heading ? (headingEnd === -1 ? block.end : headingEnd + 1) : Math.max(block.start, contentStart);
+    const text = content.slice(start, block.end);
+    const matches = findTermMatches(text, wanted);
+    const headingMatches = block.heading ? findTermMatches(block.heading.text, wanted) : [];
+    if ((matches.length === 0 && headingMatches.length === 0) || !text.trim()) {
+      return [];
+    }
+
+    // Sections matching more of the query rank first, then those with the match in their heading
+    const distinctTerms = new Set([...matches, ...headingMatches].map(match => match.term)).size;
+    const score = distinctTerms * 100 + headingMatches.length * 10 + Math.min(matches.length, 9);
+    return [{ heading: block.heading, start, text, matches, score }];
+  });
+
+  return candidates
+    .sort((a, b) => b.score - a.score || a.start - b.start)
+    .slice(0, maxSnippets)
+    .map(({ heading, text, matches }) => ({
+      ...(heading ? { heading: heading.text, anchor: `#${heading.slug}` } : {}),
+      ...cutWindow(text, matches, maxLength)
+    }));
+}
+
+/**
+ * Cut a section body down to the window holding the most matches, at line or word boundaries
+ */
+function cutWindow(text: string, matches: SnippetMatch[], maxLength: number): { text: string; matches: SnippetMatch[] } {
+  let start = 0;
+  let end = text.length;
+
+  if (text.length > maxLength) {
+    // Try a window starting a little before each match and keep the one covering the most matches
+    let best = -1;
+    for (const candidate of matches.map(match => Math.max(0, match.start - LEAD_CHARS))) {
+      const covered = matches.filter(match => match.start >= candidate && match.end <= candidate + maxLength).length;
+      if (covered > best) {
+        best = covered;
+        start = candidate;
+      }
+    }
+
+    // Start at the beginning of the line when it is close, otherwise after a space
+    const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+    if (start - lineStart <= LEAD_CHARS) {
+      start = lineStart;
+    } else if (start > 0 && !/\s/.test(text[start - 1])) {
+      const space = text.slice(start).search(/\s/);
+      start = space === -1 ? start : start + space + 1;
+    }
+
+    end = Math.min(text.length, start + maxLength);
+    if (end < text.length) {
+      const lastSpace = text.slice(start, end).search(/\s\S*$/);
+      if (lastSpace > 0) end = start + lastSpace;
+    }
+  }
+
+  // Drop surrounding blank space so offsets point into the trimmed text
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+
+  const prefix = text.slice(0, start).trim() ? '...' : '';
+  const suffix = text.slice(end).trim() ? '...' : '';
+  return {
+    text: `${prefix}${text.slice(start, end)}${suffix}`,
+    matches: matches
+      .filter(match => match.start >= start && match.end <= end)
+      .map(match => ({ ...match, start: match.start - start + prefix.length, end: match.end - start + prefix.length }))
+  };
+}
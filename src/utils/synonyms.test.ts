@@ -0,0 +1,41 @@
+/*
+ * Tests for query synonym expansion
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_SYNONYMS, expandQuery, mergeSynonyms } from './synonyms.js';
+
+describe('expandQuery', () => {
+  it('should expand everyday terms to APG names', () => {
+    expect(expandQuery('Accessible dropdowns', DEFAULT_SYNONYMS)).toEqual([
+      { term: 'dropdown', synonyms: ['listbox', 'combobox', 'menu button'] }
+    ]);
+    expect(expandQuery('modal with autocomplete', DEFAULT_SYNONYMS)).toEqual([
+      { term: 'modal', synonyms: ['dialog'] },
+      { term: 'autocomplete', synonyms: ['combobox'] }
+    ]);
+  });
+
+  it('should prefer phrases over the words they contain', () => {
+    expect(expandQuery('toggle button', DEFAULT_SYNONYMS)).toEqual([
+      { term: 'toggle button', synonyms: ['switch'] }
+    ]);
+    expect(expandQuery('carousel arrows', DEFAULT_SYNONYMS)).toEqual([
+      { term: 'carousel arrows', synonyms: ['rotation control', 'next slide', 'previous slide'] }
+    ]);
+  });
+
+  it('should leave queries without known terms alone', () => {
+    expect(expandQuery('listbox keyboard', DEFAULT_SYNONYMS)).toEqual([]);
+  });
+});
+
+describe('mergeSynonyms', () => {
+  it('should add new terms and combine existing ones', () => {
+    const merged = mergeSynonyms(DEFAULT_SYNONYMS, { Modal: ['alertdialog'], chip: ['button'] });
+
+    expect(merged.modal).toEqual(['dialog', 'alertdialog']);
+    expect(merged.chip).toEqual(['button']);
+    expect(DEFAULT_SYNONYMS.modal).toEqual(['dialog']);
+  });
+});
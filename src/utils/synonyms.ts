@@ -0,0 +1,103 @@
+/*
+ * Query Synonyms
+ *
+ * Developers search with everyday UI names ("dropdown", "modal", "toggle")
+ * while the APG uses the ARIA names (listbox, dialog, switch). Queries are
+ * expanded with the APG names before ranking. The map can be extended with a
+ * JSON file (see E11Y_DOCS_SYNONYMS in config.ts).
+ */
+
+/** Everyday term or phrase -> APG terms it stands for */
+export type SynonymMap = Record<string, string[]>;
+
+export interface QueryExpansion {
+  /** The term or phrase found in the query */
+  term: string;
+  synonyms: string[];
+}
+
+export const DEFAULT_SYNONYMS: SynonymMap = {
+  'dropdown': ['listbox', 'combobox', 'menu button'],
+  'drop down': ['listbox', 'combobox', 'menu button'],
+  'select': ['listbox', 'combobox'],
+  'multiselect': ['listbox'],
+  'modal': ['dialog'],
+  'lightbox': ['dialog'],
+  'popup': ['dialog', 'menu button'],
+  'pop up': ['dialog', 'menu button'],
+  'popover': ['dialog', 'disclosure'],
+  'toggle': ['switch', 'disclosure'],
+  'toggle button': ['button', 'switch'],
+  'collapsible': ['disclosure', 'accordion'],
+  'expand collapse': ['disclosure', 'accordion'],
+  'show hide': ['disclosure', 'accordion'],
+  'hamburger menu': ['disclosure', 'menu button'],
+  'carousel arrows': ['carousel', 'rotation control', 'next slide', 'previous slide'],
+  'slideshow': ['carousel'],
+  'autocomplete': ['combobox'],
+  'autosuggest': ['combobox'],
+  'typeahead': ['combobox'],
+  'tab panel': ['tabs'],
+  'toast': ['alert'],
+  'snackbar': ['alert'],
+  'notification': ['alert'],
+  'stepper': ['spinbutton'],
+  'number input': ['spinbutton'],
+  'range': ['slider'],
+  'date picker': ['datepicker'],
+  'calendar': ['datepicker', 'grid'],
+  'data table': ['table', 'grid'],
+  'tree view': ['treeview', 'tree'],
+  'navigation menu': ['menubar', 'disclosure navigation']
+};
+
+/**
+ * Split text into lowercase words with a naive singular form, so "dropdowns"
+ * and "Dropdown" both match "dropdown"
+ */
+function words(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) ?? [])
+    .map(word => word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word);
+}
+
+/**
+ * Merge additional synonyms into a map; entries for the same term are combined
+ */
+export function mergeSynonyms(base: SynonymMap, extra: SynonymMap): SynonymMap {
+  const merged: SynonymMap = { ...base };
+  for (const [term, synonyms] of Object.entries(extra)) {
+    const key = term.trim().toLowerCase();
+    merged[key] = [...new Set([...(merged[key] ?? []), ...synonyms])];
+  }
+  return merged;
+}
+
+/**
+ * Find the terms of a query that have synonyms. Longer phrases win over the
+ * words they contain ("toggle button" over "toggle"), and synonyms already in
+ * the query are left out.
+ */
+export function expandQuery(query: string, synonyms: SynonymMap): QueryExpansion[] {
+  const queryWords = words(query);
+  const used = new Array<boolean>(queryWords.length).fill(false);
+  const entries = Object.entries(synonyms)
+    .map(([term, targets]) => ({ term, termWords: words(term), targets }))
+    .filter(entry => entry.termWords.length > 0)
+    .sort((a, b) => b.termWords.length - a.termWords.length);
+
+  const expansions: QueryExpansion[] = [];
+  for (const { term, termWords, targets } of entries) {
+    for (let start = 0; start + termWords.length <= queryWords.length; start++) {
+      const span = queryWords.slice(start, start + termWords.length);
+      if (span.some((word, i) => word !== termWords[i] || used[start + i])) continue;
+
+      span.forEach((_, i) => { used[start + i] = true; });
+      const added = targets.filter(target => !words(target).every(word => queryWords.includes(word)));
+      if (added.length > 0) {
+        expansions.push({ term, synonyms: added });
+      }
+      break;
+    }
+  }
+  return expansions;
+}
@@ -0,0 +1,40 @@
+/*
+ * Tests for the article taxonomy
+ */
+
+import { describe, it, expect } from 'vitest';
+import { classifyArticle, matchesTaxonomy } from './taxonomy.js';
+
+describe('classifyArticle', () => {
+  it('should classify APG pages by their path', () => {
+    expect(classifyArticle('docs/www.w3.org_WAI_ARIA_apg_patterns_accordion.md'))
+      .toEqual({ kind: 'pattern', pattern: 'accordion', site: 'w3.org' });
+    expect(classifyArticle('docs/www.w3.org_WAI_ARIA_apg_patterns_dialog-modal_examples_datepicker-dialog.md'))
+      .toEqual({ kind: 'example', pattern: 'dialog-modal', site: 'w3.org' });
+    expect(classifyArticle('docs/www.w3.org_WAI_ARIA_apg_practices_keyboard-interface.md'))
+      .toEqual({ kind: 'practice', site: 'w3.org' });
+  });
+
+  it('should fall back to other for unknown layouts', () => {
+    expect(classifyArticle('docs/developer.mozilla.org_en-US_docs_Web_Accessibility.md'))
+      .toEqual({ kind: 'other', site: 'developer.mozilla.org' });
+    expect(classifyArticle('docs/getting-started.md')).toEqual({ kind: 'other' });
+  });
+});
+
+describe('matchesTaxonomy', () => {
+  const example = { kind: 'example', pattern: 'dialog-modal', site: 'w3.org' } as const;
+
+  it('should require every facet to match', () => {
+    expect(matchesTaxonomy(example, {})).toBe(true);
+    expect(matchesTaxonomy(example, { kind: 'example', pattern: 'Dialog (Modal)', site: 'https://www.w3.org/' })).toBe(true);
+    expect(matchesTaxonomy(example, { kind: 'pattern' })).toBe(false);
+    expect(matchesTaxonomy(example, { pattern: 'dialog' })).toBe(false);
+    expect(matchesTaxonomy(example, { site: 'mozilla.org' })).toBe(false);
+  });
+
+  it('should match subdomains of a site', () => {
+    expect(matchesTaxonomy({ kind: 'other', site: 'developer.mozilla.org' }, { site: 'mozilla.org' })).toBe(true);
+    expect(matchesTaxonomy({ kind: 'other' }, { site: 'mozilla.org' })).toBe(false);
+  });
+});
@@ -0,0 +1,109 @@
+/*
+ * Article Taxonomy
+ *
+ * Classifies articles by the structure encoded in their index paths: the site
+ * comes first, then the page path joined by underscores, e.g.
+ * "www.w3.org_WAI_ARIA_apg_patterns_dialog-modal_examples_datepicker-dialog.md".
+ */
+
+import { slugify } from './markdown.js';
+
+export const ARTICLE_KINDS = ['pattern', 'example', 'practice', 'other'] as const;
+
+export type ArticleKind = typeof ARTICLE_KINDS[number];
+
+export interface ArticleTaxonomy {
+  kind: ArticleKind;
+  /** Pattern the article documents or demonstrates, e.g. "dialog-modal" */
+  pattern?: string;
+  /** Host the article was taken from, without "www.", e.g. "w3.org" */
+  site?: string;
+}
+
+export interface TaxonomyFilter {
+  kind?: ArticleKind;
+  pattern?: string;
+  site?: string;
+}
+
+/**
+ * Normalize a site given as a host or URL, e.g. "https://www.w3.org/" -> "w3.org"
+ */
+function normalizeSite(site: string): string {
+  return site.trim().toLowerCase().replace(/^[a-z]+:\/\//, '').replace(/\/.*$/, '').replace(/^www\./, '');
+}
+
+/**
+ * Normalize a pattern name, e.g. "Dialog (Modal)" or "accordion pattern" -> "dialog-modal", "accordion"
+ */
+export function normalizePatternName(pattern: string): string {
+  return slugify(pattern).replace(/-pattern$/, '');
+}
+
+/**
+ * Classify an article by its index path
+ */
+export function classifyArticle(path: string): ArticleTaxonomy {
+  const stem = path.slice(path.lastIndexOf('/') + 1).replace(/\.md$/i, '');
+  const [host, ...segments] = stem.split('_');
+  // Files without a site prefix (e.g. "getting-started.md") are local pages
+  if (segments.length === 0 || !host.includes('.')) {
+    return { kind: 'other' };
+  }
+
+  const site = normalizeSite(host);
+  const lower = segments.map(segment => segment.toLowerCase());
+  const patternsAt = lower.indexOf('patterns');
+  const pattern = patternsAt !== -1 ? lower[patternsAt + 1] : undefined;
+
+  if (pattern && lower.slice(patternsAt + 2).some(segment => segment === 'examples' || segment === 'example')) {
+    return { kind: 'example', pattern, site };
+  }
+  if (pattern && patternsAt + 2 === lower.length) {
+    return { kind: 'pattern', pattern, site };
+  }
+  if (lower.includes('practices')) {
+    return { kind: 'practice', site };
+  }
+  return { kind: 'other', ...(pattern ? { pattern } : {}), site };
+}
+
+/**
+ * Check an article's taxonomy against every facet set in a filter
+ */
+export function matchesTaxonomy(taxonomy: ArticleTaxonomy, filter: TaxonomyFilter): boolean {
+  if (filter.kind && taxonomy.kind !== filter.kind) {
+    return false;
+  }
+  if (filter.pattern && taxonomy.pattern !== normalizePatternName(filter.pattern)) {
+    return false;
+  }
+  if (filter.site) {
+    const site = normalizeSite(filter.site);
+    if (!taxonomy.site || (taxonomy.site !== site && !taxonomy.site.endsWith(`.${site}`))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * The pattern page and examples related to an article by path convention. For
+ * a pattern these are its examples; for an example, its pattern and the other
+ * examples of that pattern.
+ */
+export function findPatternFamily(paths: string[], path: string): { patternPath?: string; examples: string[] } {
+  const { pattern } = classifyArticle(path);
+  if (!pattern) {
+    return { examples: [] };
+  }
+
+  const family = paths
+    .filter(other => other !== path)
+    .map(other => ({ other, taxonomy: classifyArticle(other) }))
+    .filter(({ taxonomy }) => taxonomy.pattern === pattern);
+  return {
+    patternPath: family.find(({ taxonomy }) => taxonomy.kind === 'pattern')?.other,
+    examples: family.filter(({ taxonomy }) => taxonomy.kind === 'example').map(({ other }) => other)
+  };
+}
@@ -0,0 +1,154 @@
+/*
+ * WCAG Criterion Index
+ *
+ * Maps WCAG success criteria to the article sections that address them. A
+ * section matches a criterion when it references it explicitly ("SC 2.1.1",
+ * "WCAG 4.1.2", a link to its Understanding page) or when a mapping rule
+ * matches its heading or text, e.g. "Keyboard Interaction" sections address
+ * 2.1.1 Keyboard. Built once per corpus so lookups are a map access.
+ */
+
+import { excerptAround, splitHeadingBlocks } from './markdown.js';
+import { getCriterion, getCriterionBySlug } from './wcag.js';
+
+export interface CriterionMention {
+  path: string;
+  section: string;
+  anchor: string;
+  excerpt: string;
+  /** "reference" when the section cites the criterion, "rule" when a mapping rule matched */
+  match: 'reference' | 'rule';
+  /** Description of the mapping rule that matched */
+  rule?: string;
+}
+
+export type WcagCriterionIndex = Map<string, CriterionMention[]>;
+
+export interface MappingRule {
+  criteria: string[];
+  description: string;
+  /** Matched against the section heading */
+  heading?: RegExp;
+  /** Matched against the section text */
+  text?: RegExp;
+}
+
+// Sections of APG articles and practice guides that address a criterion without citing it
+export const MAPPING_RULES: MappingRule[] = [
+  { criteria: ['2.1.1'], description: 'Keyboard interaction section', heading: /\bkeyboard\b/i },
+  { criteria: ['2.1.2'], description: 'Mentions keyboard or focus traps', text: /\b(?:keyboard|focus)\s+trap|\btraps?\s+focus\b/i },
+  { criteria: ['2.1.4'], description: 'Mentions keyboard shortcuts', text: /\b(?:keyboard|character key)\s+shortcuts?\b|aria-keyshortcuts/i },
+  { criteria: ['4.1.2', '1.3.1'], description: 'Roles, states and properties section', heading: /\broles?\b.*\b(?:states?|propert(?:y|ies))\b/i },
+  { criteria: ['4.1.2', '2.5.3', '2.4.6'], description: 'Accessible names and labels', heading: /\b(?:accessible\s+names?|naming|labell?ing)\b/i },
+  { criteria: ['2.4.3'], description: 'Focus order and focus management', text: /\bfocus\s+(?:order|sequence|management)\b|\btab\s+sequence\b|\bmoves?\s+focus\b/i },
+  { criteria: ['2.4.7', '2.4.13'], description: 'Mentions the focus indicator', text: /\bfocus\s+(?:indicator|ring|outline|visible|visibility)\b|:focus-visible/i },
+  { criteria: ['4.1.3'], description: 'Live regions and status messages', text: /\baria-live\b|\blive\s+regions?\b|\bstatus\s+messages?\b/i },
+  { criteria: ['2.2.2'], description: 'Automatic rotation or movement', text: /\bauto-?rotat|\bautomatic(?:ally)?\s+(?:rotat|advanc|scroll)|\brotation\s+control\b|\bpause\s+button\b/i },
+  { criteria: ['2.3.3'], description: 'Mentions reduced motion', text: /prefers-reduced-motion|\breduced?\s+motion\b/i },
+  { criteria: ['1.4.3', '1.4.11'], description: 'Mentions contrast', text: /\bcontrast\s+ratio\b|\b(?:color|colour|sufficient)\s+contrast\b|\bhigh\s+contrast\b/i },
+  { criteria: ['1.4.1'], description: 'Color alone conveys information', text: /\b(?:colou?r)\s+alone\b|\bonly\s+(?:by\s+)?colou?r\b/i },
+  { criteria: ['1.4.13'], description: 'Content shown on hover or focus', heading: /\btooltip\b/i },
+  { criteria: ['1.3.1', '2.4.1'], description: 'Landmark regions', heading: /\blandmarks?\b/i },
+  { criteria: ['2.4.1'], description: 'Mentions skip links', text: /\bskip\s+(?:links?|to\s+(?:main\s+)?content)\b/i },
+  { criteria: ['1.3.1', '2.4.6', '2.4.10'], description: 'Heading structure', heading: /\bheadings?\b/i },
+  { criteria: ['1.1.1'], description: 'Text alternatives for images and icons', text: /\btext\s+alternatives?\b|\balt\s+(?:text|attribute)\b|\brole\s*=\s*["']img["']/i },
+  { criteria: ['3.2.1', '3.2.2'], description: 'Mentions a change of context', text: /\bchanges?\s+(?:of|in)\s+context\b/i },
+  { criteria: ['2.5.8', '2.5.5'], description: 'Mentions target size', text: /\b(?:target|touch\s+target|hit\s+area)\s+size\b/i },
+  { criteria: ['3.3.1', '3.3.3'], description: 'Input errors and validation', text: /\baria-invalid\b|\baria-errormessage\b|\berror\s+messages?\b/i },
+  { criteria: ['3.3.2'], description: 'Labels and instructions for input', text: /\b(?:form|input|field)\s+labels?\b|\blabels?\s+for\s+(?:the\s+)?(?:form|input|field)/i }
+];
+
+// Criterion numbers with context, so version numbers and dates are not mistaken for criteria
+const REFERENCE_PATTERN = /\b(?:(?:wcag(?:\s*2(?:\.[0-2])?)?|sc|success\s+criteri(?:on|a))\s*:?\s*)(\d\.\d{1,2}\.\d{1,2})\b/gi;
+const NUMBER_PATTERN = /\b(\d\.\d{1,2}\.\d{1,2})\b/g;
+const UNDERSTANDING_PATTERN = /\/Understanding\/([a-z0-9-]+)(?:\.html)?/gi;
+
+/**
+ * Find the criteria a block of text cites, with the position of each citation.
+ * A bare number counts when the criterion name follows, e.g. "2.1.1 Keyboard".
+ */
+export function findCriterionReferences(text: string): { id: string; index: number }[] {
+  const found = new Map<number, string>();
+
+  for (const match of text.matchAll(REFERENCE_PATTERN)) {
+    if (getCriterion(match[1])) {
+      found.set(match.index! + match[0].indexOf(match[1]), match[1]);
+    }
+  }
+  for (const match of text.matchAll(NUMBER_PATTERN)) {
+    const criterion = getCriterion(match[1]);
+    const following = text.slice(match.index! + match[0].length).replace(/^[\s:\-–—]+/, '');
+    if (criterion && following.toLowerCase().startsWith(criterion.name.toLowerCase())) {
+      found.set(match.index!, match[1]);
+    }
+  }
+  for (const match of text.matchAll(UNDERSTANDING_PATTERN)) {
+    const criterion = getCriterionBySlug(match[1]);
+    if (criterion) {
+      found.set(match.index!, criterion.id);
+    }
+  }
+
+  return [...found.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([index, id]) => ({ id, index }));
+}
+
+/**
+ * Position of the first text after a block's heading line, if there is any
+ */
+function bodyStart(text: string): number | undefined {
+  const lineEnd = text.indexOf('\n');
+  const offset = lineEnd === -1 ? -1 : text.slice(lineEnd).search(/\S/);
+  return offset === -1 ? undefined : lineEnd + offset;
+}
+
+/**
+ * Build the criterion index over article contents keyed by path
+ */
+export function buildWcagIndex(contents: Map<string, string>, rules: MappingRule[] = MAPPING_RULES): WcagCriterionIndex {
+  const index: WcagCriterionIndex = new Map();
+  const add = (id: string, mention: CriterionMention) => {
+    let list = index.get(id);
+    if (!list) {
+      list = [];
+      index.set(id, list);
+    }
+    list.push(mention);
+  };
+
+  for (const [path, content] of contents) {
+    for (const block of splitHeadingBlocks(content)) {
+      const raw = content.slice(block.start, block.end);
+      // Link targets are kept for references (Understanding URLs) but dropped from excerpts
+      const text = raw.replace(/\[([^\]]*)\]\([^)]*\)/g, '$1');
+      const section = block.heading?.text ?? '';
+      const anchor = block.heading ? `#${block.heading.slug}` : '';
+      const body = block.heading ? bodyStart(text) : 0;
+      const matched = new Set<string>();
+
+      const positions = findCriterionReferences(text);
+      for (const { id } of findCriterionReferences(raw)) {
+        if (matched.has(id)) continue;
+        matched.add(id);
+        const position = positions.find(reference => reference.id === id)?.index ?? body ?? 0;
+        add(id, { path, section, anchor, excerpt: excerptAround(text, position), match: 'reference' });
+      }
+
+      for (const rule of rules) {
+        // A heading directly followed by a subheading says nothing itself
+        const headingMatch = rule.heading && block.heading && body !== undefined ? rule.heading.test(block.heading.text) : false;
+        const textMatch = !headingMatch && rule.text ? text.match(rule.text) : null;
+        if (!headingMatch && !textMatch) continue;
+
+        const position = textMatch ? textMatch.index! : body!;
+        for (const id of rule.criteria.filter(id => !matched.has(id))) {
+          matched.add(id);
+          add(id, { path, section, anchor, excerpt: excerptAround(text, position), match: 'rule', rule: rule.description });
+        }
+      }
+    }
+  }
+
+  return index;
+}
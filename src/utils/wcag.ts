@@ -0,0 +1,173 @@
+/*
+ * WCAG Success Criteria
+ *
+ * The success criteria of WCAG 2.2 (plus 4.1.1, which 2.2 made obsolete) with
+ * their level and a short description, bundled so lookups work offline.
+ */
+
+import { slugify } from './markdown.js';
+import { editDistance } from './search-index.js';
+
+export type WcagLevel = 'A' | 'AA' | 'AAA';
+
+export interface WcagCriterion {
+  /** Number of the criterion, e.g. "2.1.1" */
+  id: string;
+  name: string;
+  level: WcagLevel;
+  /** WCAG version that introduced the criterion */
+  version: '2.0' | '2.1' | '2.2';
+  description: string;
+  /** True for criteria removed from the latest version */
+  obsolete?: boolean;
+}
+
+export const WCAG_CRITERIA: WcagCriterion[] = [
+  { id: '1.1.1', name: 'Non-text Content', level: 'A', version: '2.0', description: 'Non-text content such as images and icons has a text alternative that serves the same purpose.' },
+  { id: '1.2.1', name: 'Audio-only and Video-only (Prerecorded)', level: 'A', version: '2.0', description: 'Prerecorded audio-only and video-only media has an alternative that presents equivalent information.' },
+  { id: '1.2.2', name: 'Captions (Prerecorded)', level: 'A', version: '2.0', description: 'Prerecorded audio in synchronized media has captions.' },
+  { id: '1.2.3', name: 'Audio Description or Media Alternative (Prerecorded)', level: 'A', version: '2.0', description: 'Prerecorded video has an audio description or a full text alternative.' },
+  { id: '1.2.4', name: 'Captions (Live)', level: 'AA', version: '2.0', description: 'Live audio in synchronized media has captions.' },
+  { id: '1.2.5', name: 'Audio Description (Prerecorded)', level: 'AA', version: '2.0', description: 'Prerecorded video in synchronized media has an audio description.' },
+  { id: '1.2.6', name: 'Sign Language (Prerecorded)', level: 'AAA', version: '2.0', description: 'Prerecorded audio in synchronized media has sign language interpretation.' },
+  { id: '1.2.7', name: 'Extended Audio Description (Prerecorded)', level: 'AAA', version: '2.0', description: 'Video pauses for extended audio description where pauses in the audio are too short.' },
+  { id: '1.2.8', name: 'Media Alternative (Prerecorded)', level: 'AAA', version: '2.0', description: 'Prerecorded synchronized and video-only media has a full text alternative.' },
+  { id: '1.2.9', name: 'Audio-only (Live)', level: 'AAA', version: '2.0', description: 'Live audio-only content has an alternative that presents equivalent information.' },
+  { id: '1.3.1', name: 'Info and Relationships', level: 'A', version: '2.0', description: 'Structure and relationships conveyed visually are available programmatically or in text.' },
+  { id: '1.3.2', name: 'Meaningful Sequence', level: 'A', version: '2.0', description: 'When the reading order affects meaning, the correct order can be determined programmatically.' },
+  { id: '1.3.3', name: 'Sensory Characteristics', level: 'A', version: '2.0', description: 'Instructions do not rely only on shape, color, size, visual location, orientation or sound.' },
+  { id: '1.3.4', name: 'Orientation', level: 'AA', version: '2.1', description: 'Content does not restrict its view to portrait or landscape unless essential.' },
+  { id: '1.3.5', name: 'Identify Input Purpose', level: 'AA', version: '2.1', description: 'The purpose of input fields collecting user information can be determined programmatically.' },
+  { id: '1.3.6', name: 'Identify Purpose', level: 'AAA', version: '2.1', description: 'The purpose of components, icons and regions can be determined programmatically.' },
+  { id: '1.4.1', name: 'Use of Color', level: 'A', version: '2.0', description: 'Color is not the only visual means of conveying information or distinguishing an element.' },
+  { id: '1.4.2', name: 'Audio Control', level: 'A', version: '2.0', description: 'Audio that plays automatically for more than 3 seconds can be paused, stopped or turned down.' },
+  { id: '1.4.3', name: 'Contrast (Minimum)', level: 'AA', version: '2.0', description: 'Text has a contrast ratio of at least 4.5:1 (3:1 for large text).' },
+  { id: '1.4.4', name: 'Resize Text', level: 'AA', version: '2.0', description: 'Text can be resized up to 200 percent without loss of content or functionality.' },
+  { id: '1.4.5', name: 'Images of Text', level: 'AA', version: '2.0', description: 'Text is used instead of images of text, unless customizable or essential.' },
+  { id: '1.4.6', name: 'Contrast (Enhanced)', level: 'AAA', version: '2.0', description: 'Text has a contrast ratio of at least 7:1 (4.5:1 for large text).' },
+  { id: '1.4.7', name: 'Low or No Background Audio', level: 'AAA', version: '2.0', description: 'Prerecorded speech has no or very quiet background sound, or it can be turned off.' },
+  { id: '1.4.8', name: 'Visual Presentation', level: 'AAA', version: '2.0', description: 'Blocks of text can be presented with user-selected colors, limited width, no justification and enough spacing.' },
+  { id: '1.4.9', name: 'Images of Text (No Exception)', level: 'AAA', version: '2.0', description: 'Images of text are only used for decoration or where essential.' },
+  { id: '1.4.10', name: 'Reflow', level: 'AA', version: '2.1', description: 'Content reflows to a 320 CSS pixel wide viewport without scrolling in two dimensions.' },
+  { id: '1.4.11', name: 'Non-text Contrast', level: 'AA', version: '2.1', description: 'Component boundaries, states and meaningful graphics have a contrast ratio of at least 3:1.' },
+  { id: '1.4.12', name: 'Text Spacing', level: 'AA', version: '2.1', description: 'No content is lost when users increase line, paragraph, letter and word spacing.' },
+  { id: '1.4.13', name: 'Content on Hover or Focus', level: 'AA', version: '2.1', description: 'Content shown on hover or focus, such as tooltips, is dismissible, hoverable and persistent.' },
+  { id: '2.1.1', name: 'Keyboard', level: 'A', version: '2.0', description: 'All functionality is operable through a keyboard interface without specific timings.' },
+  { id: '2.1.2', name: 'No Keyboard Trap', level: 'A', version: '2.0', description: 'Keyboard focus can be moved away from every component using the keyboard.' },
+  { id: '2.1.3', name: 'Keyboard (No Exception)', level: 'AAA', version: '2.0', description: 'All functionality is operable through a keyboard interface, without exception.' },
+  { id: '2.1.4', name: 'Character Key Shortcuts', level: 'A', version: '2.1', description: 'Single-character keyboard shortcuts can be turned off, remapped or only work on focus.' },
+  { id: '2.2.1', name: 'Timing Adjustable', level: 'A', version: '2.0', description: 'Users can turn off, adjust or extend time limits.' },
+  { id: '2.2.2', name: 'Pause, Stop, Hide', level: 'A', version: '2.0', description: 'Moving, blinking, scrolling or auto-updating content can be paused, stopped or hidden.' },
+  { id: '2.2.3', name: 'No Timing', level: 'AAA', version: '2.0', description: 'Timing is not an essential part of the activity, except for real-time events.' },
+  { id: '2.2.4', name: 'Interruptions', level: 'AAA', version: '2.0', description: 'Interruptions can be postponed or suppressed, except in emergencies.' },
+  { id: '2.2.5', name: 'Re-authenticating', level: 'AAA', version: '2.0', description: 'Users can continue without losing data after an authenticated session expires.' },
+  { id: '2.2.6', name: 'Timeouts', level: 'AAA', version: '2.1', description: 'Users are warned about inactivity timeouts that could cause data loss.' },
+  { id: '2.3.1', name: 'Three Flashes or Below Threshold', level: 'A', version: '2.0', description: 'Nothing flashes more than three times in any one second period, unless below the flash thresholds.' },
+  { id: '2.3.2', name: 'Three Flashes', level: 'AAA', version: '2.0', description: 'Nothing flashes more than three times in any one second period.' },
+  { id: '2.3.3', name: 'Animation from Interactions', level: 'AAA', version: '2.1', description: 'Motion animation triggered by interaction can be disabled, unless essential.' },
+  { id: '2.4.1', name: 'Bypass Blocks', level: 'A', version: '2.0', description: 'A mechanism is available to bypass blocks of content repeated on multiple pages.' },
+  { id: '2.4.2', name: 'Page Titled', level: 'A', version: '2.0', description: 'Pages have titles that describe their topic or purpose.' },
+  { id: '2.4.3', name: 'Focus Order', level: 'A', version: '2.0', description: 'Components receive focus in an order that preserves meaning and operability.' },
+  { id: '2.4.4', name: 'Link Purpose (In Context)', level: 'A', version: '2.0', description: 'The purpose of each link can be determined from its text or its context.' },
+  { id: '2.4.5', name: 'Multiple Ways', level: 'AA', version: '2.0', description: 'There is more than one way to locate a page within a set of pages.' },
+  { id: '2.4.6', name: 'Headings and Labels', level: 'AA', version: '2.0', description: 'Headings and labels describe topic or purpose.' },
+  { id: '2.4.7', name: 'Focus Visible', level: 'AA', version: '2.0', description: 'The keyboard focus indicator is visible.' },
+  { id: '2.4.8', name: 'Location', level: 'AAA', version: '2.0', description: 'Information about the user\'s location within a set of pages is available.' },
+  { id: '2.4.9', name: 'Link Purpose (Link Only)', level: 'AAA', version: '2.0', description: 'The purpose of each link can be determined from its text alone.' },
+  { id: '2.4.10', name: 'Section Headings', level: 'AAA', version: '2.0', description: 'Section headings are used to organize the content.' },
+  { id: '2.4.11', name: 'Focus Not Obscured (Minimum)', level: 'AA', version: '2.2', description: 'A focused component is not entirely hidden by author-created content.' },
+  { id: '2.4.12', name: 'Focus Not Obscured (Enhanced)', level: 'AAA', version: '2.2', description: 'No part of a focused component is hidden by author-created content.' },
+  { id: '2.4.13', name: 'Focus Appearance', level: 'AAA', version: '2.2', description: 'The focus indicator is large enough and has enough contrast between focused and unfocused states.' },
+  { id: '2.5.1', name: 'Pointer Gestures', level: 'A', version: '2.1', description: 'Multipoint or path-based gestures can also be performed with a single pointer, unless essential.' },
+  { id: '2.5.2', name: 'Pointer Cancellation', level: 'A', version: '2.1', description: 'Single-pointer functions can be aborted or undone; the down-event alone does not complete them.' },
+  { id: '2.5.3', name: 'Label in Name', level: 'A', version: '2.1', description: 'The accessible name of a component contains the text of its visible label.' },
+  { id: '2.5.4', name: 'Motion Actuation', level: 'A', version: '2.1', description: 'Functions triggered by device motion can also be operated through the interface and turned off.' },
+  { id: '2.5.5', name: 'Target Size (Enhanced)', level: 'AAA', version: '2.1', description: 'Pointer targets are at least 44 by 44 CSS pixels.' },
+  { id: '2.5.6', name: 'Concurrent Input Mechanisms', level: 'AAA', version: '2.1', description: 'Content does not restrict the use of the input modalities available on a platform.' },
+  { id: '2.5.7', name: 'Dragging Movements', level: 'AA', version: '2.2', description: 'Functions that use dragging can also be achieved with a single pointer without dragging.' },
+  { id: '2.5.8', name: 'Target Size (Minimum)', level: 'AA', version: '2.2', description: 'Pointer targets are at least 24 by 24 CSS pixels, or have enough spacing.' },
+  { id: '3.1.1', name: 'Language of Page', level: 'A', version: '2.0', description: 'The default human language of each page can be determined programmatically.' },
+  { id: '3.1.2', name: 'Language of Parts', level: 'AA', version: '2.0', description: 'The language of passages and phrases can be determined programmatically.' },
+  { id: '3.1.3', name: 'Unusual Words', level: 'AAA', version: '2.0', description: 'Definitions are available for unusual words, idioms and jargon.' },
+  { id: '3.1.4', name: 'Abbreviations', level: 'AAA', version: '2.0', description: 'The expanded form or meaning of abbreviations is available.' },
+  { id: '3.1.5', name: 'Reading Level', level: 'AAA', version: '2.0', description: 'Supplemental content is available when text requires more than lower secondary reading ability.' },
+  { id: '3.1.6', name: 'Pronunciation', level: 'AAA', version: '2.0', description: 'The pronunciation of words is available where meaning is ambiguous without it.' },
+  { id: '3.2.1', name: 'On Focus', level: 'A', version: '2.0', description: 'Receiving focus does not initiate a change of context.' },
+  { id: '3.2.2', name: 'On Input', level: 'A', version: '2.0', description: 'Changing the setting of a component does not change the context unless users are told beforehand.' },
+  { id: '3.2.3', name: 'Consistent Navigation', level: 'AA', version: '2.0', description: 'Navigation repeated on multiple pages occurs in the same relative order.' },
+  { id: '3.2.4', name: 'Consistent Identification', level: 'AA', version: '2.0', description: 'Components with the same function are identified consistently.' },
+  { id: '3.2.5', name: 'Change on Request', level: 'AAA', version: '2.0', description: 'Changes of context are only initiated on user request or can be turned off.' },
+  { id: '3.2.6', name: 'Consistent Help', level: 'A', version: '2.2', description: 'Help mechanisms repeated on multiple pages occur in the same relative order.' },
+  { id: '3.3.1', name: 'Error Identification', level: 'A', version: '2.0', description: 'Input errors are detected, the item in error is identified and the error is described in text.' },
+  { id: '3.3.2', name: 'Labels or Instructions', level: 'A', version: '2.0', description: 'Labels or instructions are provided when content requires user input.' },
+  { id: '3.3.3', name: 'Error Suggestion', level: 'AA', version: '2.0', description: 'Suggestions for correcting detected input errors are provided, unless that would compromise security.' },
+  { id: '3.3.4', name: 'Error Prevention (Legal, Financial, Data)', level: 'AA', version: '2.0', description: 'Legal, financial and data submissions are reversible, checked or confirmed.' },
+  { id: '3.3.5', name: 'Help', level: 'AAA', version: '2.0', description: 'Context-sensitive help is available.' },
+  { id: '3.3.6', name: 'Error Prevention (All)', level: 'AAA', version: '2.0', description: 'All submissions of information are reversible, checked or confirmed.' },
+  { id: '3.3.7', name: 'Redundant Entry', level: 'A', version: '2.2', description: 'Information already entered in the same process is auto-populated or available to select.' },
+  { id: '3.3.8', name: 'Accessible Authentication (Minimum)', level: 'AA', version: '2.2', description: 'Authentication does not require a cognitive function test unless an alternative or assistance is provided.' },
+  { id: '3.3.9', name: 'Accessible Authentication (Enhanced)', level: 'AAA', version: '2.2', description: 'Authentication does not require a cognitive function test, including object and content recognition.' },
+  { id: '4.1.1', name: 'Parsing', level: 'A', version: '2.0', description: 'Markup has complete start and end tags, is nested correctly and has unique IDs.', obsolete: true },
+  { id: '4.1.2', name: 'Name, Role, Value', level: 'A', version: '2.0', description: 'The name and role of every component can be determined programmatically, and its states and values can be set and are announced.' },
+  { id: '4.1.3', name: 'Status Messages', level: 'AA', version: '2.1', description: 'Status messages can be presented by assistive technologies without receiving focus.' }
+];
+
+const BY_ID = new Map(WCAG_CRITERIA.map(criterion => [criterion.id, criterion]));
+const BY_SLUG = new Map(WCAG_CRITERIA.map(criterion => [slugify(criterion.name), criterion]));
+
+/**
+ * Slug of a criterion name as typed, e.g. "Name,  Role, Value " -> "name-role-value"
+ */
+function nameSlug(name: string): string {
+  return slugify(name).replace(/-+/g, '-').replace(/^-|-$/g, '');
+}
+
+/**
+ * Look up a criterion by number
+ */
+export function getCriterion(id: string): WcagCriterion | undefined {
+  return BY_ID.get(id);
+}
+
+/**
+ * Look up a criterion by the slug of its Understanding page, e.g. "name-role-value"
+ */
+export function getCriterionBySlug(slug: string): WcagCriterion | undefined {
+  return BY_SLUG.get(slug.toLowerCase());
+}
+
+/**
+ * Link to the Understanding document of a criterion
+ */
+export function understandingUrl(criterion: WcagCriterion): string {
+  const version = criterion.obsolete ? '21' : '22';
+  return `https://www.w3.org/WAI/WCAG${version}/Understanding/${slugify(criterion.name)}`;
+}
+
+/**
+ * Find a criterion by number ("2.1.1", "SC 2.1.1"), name ("Name, Role, Value",
+ * "name role value") or both ("4.1.2 Name, Role, Value")
+ */
+export function findCriterion(query: string): WcagCriterion | undefined {
+  const number = query.match(/\b\d\.\d{1,2}\.\d{1,2}\b/)?.[0];
+  if (number) {
+    return BY_ID.get(number);
+  }
+  return BY_SLUG.get(nameSlug(query.replace(/^\s*(?:wcag\s*)?(?:sc|success criterion)\b/i, '')));
+}
+
+/**
+ * Criteria whose name is close to an unknown query
+ */
+export function suggestCriteria(query: string): WcagCriterion[] {
+  const wanted = nameSlug(query);
+  return WCAG_CRITERIA
+    .map(criterion => {
+      const slug = slugify(criterion.name);
+      return { criterion, distance: slug.includes(wanted) && wanted.length > 2 ? 0 : editDistance(wanted, slug, 4) };
+    })
+    .filter(({ distance }) => distance <= 4)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, 5)
+    .map(({ criterion }) => criterion);
+}